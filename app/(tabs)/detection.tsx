@@ -41,6 +41,9 @@ import SpeechService from '../../src/services/SpeechService';
 import VocabularyService from '../../src/services/VocabularyService';
 import type { SaveWordResult } from '../../src/services/VocabularyService';
 import SessionService from '../../src/services/SessionService';
+import StudyPlanService from '../../src/services/StudyPlanService';
+import PlacementService from '../../src/services/PlacementService';
+import type { StudyPlanProgress } from '../../src/services/practice/StudyPlan';
 import ExampleSentenceGenerator from '@/src/services/example-sentences/ExampleSentenceGenerator';
 import { getDisplayAndVisionImage, getOptimalImage } from '../../src/services/ImageUtils';
 
@@ -112,6 +115,7 @@ export default function DetectionScreen() {
     averageProficiency: number;
     currentStreak: number;
   } | null>(null);
+  const [studyPlan, setStudyPlan] = useState<StudyPlanProgress | null>(null);
 
   // Sorted languages object
   const languages = {
@@ -225,6 +229,7 @@ export default function DetectionScreen() {
       setRotatedPhoto(null);
       setDetections([]);
       setSelectedWords(new Set<number>());
+      loadStudyPlan();
       
       // Activate camera after a short delay to ensure proper mounting
       const activateTimer = setTimeout(() => {
@@ -256,6 +261,11 @@ export default function DetectionScreen() {
           
           setIsAuthenticated(true);
           await initializeServices();
+
+          // New accounts can place out of the words they already know
+          if (await PlacementService.shouldOfferPlacement(user.id)) {
+            router.push('/placement');
+          }
           
           // Only activate camera if permission is granted and we're on this tab
           if (permission?.granted) {
@@ -267,6 +277,15 @@ export default function DetectionScreen() {
       }
   };
 
+  const loadStudyPlan = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      setStudyPlan(user ? await StudyPlanService.getProgress(user.id) : null);
+    } catch (error) {
+      console.error('Error loading study plan:', error);
+    }
+  };
+
   // Emergency camera reset function
   const emergencyResetCamera = () => {
     console.log('🚨 Emergency camera reset triggered');
@@ -727,7 +746,9 @@ export default function DetectionScreen() {
         original: detection.label,
         translation: detection.translation || '',
         example: detection.example || '',
-        exampleEnglish: detection.exampleEnglish || ''
+        exampleEnglish: detection.exampleEnglish || '',
+        // Kept as a cropped thumbnail for picture questions
+        photo: photo ? { uri: photo, bbox: detection.bbox } : undefined
       }));
 
       const result = await VocabularyService.saveMultipleWords(
@@ -1164,6 +1185,8 @@ export default function DetectionScreen() {
         onLanguagePress={() => setShowLanguageModal(true)}
         modelStatus={modelStatus}
         languageName={getCurrentLanguageName()}
+        studyPlan={studyPlan}
+        onStudyPlanPress={() => router.push('/(tabs)/profile')}
       />
       
       {/* Retake Photo Button - Show when photo exists */}
@@ -16,18 +16,40 @@ import { scale, normalizeFont } from '../../utils/normalize';
 import { Ionicons } from '@expo/vector-icons';
 import MaterialIcons from '@expo/vector-icons/MaterialIcons';
 import { supabase } from '../../database/config';
-import PracticeService, { PracticeSession, QuizQuestion, PracticeStats } from '../../src/services/PracticeService';
+import PracticeService, {
+    PracticeMode,
+    PracticeSession,
+    QuizQuestion,
+    PracticeStats,
+    SessionSpecPreview
+} from '../../src/services/PracticeService';
+import { PracticeSessionSpec } from '../../src/services/practice/SessionSpec';
+import { LEARN_SESSION_WORD_COUNT } from '../../src/services/practice/SpacedRepetition';
+import { SpeedRoundBest, getComboMultiplier, getSpeedRoundTimeLeft } from '../../src/services/practice/SpeedRound';
+import { HANDS_FREE_QUESTION_COUNT } from '../../src/services/practice/HandsFree';
 import SpeechService from '../../src/services/SpeechService';
 import PracticeQuestionRenderer from '../../src/components/practice/PracticeQuestionRenderer';
 import PracticeStartScreen from '../../src/components/practice/PracticeStartScreen';
+import LearnWordCard from '../../src/components/practice/LearnWordCard';
+import HandsFreePractice from '../../src/components/practice/HandsFreePractice';
+import HandsFreeService from '../../src/services/HandsFreeService';
 import RecordingService from '../../src/services/RecordingService';
 import AudioManager from '../../src/services/AudioManager';
 import { Audio } from 'expo-audio';
-import { useRouter } from 'expo-router';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 const useFocusEffect = require('@react-navigation/native').useFocusEffect;
 
 const { width } = Dimensions.get('window');
 
+// Speech rate multiplier for "slow replay"
+const SLOW_SPEECH_RATE = 0.6;
+
+// Speed rounds advance on their own after this much feedback
+const SPEED_ROUND_FEEDBACK_MS = 600;
+const SPEED_ROUND_TICK_MS = 250;
+// The countdown turns red for the last seconds
+const SPEED_ROUND_WARNING_MS = 10000;
+
 export default function PracticeScreen() {
     const [loading, setLoading] = useState(false);
     const [session, setSession] = useState<PracticeSession | null>(null);
@@ -43,6 +65,19 @@ export default function PracticeScreen() {
     const [audioPlaying, setAudioPlaying] = useState(false);
     const [isProcessingAnswer, setIsProcessingAnswer] = useState(false);
     const [isAuthenticated, setIsAuthenticated] = useState<boolean | null>(null);
+    const [interruptedSession, setInterruptedSession] = useState<PracticeSession | null>(null);
+    const [mistakeCount, setMistakeCount] = useState(0);
+    // Category, proficiency and mixed-language filters chosen on the start screen
+    const [focusSpec, setFocusSpec] = useState<PracticeSessionSpec>({});
+    const [customWordIds, setCustomWordIds] = useState<string[]>([]);
+    const [specPreview, setSpecPreview] = useState<SessionSpecPreview | null>(null);
+    const [speedRoundBests, setSpeedRoundBests] = useState<Record<number, SpeedRoundBest>>({});
+    const [speedTimeLeft, setSpeedTimeLeft] = useState(0);
+    const speedRoundEndingRef = useRef(false);
+    // Learn sessions show their new-word cards before the first question
+    const [learnCardIndex, setLearnCardIndex] = useState(0);
+    // A resumed hands-free session waits for the user to tap resume
+    const [handsFreeStartPaused, setHandsFreeStartPaused] = useState(false);
 
     const [isRecording, setIsRecording] = useState(false);
     const [recordingResult, setRecordingResult] = useState<{
@@ -64,6 +99,12 @@ export default function PracticeScreen() {
     const spinnerAnim = useRef(new Animated.Value(0)).current;
 
     const router = useRouter();
+    // Words hand-picked on the vocabulary screen arrive as a comma-separated id list
+    const { wordIds } = useLocalSearchParams<{ wordIds?: string }>();
+
+    useEffect(() => {
+        setCustomWordIds(wordIds ? wordIds.split(',').filter(Boolean) : []);
+    }, [wordIds]);
 
     // Add automatic refresh when tab is focused
     useFocusEffect(
@@ -131,6 +172,32 @@ export default function PracticeScreen() {
         }
     }, [showAnswer, session?.currentQuestion]);
 
+    // Count a speed round down and end it when the time is up
+    useEffect(() => {
+        const speedRound = session?.speedRound;
+        if (!speedRound || showResults) return;
+
+        const tick = () => {
+            const timeLeft = getSpeedRoundTimeLeft(speedRound);
+            setSpeedTimeLeft(timeLeft);
+            progressAnim.setValue(timeLeft / (speedRound.durationSeconds * 1000));
+            if (timeLeft === 0) {
+                endSpeedRound();
+            }
+        };
+
+        tick();
+        const timer = setInterval(tick, SPEED_ROUND_TICK_MS);
+        return () => clearInterval(timer);
+    }, [session, showResults]);
+
+    // Refresh the filter preview and mistakes count whenever the start screen changes
+    useEffect(() => {
+        if (!session && (selectedLanguage || customWordIds.length > 0)) {
+            loadSpecSummary(buildSessionSpec());
+        }
+    }, [selectedLanguage, focusSpec, customWordIds, session]);
+
     const initializeServices = async () => {
         await RecordingService.initialize();
         await SpeechService.initialize();
@@ -156,6 +223,13 @@ export default function PracticeScreen() {
                     }
                 }
                 
+                // Prepare sentences for words that don't have them yet, so sessions start quickly
+                PracticeService.prepareMaterial(user.id);
+
+                // Offer to resume a session the app was killed in the middle of
+                const interrupted = await PracticeService.getInterruptedSession(user.id);
+                setInterruptedSession(interrupted);
+                
                 // Load user stats
                 const userStats = await PracticeService.getUserStats(user.id);
                 setStats(userStats);
@@ -170,8 +244,47 @@ export default function PracticeScreen() {
         }
     };
 
-    const startPractice = async (questionCount: number) => {
-        if (!selectedLanguage) return;
+    const buildSessionSpec = (): PracticeSessionSpec => {
+        if (customWordIds.length > 0) {
+            return { wordIds: customWordIds };
+        }
+        return {
+            ...focusSpec,
+            languages: focusSpec.languages?.length ? focusSpec.languages : [selectedLanguage]
+        };
+    };
+
+    const loadSpecSummary = async (spec: PracticeSessionSpec) => {
+        try {
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) return;
+
+            const [preview, mistakeWords, bests] = await Promise.all([
+                PracticeService.previewSessionSpec(user.id, spec),
+                PracticeService.getMistakeWords(user.id, spec),
+                PracticeService.getSpeedRoundBests(user.id, spec)
+            ]);
+            setSpecPreview(preview);
+            setMistakeCount(mistakeWords.length);
+            setSpeedRoundBests(bests);
+        } catch (error) {
+            console.error('Error loading practice filters:', error);
+        }
+    };
+
+    const selectLanguage = (code: string) => {
+        setSelectedLanguage(code);
+        // Categories differ between languages
+        setFocusSpec(spec => ({ ...spec, categories: undefined }));
+    };
+
+    const clearCustomWords = () => {
+        setCustomWordIds([]);
+        router.setParams({ wordIds: '' });
+    };
+
+    const startPractice = async (questionCount: number, mode: PracticeMode = 'standard') => {
+        if (!selectedLanguage && customWordIds.length === 0) return;
         
         setLoading(true);
         try {
@@ -181,12 +294,15 @@ export default function PracticeScreen() {
             const newSession = await PracticeService.startPracticeSession(
                 user.id,
                 questionCount,
-                selectedLanguage
+                buildSessionSpec(),
+                mode
             );
 
             if (newSession) {
                 setSession(newSession);
                 setCurrentQuestion(newSession.questions[0]);
+                setLearnCardIndex(0);
+                setHandsFreeStartPaused(false);
                 setShowAnswer(false);
                 setSelectedAnswer(null);
                 setTypedAnswer('');
@@ -203,6 +319,103 @@ export default function PracticeScreen() {
         }
     };
 
+    const startSpeedRound = async (durationSeconds: number) => {
+        if (!selectedLanguage && customWordIds.length === 0) return;
+
+        setLoading(true);
+        try {
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) return;
+
+            const newSession = await PracticeService.startSpeedRound(user.id, durationSeconds, buildSessionSpec());
+
+            if (newSession) {
+                speedRoundEndingRef.current = false;
+                setSession(newSession);
+                setCurrentQuestion(newSession.questions[0]);
+                setShowAnswer(false);
+                setSelectedAnswer(null);
+                setTypedAnswer('');
+                setIsProcessingAnswer(false);
+                animateQuestionEntry();
+
+                // The progress bar shows the time left
+                progressAnim.setValue(1);
+            }
+        } catch (error) {
+            console.error('Error starting speed round:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const endSpeedRound = async () => {
+        if (speedRoundEndingRef.current) return;
+        speedRoundEndingRef.current = true;
+
+        await SpeechService.stop();
+        await PracticeService.finishSpeedRound();
+        setShowResults(true);
+        setTimeout(() => {
+            loadInitialData();
+        }, 100);
+    };
+
+    const resumePractice = () => {
+        if (!interruptedSession) return;
+
+        const question = PracticeService.resumeSession(interruptedSession);
+        if (!question) return;
+
+        setSession(interruptedSession);
+        setCurrentQuestion(question);
+        // Cards are shown again only if no question was answered yet
+        const hasAnswers = interruptedSession.questions.some(q => q.userAnswer !== undefined);
+        setLearnCardIndex(hasAnswers ? interruptedSession.learnWords?.length || 0 : 0);
+        setHandsFreeStartPaused(interruptedSession.mode === 'hands_free');
+        setInterruptedSession(null);
+        setShowAnswer(false);
+        setSelectedAnswer(null);
+        setTypedAnswer('');
+        setIsProcessingAnswer(false);
+        animateQuestionEntry();
+        progressAnim.setValue((interruptedSession.currentQuestion + 1) / interruptedSession.totalQuestions);
+    };
+
+    const nextLearnCard = () => {
+        const next = learnCardIndex + 1;
+        if (next >= (session?.learnWords?.length || 0)) {
+            PracticeService.finishLearnCards();
+        }
+        setLearnCardIndex(next);
+        animateQuestionEntry();
+    };
+
+    const closeSession = async () => {
+        if (!session) return;
+
+        if (session.mode === 'hands_free') {
+            await HandsFreeService.stop();
+        }
+        await SpeechService.stop();
+        // Score the questions answered so far instead of leaving the session open
+        await PracticeService.abandonSession();
+        if (session.questions.some(q => q.userAnswer !== undefined)) {
+            setShowResults(true);
+        } else {
+            handleContinueFromResults();
+        }
+    };
+
+    const discardInterruptedSession = async () => {
+        if (!interruptedSession) return;
+
+        const discarded = interruptedSession;
+        setInterruptedSession(null);
+        await PracticeService.discardInterruptedSession(discarded);
+        loadInitialData();
+    };
+
     const animateQuestionEntry = () => {
         fadeAnim.setValue(0);
         slideAnim.setValue(50);
@@ -222,7 +435,8 @@ export default function PracticeScreen() {
     };
 
     const animateProgress = () => {
-        if (!session) return;
+        // Speed rounds show the time left instead, see the countdown effect
+        if (!session || session.speedRound) return;
         
         let progress = 0;
         
@@ -332,6 +546,11 @@ export default function PracticeScreen() {
             ]).start(() => {
                 setShowAnswer(true);
                 setIsProcessingAnswer(false);
+                if (session?.speedRound) {
+                    setTimeout(() => {
+                        nextQuestion();
+                    }, SPEED_ROUND_FEEDBACK_MS);
+                }
             });
         } catch (error) {
             console.error('Error submitting answer:', error);
@@ -411,7 +630,7 @@ export default function PracticeScreen() {
         }
     };
 
-    const handleSkipQuestion = () => {
+    const handleSkipQuestion = async () => {
         if (currentQuestion) {
             setSkipped(true);
             setSelectedAnswer('__SKIPPED__');
@@ -423,7 +642,7 @@ export default function PracticeScreen() {
                 recordingTimeoutRef.current = null;
             }
             
-            PracticeService.submitAnswer('__SKIPPED__');
+            await PracticeService.submitAnswer('__SKIPPED__');
             setShowAnswer(true);
             setIsProcessingAnswer(false);
             
@@ -433,10 +652,10 @@ export default function PracticeScreen() {
         }
     };
 
-    const handleSpeech = async (text: string, language: string) => {
+    const handleSpeech = async (text: string, language: string, slow = false) => {
         try {
             setAudioPlaying(true);
-            await SpeechService.speak(text, language);
+            await SpeechService.speak(text, language, slow ? SLOW_SPEECH_RATE : 1);
         } catch (error) {
             console.error('Error with speech:', error);
         } finally {
@@ -485,10 +704,15 @@ export default function PracticeScreen() {
     const nextQuestion = async () => {
         if (!session) return;
 
+        if (session.speedRound && getSpeedRoundTimeLeft(session.speedRound) === 0) {
+            await endSpeedRound();
+            return;
+        }
+
         // Stop any ongoing speech before moving to next question
         await SpeechService.stop();
 
-        const next = PracticeService.nextQuestion();
+        const next = await PracticeService.nextQuestion();
         
         if (next) {
             // Reset states
@@ -527,14 +751,20 @@ export default function PracticeScreen() {
             // Session completed - show results immediately
             // Don't set session to null here!
             await SpeechService.stop(); // Also stop audio when finishing
-            setShowResults(true);
-            // Load stats after a short delay to ensure results are visible
-            setTimeout(() => {
-                loadInitialData();
-            }, 100);
+            showSessionResults();
         }
     };
 
+    const showSessionResults = () => {
+        if (!session) return;
+
+        setShowResults(true);
+        // Load stats after a short delay to ensure results are visible
+        setTimeout(() => {
+            loadInitialData();
+        }, 100);
+    };
+
     // Shared function to handle continuing from results
     const handleContinueFromResults = () => {
         setShowResults(false);
@@ -550,8 +780,9 @@ export default function PracticeScreen() {
     const renderResults = () => {
         if (!session) return null;
 
-        const accuracy = (session.correctAnswers / session.totalQuestions) * 100;
-        const earnedXP = session.correctAnswers * 10 + (session.totalQuestions === 20 ? 100 : session.totalQuestions === 10 ? 20 : 0);
+        const accuracy = session.totalQuestions > 0 ? (session.correctAnswers / session.totalQuestions) * 100 : 0;
+        const speedRound = session.speedRound;
+        const earnedXP = session.xpEarned ?? session.correctAnswers * 10 + (session.totalQuestions === 20 ? 100 : session.totalQuestions === 10 ? 20 : 0);
 
         return (
             <Modal
@@ -571,7 +802,7 @@ export default function PracticeScreen() {
                         onPress={() => {}}
                     >
                         <View style={styles.resultsTitleContainer}>
-                            <Text style={styles.resultsTitle}>Practice Complete!</Text>
+                            <Text style={styles.resultsTitle}>{speedRound ? "Time's Up!" : 'Practice Complete!'}</Text>
                             <MaterialIcons name="celebration" size={scale(32)} color="#f39c12" />
                         </View>
                         
@@ -580,12 +811,32 @@ export default function PracticeScreen() {
                                 {session.correctAnswers} / {session.totalQuestions}
                             </Text>
                             <Text style={styles.accuracyText}>{accuracy.toFixed(0)}% Accuracy</Text>
+                            {!!session.retryScore?.retried && (
+                                <Text style={styles.retryScoreText}>
+                                    {session.retryScore.afterRetry} / {session.retryScore.questions} after retry
+                                </Text>
+                            )}
                         </View>
 
                         <View style={styles.xpEarned}>
                             <Text style={styles.xpText}>+{earnedXP} XP</Text>
                         </View>
 
+                        {speedRound && (
+                            <View style={styles.speedRoundResults}>
+                                <Text style={styles.speedRoundResultText}>
+                                    Best combo: {speedRound.bestCombo}
+                                </Text>
+                                <Text style={[styles.speedRoundResultText, speedRound.isNewBest && styles.newBestText]}>
+                                    {speedRound.isNewBest
+                                        ? 'New personal best!'
+                                        : speedRound.previousBest !== undefined
+                                            ? `Personal best: ${speedRound.previousBest}`
+                                            : ''}
+                                </Text>
+                            </View>
+                        )}
+
                         <View style={styles.statsGrid}>
                             <View style={styles.statItem}>
                                 <Ionicons name="checkmark-circle" size={scale(32)} color="#27ae60" />
@@ -599,6 +850,17 @@ export default function PracticeScreen() {
                             </View>
                         </View>
 
+                        <TouchableOpacity
+                            style={styles.summaryButton}
+                            onPress={() => {
+                                handleContinueFromResults();
+                                router.push(`/practice-summary?sessionId=${session.id}`);
+                            }}
+                        >
+                            <Ionicons name="list" size={scale(18)} color="#3498db" />
+                            <Text style={styles.summaryButtonText}>View Summary</Text>
+                        </TouchableOpacity>
+
                         <TouchableOpacity
                             style={[styles.continueButton, { backgroundColor: '#3498db', borderRadius: 12 }]}
                             onPress={handleContinueFromResults}
@@ -663,12 +925,51 @@ export default function PracticeScreen() {
                     </TouchableOpacity>
                 </View>
 
+                {interruptedSession && !loading && (
+                    <View style={styles.resumeCard}>
+                        <View style={styles.resumeInfo}>
+                            <Ionicons name="play-circle" size={scale(36)} color="#3498db" />
+                            <View style={styles.resumeTextContainer}>
+                                <Text style={styles.resumeTitle}>Unfinished session</Text>
+                                <Text style={styles.resumeSubtitle}>
+                                    {availableLanguages.find(lang => lang.code === interruptedSession.language)?.name || 'Practice'}
+                                    {' · '}Question {interruptedSession.currentQuestion + 1} of {interruptedSession.totalQuestions}
+                                </Text>
+                            </View>
+                        </View>
+                        <View style={styles.resumeActions}>
+                            <TouchableOpacity style={styles.discardButton} onPress={discardInterruptedSession}>
+                                <Text style={styles.discardButtonText}>Discard</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity style={styles.resumeButton} onPress={resumePractice}>
+                                <Text style={styles.resumeButtonText}>Resume session</Text>
+                            </TouchableOpacity>
+                        </View>
+                    </View>
+                )}
+
                 <PracticeStartScreen
                     availableLanguages={availableLanguages}
                     selectedLanguage={selectedLanguage}
                     loading={loading}
-                    onSelectLanguage={setSelectedLanguage}
+                    onSelectLanguage={selectLanguage}
                     onStartPractice={startPractice}
+                    mistakeCount={mistakeCount}
+                    onStartMistakesReview={() => startPractice(mistakeCount, 'mistakes')}
+                    spec={focusSpec}
+                    onChangeSpec={setFocusSpec}
+                    categories={specPreview?.categories}
+                    matchingWordCount={specPreview?.matchingWordCount}
+                    customWordCount={customWordIds.length}
+                    onClearCustomWords={clearCustomWords}
+                    onStartSpeedRound={startSpeedRound}
+                    speedRoundBests={speedRoundBests}
+                    onOpenStats={() => router.push('/practice-stats')}
+                    onOpenHistory={() => router.push('/practice-history')}
+                    newWordCount={specPreview?.newWordCount}
+                    newWordsLeftToday={specPreview?.newWordsLeftToday}
+                    onStartLearn={() => startPractice(LEARN_SESSION_WORD_COUNT, 'learn')}
+                    onStartHandsFree={() => startPractice(HANDS_FREE_QUESTION_COUNT, 'hands_free')}
                 />
 
                 {renderResults()}
@@ -676,6 +977,61 @@ export default function PracticeScreen() {
         );
     }
 
+    const learnWords = session.learnWords || [];
+    if (learnCardIndex < learnWords.length) {
+        return (
+            <View style={styles.container}>
+                <View style={styles.questionHeader}>
+                    <Text style={styles.questionCounter}>Learn New Words</Text>
+                    <TouchableOpacity onPress={closeSession}>
+                        <Ionicons name="close" size={scale(28)} color="#7f8c8d" />
+                    </TouchableOpacity>
+                </View>
+
+                <ScrollView
+                    style={styles.scrollView}
+                    contentContainerStyle={styles.scrollContent}
+                >
+                    <Animated.View style={{ opacity: fadeAnim, transform: [{ translateY: slideAnim }] }}>
+                        <LearnWordCard
+                            word={learnWords[learnCardIndex]}
+                            index={learnCardIndex}
+                            total={learnWords.length}
+                            audioPlaying={audioPlaying}
+                            onPlayAudio={handleSpeech}
+                            onNext={nextLearnCard}
+                        />
+                    </Animated.View>
+                </ScrollView>
+            </View>
+        );
+    }
+
+    if (session.mode === 'hands_free') {
+        return (
+            <View style={styles.container}>
+                <View style={styles.questionHeader}>
+                    <Text style={styles.questionCounter}>Hands-Free Practice</Text>
+                    <TouchableOpacity onPress={closeSession}>
+                        <Ionicons name="close" size={scale(28)} color="#7f8c8d" />
+                    </TouchableOpacity>
+                </View>
+
+                <ScrollView
+                    style={styles.scrollView}
+                    contentContainerStyle={styles.scrollContent}
+                >
+                    <HandsFreePractice
+                        startPaused={handsFreeStartPaused}
+                        onFinished={showSessionResults}
+                    />
+                </ScrollView>
+
+                {renderResults()}
+            </View>
+        );
+    }
+
     return (
         <View style={styles.container}>
             {/* Progress Bar */}
@@ -695,13 +1051,35 @@ export default function PracticeScreen() {
 
             {/* Question Counter */}
             <View style={styles.questionHeader}>
-                <Text style={styles.questionCounter}>
-                    Question {Math.min(session.currentQuestion + 1, session.totalQuestions)} of {session.totalQuestions}
-                </Text>
-                <TouchableOpacity onPress={async () => {
-                    await SpeechService.stop();
-                    setShowResults(true);
-                }}>
+                {session.speedRound ? (
+                    <View style={styles.speedRoundHeader}>
+                        <View style={styles.speedRoundTimer}>
+                            <Ionicons
+                                name="timer-outline"
+                                size={scale(20)}
+                                color={speedTimeLeft <= SPEED_ROUND_WARNING_MS ? '#e74c3c' : '#2c3e50'}
+                            />
+                            <Text style={[
+                                styles.speedRoundTime,
+                                speedTimeLeft <= SPEED_ROUND_WARNING_MS && styles.speedRoundTimeLow
+                            ]}>
+                                {Math.ceil(speedTimeLeft / 1000)}s
+                            </Text>
+                        </View>
+                        <Text style={styles.questionCounter}>{session.correctAnswers} correct</Text>
+                        {getComboMultiplier(session.speedRound.combo) > 1 && (
+                            <Text style={styles.comboText}>
+                                x{getComboMultiplier(session.speedRound.combo)} combo
+                            </Text>
+                        )}
+                    </View>
+                ) : (
+                    <Text style={styles.questionCounter}>
+                        Question {Math.min(session.currentQuestion + 1, session.totalQuestions)} of {session.totalQuestions}
+                        {currentQuestion?.retryOf !== undefined && ' · Retry'}
+                    </Text>
+                )}
+                <TouchableOpacity onPress={closeSession}>
                     <Ionicons name="close" size={scale(28)} color="#7f8c8d" />
                 </TouchableOpacity>
             </View>
@@ -737,6 +1115,7 @@ export default function PracticeScreen() {
                             onTypeAnswer={setTypedAnswer}
                             onPlayAudio={handleSpeech}
                             onPlayUserRecording={handlePlayUserRecording}
+                            onUseHint={session.speedRound ? undefined : () => PracticeService.recordHintUsed()}
                         />
                     ) : (
                         <View style={styles.errorContainer}>
@@ -751,7 +1130,7 @@ export default function PracticeScreen() {
                     )}
                 </Animated.View>
 
-                {showAnswer && !skipped && (
+                {showAnswer && !skipped && !session.speedRound && (
                     <Animated.View style={{ opacity: fadeAnim }}>
                         <TouchableOpacity
                             style={styles.nextButton}
@@ -784,10 +1163,10 @@ export default function PracticeScreen() {
                             await PracticeService.submitAnswer('__SKIPPED__');
                             setShowAnswer(true);
                             setIsProcessingAnswer(false);
-                            // Auto-advance after 1 seconds
+                            // Auto-advance after 1 seconds (faster in a speed round)
                             setTimeout(() => {
                             nextQuestion();
-                            }, 1000);
+                            }, session.speedRound ? SPEED_ROUND_FEEDBACK_MS : 1000);
                             }
                             }
                         }}
@@ -863,6 +1242,66 @@ const styles = StyleSheet.create({
         borderRadius: scale(20),
         backgroundColor: '#f0f8ff',
     },
+    resumeCard: {
+        backgroundColor: 'white',
+        marginHorizontal: scale(20),
+        marginTop: scale(20),
+        padding: scale(16),
+        borderRadius: scale(16),
+        borderWidth: scale(2),
+        borderColor: '#3498db',
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: scale(2) },
+        shadowOpacity: 0.1,
+        shadowRadius: scale(4),
+        elevation: 3,
+    },
+    resumeInfo: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: scale(12),
+        marginBottom: scale(12),
+    },
+    resumeTextContainer: {
+        flex: 1,
+    },
+    resumeTitle: {
+        fontSize: normalizeFont(18),
+        fontWeight: 'bold',
+        color: '#2c3e50',
+    },
+    resumeSubtitle: {
+        fontSize: normalizeFont(14),
+        color: '#7f8c8d',
+        marginTop: scale(2),
+    },
+    resumeActions: {
+        flexDirection: 'row',
+        justifyContent: 'flex-end',
+        gap: scale(10),
+    },
+    resumeButton: {
+        backgroundColor: '#3498db',
+        paddingVertical: scale(10),
+        paddingHorizontal: scale(18),
+        borderRadius: scale(20),
+    },
+    resumeButtonText: {
+        color: 'white',
+        fontSize: normalizeFont(14),
+        fontWeight: '600',
+    },
+    discardButton: {
+        paddingVertical: scale(10),
+        paddingHorizontal: scale(18),
+        borderRadius: scale(20),
+        backgroundColor: '#f8f9fa',
+    },
+    discardButtonText: {
+        color: '#7f8c8d',
+        fontSize: normalizeFont(14),
+        fontWeight: '600',
+    },
     progressContainer: {
         position: 'absolute',
         top: scale(87), // Position below the header
@@ -893,6 +1332,42 @@ const styles = StyleSheet.create({
         color: '#7f8c8d',
         fontWeight: '500',
     },
+    speedRoundHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: scale(16),
+    },
+    speedRoundTimer: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: scale(4),
+    },
+    speedRoundTime: {
+        fontSize: normalizeFont(18),
+        fontWeight: 'bold',
+        color: '#2c3e50',
+    },
+    speedRoundTimeLow: {
+        color: '#e74c3c',
+    },
+    comboText: {
+        fontSize: normalizeFont(14),
+        fontWeight: 'bold',
+        color: '#e67e22',
+    },
+    speedRoundResults: {
+        alignItems: 'center',
+        marginBottom: scale(16),
+        gap: scale(4),
+    },
+    speedRoundResultText: {
+        fontSize: normalizeFont(16),
+        color: '#7f8c8d',
+    },
+    newBestText: {
+        color: '#27ae60',
+        fontWeight: 'bold',
+    },
     scrollView: {
         flex: 1,
     },
@@ -968,6 +1443,12 @@ const styles = StyleSheet.create({
         color: '#7f8c8d',
         marginTop: scale(8),
     },
+    retryScoreText: {
+        fontSize: normalizeFont(16),
+        color: '#27ae60',
+        fontWeight: '600',
+        marginTop: scale(4),
+    },
     xpEarned: {
         backgroundColor: '#f39c12',
         paddingHorizontal: scale(24),
@@ -1000,6 +1481,21 @@ const styles = StyleSheet.create({
         color: '#7f8c8d',
         marginTop: scale(4),
     },
+    summaryButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: scale(8),
+        paddingHorizontal: scale(20),
+        paddingVertical: scale(10),
+        borderRadius: scale(12),
+        borderWidth: scale(1),
+        borderColor: '#3498db',
+    },
+    summaryButtonText: {
+        color: '#3498db',
+        fontSize: normalizeFont(16),
+        fontWeight: '600',
+    },
     continueButton: {
         marginTop: scale(15),
         paddingHorizontal: scale(30),
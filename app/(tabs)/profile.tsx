@@ -40,6 +40,7 @@ import { getImageLevel } from '../../utils/progress/getImageLevel';
 import { getImageTrophy } from '../../utils/progress/getImageTrophy';
 import { getImageWord } from '../../utils/progress/getImageWord';
 import { StatBox } from '../../components/Progress/StatBox';
+import StudyPlanCard from '../../components/Progress/StudyPlanCard';
 
 const { width } = Dimensions.get('window');
 
@@ -728,6 +729,9 @@ const router = useRouter();
                         }
                     </Text>
                 </View>
+
+                {/* Study Plan */}
+                {user && <StudyPlanCard userId={user.id} />}
             </View>
 
             {/* Learning Streak Calendar */}
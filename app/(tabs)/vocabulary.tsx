@@ -21,6 +21,8 @@ import { scale, normalizeFont } from '../../utils/normalize';
 import { supabase } from '../../database/config';
 import VocabularyService, { VocabularyService as VocabularyServiceClass, SavedWord, setVocabularyUpdateCallback } from '../../src/services/VocabularyService';
 import { useCache, CacheKeys } from '../../src/services/CacheService';
+import ConfusionService from '../../src/services/ConfusionService';
+import { ConfusedPair, resolveConfusedPairs } from '../../src/services/practice/Confusions';
 
 // Type definitions removed - no longer needed with simplified queries
 import SpeechService from '../../src/services/SpeechService';
@@ -83,6 +85,9 @@ const languages: Record<string, string> = {
 type LanguageName = keyof typeof languages;
 type ViewMode = 'cards' | 'flashcard';
 
+// Most confused pairs listed above the word cards
+const COMMONLY_CONFUSED_LIMIT = 5;
+
 export default function VocabularyScreen() {
     const [vocabulary, setVocabulary] = useState<SavedWord[]>([]);
     const [filteredVocabulary, setFilteredVocabulary] = useState<SavedWord[]>([]);
@@ -100,6 +105,11 @@ export default function VocabularyScreen() {
     const [showSearchSuggestions, setShowSearchSuggestions] = useState(false);
     const [languageSearchQuery, setLanguageSearchQuery] = useState('');
     const [isAuthenticated, setIsAuthenticated] = useState<boolean | null>(null);
+    // Hand-picking words for a custom practice session
+    const [selectionMode, setSelectionMode] = useState(false);
+    const [selectedWordIds, setSelectedWordIds] = useState<Set<string>>(new Set());
+    // Word pairs the user keeps mixing up in practice
+    const [confusedPairs, setConfusedPairs] = useState<ConfusedPair[]>([]);
     const router = useRouter();
 
     // Use the cache service for request deduplication and performance
@@ -194,6 +204,10 @@ export default function VocabularyScreen() {
         applyFiltersAndSort();
     }, [vocabulary, sortBy, searchQuery]);
 
+    useEffect(() => {
+        loadConfusedPairs();
+    }, [vocabulary]);
+
     // Only reload vocabulary when language filter changes (not on initial auth)
     useEffect(() => {
         if (isAuthenticated && filterLanguage !== 'All') {
@@ -332,6 +346,21 @@ export default function VocabularyScreen() {
         }
     };
 
+    const loadConfusedPairs = async () => {
+        try {
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user || vocabulary.length === 0) {
+                setConfusedPairs([]);
+                return;
+            }
+
+            const confusions = await ConfusionService.getConfusions(user.id);
+            setConfusedPairs(resolveConfusedPairs(confusions, vocabulary).slice(0, COMMONLY_CONFUSED_LIMIT));
+        } catch (error) {
+            console.error('Error loading confused words:', error);
+        }
+    };
+
     const applyFiltersAndSort = () => {
         let filtered = [...vocabulary];
 
@@ -522,8 +551,66 @@ export default function VocabularyScreen() {
         }
     };
 
+    const toggleWordSelection = (id: string) => {
+        setSelectedWordIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) {
+                next.delete(id);
+            } else {
+                next.add(id);
+            }
+            return next;
+        });
+    };
+
+    const exitSelectionMode = () => {
+        setSelectionMode(false);
+        setSelectedWordIds(new Set());
+    };
+
+    const practiceSelectedWords = () => {
+        const wordIds = Array.from(selectedWordIds).join(',');
+        exitSelectionMode();
+        router.push({ pathname: '/(tabs)/practice', params: { wordIds } });
+    };
+
+    const renderConfusedPairs = () => {
+        if (confusedPairs.length === 0 || selectionMode || searchQuery) return null;
+
+        return (
+            <View style={styles.confusedSection}>
+                <View style={styles.confusedHeader}>
+                    <MaterialCommunityIcons name="swap-horizontal" size={scale(20)} color="#e67e22" />
+                    <Text style={styles.confusedTitle}>Commonly confused</Text>
+                </View>
+                {confusedPairs.map(pair => (
+                    <View key={`${pair.word.id}|${pair.confusedWith.id}`} style={styles.confusedRow}>
+                        <View style={styles.confusedWords}>
+                            <Text style={styles.confusedTranslations}>
+                                {pair.word.translation} ↔ {pair.confusedWith.translation}
+                            </Text>
+                            <Text style={styles.confusedOriginals}>
+                                {pair.word.original} / {pair.confusedWith.original} · mixed up {pair.count}×
+                            </Text>
+                        </View>
+                        <TouchableOpacity
+                            style={styles.confusedPracticeButton}
+                            onPress={() => router.push({
+                                pathname: '/(tabs)/practice',
+                                params: { wordIds: `${pair.word.id},${pair.confusedWith.id}` }
+                            })}
+                        >
+                            <Ionicons name="school" size={scale(16)} color="white" />
+                        </TouchableOpacity>
+                    </View>
+                ))}
+            </View>
+        );
+    };
+
     const renderVocabularyItem = (word: SavedWord, index: number) => {
-        const isExpanded = expandedItems.has(word.id);
+        const isExpanded = !selectionMode && expandedItems.has(word.id);
+        const isSelected = selectedWordIds.has(word.id);
         const proficiencyInfo = getProficiencyInfo(word.proficiency);
         const categoryColor = getCategoryColor(word.category || 'general');
         // Create a more unique key by combining word ID and language code
@@ -534,9 +621,13 @@ export default function VocabularyScreen() {
                 key={uniqueKey}
                 style={[
                     styles.wordCard,
-                    isExpanded && styles.wordCardExpanded
+                    (isExpanded || isSelected) && styles.wordCardExpanded
                 ]}
-                onPress={() => toggleExpanded(word.id)}
+                onPress={() => selectionMode ? toggleWordSelection(word.id) : toggleExpanded(word.id)}
+                onLongPress={() => {
+                    setSelectionMode(true);
+                    toggleWordSelection(word.id);
+                }}
                 activeOpacity={0.8}
             >
                 {/* Main Card Content */}
@@ -605,17 +696,25 @@ export default function VocabularyScreen() {
                         </View>
 
                         <View style={styles.expandIndicator}>
-                            <Ionicons 
-                                name={isExpanded ? "chevron-up" : "chevron-down"} 
-                                size={scale(20)} 
-                                color="#7f8c8d" 
-                            />
+                            {selectionMode ? (
+                                <Ionicons
+                                    name={isSelected ? "checkbox" : "square-outline"}
+                                    size={scale(22)}
+                                    color="#3498db"
+                                />
+                            ) : (
+                                <Ionicons 
+                                    name={isExpanded ? "chevron-up" : "chevron-down"} 
+                                    size={scale(20)} 
+                                    color="#7f8c8d" 
+                                />
+                            )}
                         </View>
                     </View>
                 </View>
 
                 {/* Tap to expand hint */}
-                {!isExpanded && (
+                {!isExpanded && !selectionMode && (
                     <View style={styles.tapHint}>
                         <Text style={styles.tapHintText}><AntDesign name="upcircle" size={scale(15)} color="white" /> Tap to see example & more</Text>
                     </View>
@@ -929,6 +1028,18 @@ export default function VocabularyScreen() {
                     <Ionicons name="chevron-down" size={scale(16)} color="#3498db" />
                 </TouchableOpacity>
                 
+                {viewMode === 'cards' && filteredVocabulary.length > 0 && (
+                    <TouchableOpacity
+                        style={[styles.filterChip, selectionMode && styles.filterChipActive]}
+                        onPress={() => selectionMode ? exitSelectionMode() : setSelectionMode(true)}
+                    >
+                        <Ionicons name="checkbox-outline" size={scale(18)} color={selectionMode ? "white" : "#3498db"} />
+                        <Text style={[styles.filterChipText, selectionMode && styles.filterChipTextActive]}>
+                            Select
+                        </Text>
+                    </TouchableOpacity>
+                )}
+                
                 {(searchQuery || filterLanguage !== 'All') && (
                     <TouchableOpacity
                         style={styles.clearFiltersChip}
@@ -972,6 +1083,7 @@ export default function VocabularyScreen() {
                         />
                     }
                 >
+                    {renderConfusedPairs()}
                     {filteredVocabulary.length > 0 ? (
                         filteredVocabulary.map((word, index) => renderVocabularyItem(word, index))
                     ) : (
@@ -988,6 +1100,23 @@ export default function VocabularyScreen() {
                 </ScrollView>
             )}
 
+            {/* Practice the hand-picked words */}
+            {selectionMode && viewMode === 'cards' && (
+                <View style={styles.selectionBar}>
+                    <Text style={styles.selectionBarText}>
+                        {selectedWordIds.size} selected
+                    </Text>
+                    <TouchableOpacity
+                        style={[styles.selectionPracticeButton, selectedWordIds.size === 0 && styles.selectionPracticeButtonDisabled]}
+                        onPress={practiceSelectedWords}
+                        disabled={selectedWordIds.size === 0}
+                    >
+                        <Ionicons name="school" size={scale(18)} color="white" />
+                        <Text style={styles.practiceButtonText}>Practice</Text>
+                    </TouchableOpacity>
+                </View>
+            )}
+
             {/* Language Filter Modal */}
             <Modal
                 visible={showLanguageFilter}
@@ -1312,6 +1441,83 @@ const styles = StyleSheet.create({
         padding: scale(20),
         paddingTop: scale(10),
     },
+    selectionBar: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        backgroundColor: 'white',
+        paddingHorizontal: scale(20),
+        paddingVertical: scale(12),
+        borderTopWidth: 1,
+        borderTopColor: '#ecf0f1',
+    },
+    selectionBarText: {
+        fontSize: normalizeFont(16),
+        fontWeight: '600',
+        color: '#2c3e50',
+    },
+    selectionPracticeButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: '#3498db',
+        paddingHorizontal: scale(20),
+        paddingVertical: scale(10),
+        borderRadius: scale(25),
+        gap: scale(8),
+    },
+    selectionPracticeButtonDisabled: {
+        backgroundColor: '#bdc3c7',
+    },
+    confusedSection: {
+        backgroundColor: 'white',
+        borderRadius: scale(16),
+        padding: scale(16),
+        marginBottom: scale(16),
+        borderLeftWidth: scale(4),
+        borderLeftColor: '#e67e22',
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: scale(8),
+        elevation: scale(4),
+    },
+    confusedHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: scale(8),
+        marginBottom: scale(8),
+    },
+    confusedTitle: {
+        fontSize: normalizeFont(16),
+        fontWeight: 'bold',
+        color: '#2c3e50',
+    },
+    confusedRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: scale(8),
+        borderTopWidth: 1,
+        borderTopColor: '#ecf0f1',
+    },
+    confusedWords: {
+        flex: 1,
+    },
+    confusedTranslations: {
+        fontSize: normalizeFont(16),
+        fontWeight: '600',
+        color: '#2c3e50',
+    },
+    confusedOriginals: {
+        fontSize: normalizeFont(13),
+        color: '#7f8c8d',
+        marginTop: scale(2),
+    },
+    confusedPracticeButton: {
+        backgroundColor: '#3498db',
+        borderRadius: scale(16),
+        padding: scale(8),
+        marginLeft: scale(8),
+    },
     wordCard: {
         backgroundColor: 'white',
         borderRadius: scale(16),
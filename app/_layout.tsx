@@ -183,6 +183,10 @@ export default function RootLayout() {
         <Stack>
             <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
             <Stack.Screen name="achievements" options={{ headerShown: false }} />
+            <Stack.Screen name="practice-stats" options={{ headerShown: false }} />
+            <Stack.Screen name="practice-history" options={{ headerShown: false }} />
+            <Stack.Screen name="practice-summary" options={{ headerShown: false }} />
+            <Stack.Screen name="placement" options={{ headerShown: false }} />
         </Stack>
     );
 }
\ No newline at end of file
@@ -0,0 +1,481 @@
+import { useState } from 'react';
+import { useRouter } from 'expo-router';
+import {
+    View,
+    Text,
+    StyleSheet,
+    ScrollView,
+    TouchableOpacity,
+    ActivityIndicator,
+    SafeAreaView,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { scale, normalizeFont } from '../utils/normalize';
+import { supabase } from '../database/config';
+import PlacementService from '../src/services/PlacementService';
+import { PLACEMENT_BANDS, PLACEMENT_LANGUAGES } from '../src/services/practice/PlacementWords';
+import {
+    PLACEMENT_QUESTION_COUNT,
+    PlacementAnswer,
+    PlacementQuestion,
+    PlacementSeed,
+    createPlacementQuestion,
+    estimatePlacementLevel,
+    getPlacementSeeds,
+    isPlacementFinished,
+} from '../src/services/practice/Placement';
+
+const languageNames: Record<string, string> = {
+    es: 'Spanish',
+    fr: 'French',
+    de: 'German',
+    it: 'Italian',
+    pt: 'Portuguese',
+};
+
+// By the number of frequency bands the user knows
+const levelLabels = [
+    'Beginner',
+    'Elementary',
+    'Intermediate',
+    'Upper Intermediate',
+    'Advanced',
+    'Fluent',
+];
+
+type PlacementStage = 'languages' | 'test' | 'result' | 'saving';
+
+interface LanguageResult {
+    language: string;
+    level: number;
+    seeds: PlacementSeed[];
+}
+
+export default function PlacementScreen() {
+    const router = useRouter();
+    const [stage, setStage] = useState<PlacementStage>('languages');
+    const [languages, setLanguages] = useState<string[]>([]);
+    const [languageIndex, setLanguageIndex] = useState(0);
+    const [answers, setAnswers] = useState<PlacementAnswer[]>([]);
+    const [question, setQuestion] = useState<PlacementQuestion | null>(null);
+    const [results, setResults] = useState<LanguageResult[]>([]);
+
+    const language = languages[languageIndex];
+    const currentResult = results[results.length - 1];
+
+    const toggleLanguage = (code: string) => {
+        setLanguages((current) =>
+            current.includes(code) ? current.filter((other) => other !== code) : [...current, code],
+        );
+    };
+
+    const startTest = (index: number) => {
+        setLanguageIndex(index);
+        setAnswers([]);
+        setQuestion(createPlacementQuestion(languages[index], []));
+        setStage('test');
+    };
+
+    const finishTest = (finalAnswers: PlacementAnswer[]) => {
+        const level = estimatePlacementLevel(finalAnswers);
+        setResults((current) => [
+            ...current,
+            { language, level, seeds: getPlacementSeeds(language, finalAnswers, level) },
+        ]);
+        setStage('result');
+    };
+
+    const handleAnswer = (answer: string | null) => {
+        if (!question) return;
+
+        const nextAnswers = [
+            ...answers,
+            {
+                original: question.word.original,
+                band: question.band,
+                isCorrect: answer === question.correctAnswer,
+            },
+        ];
+        setAnswers(nextAnswers);
+
+        const nextQuestion = isPlacementFinished(nextAnswers)
+            ? null
+            : createPlacementQuestion(language, nextAnswers);
+        if (nextQuestion) {
+            setQuestion(nextQuestion);
+        } else {
+            finishTest(nextAnswers);
+        }
+    };
+
+    const close = async (seedResults: LanguageResult[]) => {
+        setStage('saving');
+        try {
+            const {
+                data: { user },
+            } = await supabase.auth.getUser();
+            if (user) {
+                for (const result of seedResults) {
+                    await PlacementService.seedKnownWords(user.id, result.language, result.seeds);
+                }
+                await PlacementService.markPlacementDone(user.id);
+            }
+        } catch (error) {
+            console.error('Error finishing placement:', error);
+        } finally {
+            router.back();
+        }
+    };
+
+    const handleContinue = () => {
+        if (languageIndex + 1 < languages.length) {
+            startTest(languageIndex + 1);
+        } else {
+            close(results);
+        }
+    };
+
+    const renderHeader = () => (
+        <View style={styles.header}>
+            <View style={styles.placeholder} />
+            <Text style={styles.headerTitle}>Placement Test</Text>
+            {stage === 'saving' ? (
+                <View style={styles.placeholder} />
+            ) : (
+                <TouchableOpacity onPress={() => close([])} style={styles.skipButton}>
+                    <Text style={styles.skipText}>Skip</Text>
+                </TouchableOpacity>
+            )}
+        </View>
+    );
+
+    if (stage === 'saving') {
+        return (
+            <SafeAreaView style={styles.container}>
+                {renderHeader()}
+                <View style={styles.centered}>
+                    <ActivityIndicator size="large" color="#3498db" />
+                    <Text style={styles.loadingText}>Adding the words you know...</Text>
+                </View>
+            </SafeAreaView>
+        );
+    }
+
+    if (stage === 'test' && question) {
+        return (
+            <SafeAreaView style={styles.container}>
+                {renderHeader()}
+                <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+                    <Text style={styles.progressText}>
+                        {languageNames[language]} · Question {answers.length + 1} of up to{' '}
+                        {PLACEMENT_QUESTION_COUNT}
+                    </Text>
+                    <View style={styles.questionCard}>
+                        <Text style={styles.questionPrompt}>
+                            What is this in {languageNames[language]}?
+                        </Text>
+                        <Text style={styles.questionWord}>{question.word.original}</Text>
+                    </View>
+                    <View style={styles.optionList}>
+                        {question.options.map((option) => (
+                            <TouchableOpacity
+                                key={option}
+                                style={styles.optionButton}
+                                onPress={() => handleAnswer(option)}
+                                activeOpacity={0.8}
+                            >
+                                <Text style={styles.optionText}>{option}</Text>
+                            </TouchableOpacity>
+                        ))}
+                        <TouchableOpacity
+                            style={[styles.optionButton, styles.unknownButton]}
+                            onPress={() => handleAnswer(null)}
+                            activeOpacity={0.8}
+                        >
+                            <Text style={styles.unknownText}>I don't know</Text>
+                        </TouchableOpacity>
+                    </View>
+                </ScrollView>
+            </SafeAreaView>
+        );
+    }
+
+    if (stage === 'result' && currentResult) {
+        const isLast = languageIndex + 1 >= languages.length;
+        return (
+            <SafeAreaView style={styles.container}>
+                {renderHeader()}
+                <View style={styles.centered}>
+                    <Ionicons name="ribbon-outline" size={scale(64)} color="#f39c12" />
+                    <Text style={styles.resultLanguage}>
+                        {languageNames[currentResult.language]}
+                    </Text>
+                    <Text style={styles.resultLevel}>{levelLabels[currentResult.level]}</Text>
+                    <Text style={styles.resultText}>
+                        {currentResult.seeds.length > 0
+                            ? `${currentResult.seeds.length} words you already know will be added to your vocabulary and scheduled for occasional review.`
+                            : 'You will start from the most common words.'}
+                    </Text>
+                    <TouchableOpacity
+                        style={styles.primaryButton}
+                        onPress={handleContinue}
+                        activeOpacity={0.8}
+                    >
+                        <Text style={styles.primaryButtonText}>
+                            {isLast
+                                ? 'Finish'
+                                : `Continue with ${languageNames[languages[languageIndex + 1]]}`}
+                        </Text>
+                    </TouchableOpacity>
+                </View>
+            </SafeAreaView>
+        );
+    }
+
+    return (
+        <SafeAreaView style={styles.container}>
+            {renderHeader()}
+            <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+                <Text style={styles.introTitle}>Already speak a language?</Text>
+                <Text style={styles.introText}>
+                    Take a short test for each language you know some of. Words you clearly know are
+                    added to your vocabulary, so you don't start with the basics. Each test has up
+                    to
+                    {` ${PLACEMENT_QUESTION_COUNT}`} questions across {PLACEMENT_BANDS.length}{' '}
+                    levels.
+                </Text>
+                <View style={styles.languageList}>
+                    {PLACEMENT_LANGUAGES.map((code) => {
+                        const isSelected = languages.includes(code);
+                        return (
+                            <TouchableOpacity
+                                key={code}
+                                style={[
+                                    styles.languageChip,
+                                    isSelected && styles.languageChipSelected,
+                                ]}
+                                onPress={() => toggleLanguage(code)}
+                                activeOpacity={0.8}
+                            >
+                                <Text
+                                    style={[
+                                        styles.languageChipText,
+                                        isSelected && styles.languageChipTextSelected,
+                                    ]}
+                                >
+                                    {languageNames[code]}
+                                </Text>
+                                {isSelected && (
+                                    <Ionicons name="checkmark" size={scale(18)} color="#ffffff" />
+                                )}
+                            </TouchableOpacity>
+                        );
+                    })}
+                </View>
+                <TouchableOpacity
+                    style={[
+                        styles.primaryButton,
+                        languages.length === 0 && styles.primaryButtonDisabled,
+                    ]}
+                    onPress={() => startTest(0)}
+                    disabled={languages.length === 0}
+                    activeOpacity={0.8}
+                >
+                    <Text style={styles.primaryButtonText}>Start Test</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.secondaryButton} onPress={() => close([])}>
+                    <Text style={styles.secondaryButtonText}>I'm new to these languages</Text>
+                </TouchableOpacity>
+            </ScrollView>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#f8f9fa',
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: 20,
+        paddingVertical: 10,
+        backgroundColor: '#ffffff',
+        borderBottomWidth: 1,
+        borderBottomColor: '#ecf0f1',
+    },
+    headerTitle: {
+        fontSize: 20,
+        fontWeight: 'bold',
+        color: '#2c3e50',
+        paddingTop: 35,
+    },
+    placeholder: {
+        width: scale(40),
+    },
+    skipButton: {
+        paddingTop: 35, // Adjusted for header height
+    },
+    skipText: {
+        fontSize: normalizeFont(16),
+        fontWeight: '600',
+        color: '#3498db',
+    },
+    centered: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: scale(30),
+    },
+    loadingText: {
+        marginTop: scale(16),
+        fontSize: normalizeFont(16),
+        color: '#7f8c8d',
+    },
+    content: {
+        flex: 1,
+        paddingHorizontal: scale(20),
+    },
+    introTitle: {
+        fontSize: normalizeFont(22),
+        fontWeight: 'bold',
+        color: '#2c3e50',
+        marginTop: scale(24),
+    },
+    introText: {
+        fontSize: normalizeFont(15),
+        color: '#7f8c8d',
+        lineHeight: normalizeFont(22),
+        marginTop: scale(8),
+    },
+    languageList: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: scale(10),
+        marginVertical: scale(24),
+    },
+    languageChip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: scale(6),
+        paddingHorizontal: scale(16),
+        paddingVertical: scale(10),
+        borderRadius: scale(20),
+        backgroundColor: '#ffffff',
+        borderWidth: scale(1),
+        borderColor: '#dfe6e9',
+    },
+    languageChipSelected: {
+        backgroundColor: '#3498db',
+        borderColor: '#3498db',
+    },
+    languageChipText: {
+        fontSize: normalizeFont(15),
+        fontWeight: '600',
+        color: '#2c3e50',
+    },
+    languageChipTextSelected: {
+        color: '#ffffff',
+    },
+    primaryButton: {
+        backgroundColor: '#3498db',
+        borderRadius: scale(12),
+        paddingVertical: scale(14),
+        paddingHorizontal: scale(24),
+        alignItems: 'center',
+        alignSelf: 'stretch',
+        marginTop: scale(16),
+    },
+    primaryButtonDisabled: {
+        backgroundColor: '#bdc3c7',
+    },
+    primaryButtonText: {
+        fontSize: normalizeFont(16),
+        fontWeight: 'bold',
+        color: '#ffffff',
+    },
+    secondaryButton: {
+        alignItems: 'center',
+        paddingVertical: scale(14),
+    },
+    secondaryButtonText: {
+        fontSize: normalizeFont(15),
+        color: '#7f8c8d',
+    },
+    progressText: {
+        fontSize: normalizeFont(13),
+        fontWeight: '600',
+        color: '#7f8c8d',
+        textAlign: 'center',
+        marginTop: scale(20),
+    },
+    questionCard: {
+        backgroundColor: 'white',
+        borderRadius: scale(16),
+        padding: scale(24),
+        marginTop: scale(12),
+        alignItems: 'center',
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: scale(2) },
+        shadowOpacity: 0.1,
+        shadowRadius: scale(8),
+        elevation: 4,
+    },
+    questionPrompt: {
+        fontSize: normalizeFont(15),
+        color: '#7f8c8d',
+    },
+    questionWord: {
+        fontSize: normalizeFont(28),
+        fontWeight: 'bold',
+        color: '#2c3e50',
+        marginTop: scale(8),
+    },
+    optionList: {
+        gap: scale(10),
+        marginVertical: scale(20),
+    },
+    optionButton: {
+        backgroundColor: '#ffffff',
+        borderRadius: scale(12),
+        padding: scale(16),
+        borderWidth: scale(1),
+        borderColor: '#ecf0f1',
+        alignItems: 'center',
+    },
+    optionText: {
+        fontSize: normalizeFont(17),
+        fontWeight: '600',
+        color: '#2c3e50',
+    },
+    unknownButton: {
+        backgroundColor: 'transparent',
+        borderStyle: 'dashed',
+        borderColor: '#bdc3c7',
+    },
+    unknownText: {
+        fontSize: normalizeFont(15),
+        color: '#7f8c8d',
+    },
+    resultLanguage: {
+        fontSize: normalizeFont(16),
+        fontWeight: '600',
+        color: '#7f8c8d',
+        marginTop: scale(16),
+    },
+    resultLevel: {
+        fontSize: normalizeFont(26),
+        fontWeight: 'bold',
+        color: '#2c3e50',
+        marginTop: scale(4),
+    },
+    resultText: {
+        fontSize: normalizeFont(15),
+        color: '#7f8c8d',
+        textAlign: 'center',
+        lineHeight: normalizeFont(22),
+        marginTop: scale(12),
+    },
+});
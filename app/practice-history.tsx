@@ -0,0 +1,250 @@
+import { useState, useEffect } from 'react';
+import { useRouter } from 'expo-router';
+import {
+    View,
+    Text,
+    StyleSheet,
+    ScrollView,
+    TouchableOpacity,
+    ActivityIndicator,
+    SafeAreaView,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { scale, normalizeFont } from '../utils/normalize';
+import { supabase } from '../database/config';
+import PracticeService, {
+    PracticeMode,
+    SessionHistoryEntry,
+} from '../src/services/PracticeService';
+
+const modeLabels: Record<PracticeMode, string> = {
+    standard: 'Practice',
+    mistakes: 'Mistakes Review',
+    speed: 'Speed Round',
+    learn: 'Learn New Words',
+    hands_free: 'Hands-Free',
+};
+
+function getAccuracyColor(accuracy: number): string {
+    if (accuracy >= 80) return '#27ae60';
+    if (accuracy >= 60) return '#f39c12';
+    return '#e74c3c';
+}
+
+export default function PracticeHistoryScreen() {
+    const router = useRouter();
+    const [sessions, setSessions] = useState<SessionHistoryEntry[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    const loadHistory = async () => {
+        try {
+            const {
+                data: { user },
+            } = await supabase.auth.getUser();
+            if (!user) {
+                setLoading(false);
+                return;
+            }
+
+            setSessions(await PracticeService.getSessionHistory(user.id));
+        } catch (error) {
+            console.error('Error loading session history:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadHistory();
+    }, []);
+
+    const renderHeader = () => (
+        <View style={styles.header}>
+            <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+                <Ionicons name="arrow-back" size={scale(24)} color="#2c3e50" />
+            </TouchableOpacity>
+            <Text style={styles.headerTitle}>Session History</Text>
+            <View style={styles.placeholder} />
+        </View>
+    );
+
+    if (loading) {
+        return (
+            <SafeAreaView style={styles.container}>
+                {renderHeader()}
+                <View style={styles.loadingContainer}>
+                    <ActivityIndicator size="large" color="#3498db" />
+                    <Text style={styles.loadingText}>Loading sessions...</Text>
+                </View>
+            </SafeAreaView>
+        );
+    }
+
+    return (
+        <SafeAreaView style={styles.container}>
+            {renderHeader()}
+
+            {sessions.length > 0 ? (
+                <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+                    <View style={styles.sessionList}>
+                        {sessions.map((session) => {
+                            const accuracy =
+                                session.totalQuestions > 0
+                                    ? (session.score / session.totalQuestions) * 100
+                                    : 0;
+                            return (
+                                <TouchableOpacity
+                                    key={session.id}
+                                    style={styles.sessionCard}
+                                    onPress={() =>
+                                        router.push(`/practice-summary?sessionId=${session.id}`)
+                                    }
+                                    activeOpacity={0.8}
+                                >
+                                    <View style={styles.sessionInfo}>
+                                        <Text style={styles.sessionMode}>
+                                            {session.mode ? modeLabels[session.mode] : 'Practice'}
+                                        </Text>
+                                        <Text style={styles.sessionDate}>
+                                            {new Date(session.startedAt).toLocaleString()}
+                                            {session.seed !== null && ` · Seed ${session.seed}`}
+                                        </Text>
+                                    </View>
+                                    <View style={styles.sessionScore}>
+                                        <Text
+                                            style={[
+                                                styles.sessionAccuracy,
+                                                { color: getAccuracyColor(accuracy) },
+                                            ]}
+                                        >
+                                            {session.score}/{session.totalQuestions}
+                                        </Text>
+                                        {session.xpBreakdown && (
+                                            <Text style={styles.sessionXP}>
+                                                +{session.xpBreakdown.total} XP
+                                            </Text>
+                                        )}
+                                    </View>
+                                    <Ionicons
+                                        name="chevron-forward"
+                                        size={scale(20)}
+                                        color="#bdc3c7"
+                                    />
+                                </TouchableOpacity>
+                            );
+                        })}
+                    </View>
+                </ScrollView>
+            ) : (
+                <View style={styles.emptyState}>
+                    <Ionicons name="time-outline" size={scale(64)} color="#bdc3c7" />
+                    <Text style={styles.emptyTitle}>No Sessions Yet</Text>
+                    <Text style={styles.emptySubtitle}>
+                        Finished practice sessions are listed here with a summary of every answer.
+                    </Text>
+                </View>
+            )}
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#f8f9fa',
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: 20,
+        paddingVertical: 10,
+        backgroundColor: '#ffffff',
+        borderBottomWidth: 1,
+        borderBottomColor: '#ecf0f1',
+    },
+    backButton: {
+        paddingTop: 35, // Adjusted for header height
+    },
+    headerTitle: {
+        fontSize: 20,
+        fontWeight: 'bold',
+        color: '#2c3e50',
+        paddingTop: 35,
+    },
+    placeholder: {
+        width: scale(40),
+    },
+    loadingContainer: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    loadingText: {
+        marginTop: scale(16),
+        fontSize: normalizeFont(16),
+        color: '#7f8c8d',
+    },
+    content: {
+        flex: 1,
+        paddingHorizontal: scale(20),
+    },
+    sessionList: {
+        gap: scale(10),
+        marginVertical: scale(20),
+    },
+    sessionCard: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: '#ffffff',
+        borderRadius: scale(12),
+        padding: scale(14),
+        borderWidth: scale(1),
+        borderColor: '#ecf0f1',
+        gap: scale(12),
+    },
+    sessionInfo: {
+        flex: 1,
+    },
+    sessionMode: {
+        fontSize: normalizeFont(16),
+        fontWeight: 'bold',
+        color: '#2c3e50',
+    },
+    sessionDate: {
+        fontSize: normalizeFont(13),
+        color: '#7f8c8d',
+        marginTop: scale(2),
+    },
+    sessionScore: {
+        alignItems: 'flex-end',
+    },
+    sessionAccuracy: {
+        fontSize: normalizeFont(18),
+        fontWeight: 'bold',
+    },
+    sessionXP: {
+        fontSize: normalizeFont(12),
+        fontWeight: '600',
+        color: '#f39c12',
+        marginTop: scale(2),
+    },
+    emptyState: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: scale(40),
+    },
+    emptyTitle: {
+        fontSize: normalizeFont(20),
+        fontWeight: 'bold',
+        color: '#2c3e50',
+        marginTop: scale(16),
+    },
+    emptySubtitle: {
+        fontSize: normalizeFont(14),
+        color: '#7f8c8d',
+        textAlign: 'center',
+        marginTop: scale(8),
+    },
+});
@@ -0,0 +1,474 @@
+import { useState, useEffect } from 'react';
+import { useRouter } from 'expo-router';
+import {
+    View,
+    Text,
+    StyleSheet,
+    ScrollView,
+    TouchableOpacity,
+    ActivityIndicator,
+    SafeAreaView,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { scale, normalizeFont } from '../utils/normalize';
+import { supabase } from '../database/config';
+import PracticeService, { PracticeStats } from '../src/services/PracticeService';
+import {
+    AccuracyStat,
+    STATS_HISTORY_DAYS,
+    findWeakestArea,
+    getAccuracy,
+} from '../src/services/practice/AnswerStats';
+import { QUESTION_TYPE_LABELS, QuestionType } from '../src/services/practice/QuestionPlan';
+
+type Breakdown = 'language' | 'questionType' | 'category';
+
+const breakdownTabs: { key: Breakdown; label: string }[] = [
+    { key: 'language', label: 'Language' },
+    { key: 'questionType', label: 'Question Type' },
+    { key: 'category', label: 'Category' },
+];
+
+function getAccuracyColor(accuracy: number): string {
+    if (accuracy >= 80) return '#27ae60';
+    if (accuracy >= 60) return '#f39c12';
+    return '#e74c3c';
+}
+
+export default function PracticeStatsScreen() {
+    const router = useRouter();
+    const [stats, setStats] = useState<PracticeStats | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [breakdown, setBreakdown] = useState<Breakdown>('questionType');
+
+    const loadStats = async () => {
+        try {
+            const {
+                data: { user },
+            } = await supabase.auth.getUser();
+            if (!user) {
+                setLoading(false);
+                return;
+            }
+
+            setStats(await PracticeService.getUserStats(user.id));
+        } catch (error) {
+            console.error('Error loading practice stats:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadStats();
+    }, []);
+
+    const getLabel = (key: string): string => {
+        if (breakdown === 'language') return PracticeService.getLanguageName(key);
+        if (breakdown === 'questionType') return QUESTION_TYPE_LABELS[key as QuestionType] || key;
+        return key.charAt(0).toUpperCase() + key.slice(1);
+    };
+
+    const getBreakdownStats = (): Record<string, AccuracyStat> => {
+        if (!stats) return {};
+        if (breakdown === 'language') return stats.languageStats;
+        if (breakdown === 'questionType') return stats.questionTypeStats;
+        return stats.categoryStats;
+    };
+
+    const renderHeader = () => (
+        <View style={styles.header}>
+            <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+                <Ionicons name="arrow-back" size={scale(24)} color="#2c3e50" />
+            </TouchableOpacity>
+            <Text style={styles.headerTitle}>Practice Stats</Text>
+            <View style={styles.placeholder} />
+        </View>
+    );
+
+    if (loading) {
+        return (
+            <SafeAreaView style={styles.container}>
+                {renderHeader()}
+                <View style={styles.loadingContainer}>
+                    <ActivityIndicator size="large" color="#3498db" />
+                    <Text style={styles.loadingText}>Loading stats...</Text>
+                </View>
+            </SafeAreaView>
+        );
+    }
+
+    const breakdownStats = getBreakdownStats();
+    const rows = Object.entries(breakdownStats).sort(([, a], [, b]) => b.practiced - a.practiced);
+    const weakest = findWeakestArea(breakdownStats);
+
+    return (
+        <SafeAreaView style={styles.container}>
+            {renderHeader()}
+
+            <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+                {/* Overall Summary */}
+                <View style={styles.summaryCard}>
+                    <View style={styles.summaryItem}>
+                        <Text style={styles.summaryValue}>{stats?.totalSessions || 0}</Text>
+                        <Text style={styles.summaryLabel}>Sessions</Text>
+                    </View>
+                    <View style={styles.summaryItem}>
+                        <Text style={styles.summaryValue}>{stats?.totalQuestions || 0}</Text>
+                        <Text style={styles.summaryLabel}>Questions</Text>
+                    </View>
+                    <View style={styles.summaryItem}>
+                        <Text
+                            style={[
+                                styles.summaryValue,
+                                { color: getAccuracyColor(stats?.accuracy || 0) },
+                            ]}
+                        >
+                            {Math.round(stats?.accuracy || 0)}%
+                        </Text>
+                        <Text style={styles.summaryLabel}>Accuracy</Text>
+                    </View>
+                </View>
+
+                {/* Trends */}
+                <Text style={styles.sectionTitle}>Trends</Text>
+                <View style={styles.trendsRow}>
+                    {stats?.trends.map((trend) => {
+                        const accuracy = getAccuracy(trend.current);
+                        const change =
+                            trend.previous.practiced > 0 && trend.current.practiced > 0
+                                ? Math.round(accuracy - getAccuracy(trend.previous))
+                                : null;
+                        return (
+                            <View key={trend.days} style={styles.trendCard}>
+                                <Text style={styles.trendDays}>Last {trend.days} days</Text>
+                                <Text
+                                    style={[
+                                        styles.trendAccuracy,
+                                        trend.current.practiced > 0 && {
+                                            color: getAccuracyColor(accuracy),
+                                        },
+                                    ]}
+                                >
+                                    {trend.current.practiced > 0 ? `${Math.round(accuracy)}%` : '-'}
+                                </Text>
+                                <Text style={styles.trendAnswers}>
+                                    {trend.current.practiced} answers
+                                </Text>
+                                {change !== null && (
+                                    <View style={styles.trendChange}>
+                                        <Ionicons
+                                            name={change >= 0 ? 'arrow-up' : 'arrow-down'}
+                                            size={scale(12)}
+                                            color={change >= 0 ? '#27ae60' : '#e74c3c'}
+                                        />
+                                        <Text
+                                            style={[
+                                                styles.trendChangeText,
+                                                { color: change >= 0 ? '#27ae60' : '#e74c3c' },
+                                            ]}
+                                        >
+                                            {Math.abs(change)}%
+                                        </Text>
+                                    </View>
+                                )}
+                            </View>
+                        );
+                    })}
+                </View>
+
+                {/* Breakdown */}
+                <Text style={styles.sectionTitle}>Accuracy by</Text>
+                <Text style={styles.sectionNote}>
+                    Answers from the last {STATS_HISTORY_DAYS} days
+                </Text>
+                <View style={styles.filterContainer}>
+                    {breakdownTabs.map((tab) => (
+                        <TouchableOpacity
+                            key={tab.key}
+                            style={[
+                                styles.filterButton,
+                                breakdown === tab.key && styles.filterButtonActive,
+                            ]}
+                            onPress={() => setBreakdown(tab.key)}
+                        >
+                            <Text
+                                style={[
+                                    styles.filterText,
+                                    breakdown === tab.key && styles.filterTextActive,
+                                ]}
+                            >
+                                {tab.label}
+                            </Text>
+                        </TouchableOpacity>
+                    ))}
+                </View>
+
+                {weakest && (
+                    <View style={styles.weakAreaCard}>
+                        <Ionicons name="fitness" size={scale(22)} color="#e67e22" />
+                        <Text style={styles.weakAreaText}>
+                            Weakest area:{' '}
+                            <Text style={styles.weakAreaName}>{getLabel(weakest)}</Text> (
+                            {Math.round(getAccuracy(breakdownStats[weakest]))}% correct)
+                        </Text>
+                    </View>
+                )}
+
+                {rows.length > 0 ? (
+                    <View style={styles.breakdownCard}>
+                        {rows.map(([key, stat]) => {
+                            const accuracy = getAccuracy(stat);
+                            return (
+                                <View key={key} style={styles.breakdownRow}>
+                                    <View style={styles.breakdownLabelRow}>
+                                        <Text style={styles.breakdownLabel}>{getLabel(key)}</Text>
+                                        <Text style={styles.breakdownValue}>
+                                            {Math.round(accuracy)}% · {stat.correct}/
+                                            {stat.practiced}
+                                        </Text>
+                                    </View>
+                                    <View style={styles.progressBar}>
+                                        <View
+                                            style={[
+                                                styles.progressFill,
+                                                {
+                                                    width: `${accuracy}%`,
+                                                    backgroundColor: getAccuracyColor(accuracy),
+                                                },
+                                            ]}
+                                        />
+                                    </View>
+                                </View>
+                            );
+                        })}
+                    </View>
+                ) : (
+                    <View style={styles.emptyState}>
+                        <Ionicons name="stats-chart" size={scale(64)} color="#bdc3c7" />
+                        <Text style={styles.emptyTitle}>No Answers Yet</Text>
+                        <Text style={styles.emptySubtitle}>
+                            Finish a practice session to see where you're strong and where to focus.
+                        </Text>
+                    </View>
+                )}
+            </ScrollView>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#f8f9fa',
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: 20,
+        paddingVertical: 10,
+        backgroundColor: '#ffffff',
+        borderBottomWidth: 1,
+        borderBottomColor: '#ecf0f1',
+    },
+    backButton: {
+        paddingTop: 35, // Adjusted for header height
+    },
+    headerTitle: {
+        fontSize: 20,
+        fontWeight: 'bold',
+        color: '#2c3e50',
+        paddingTop: 35,
+    },
+    placeholder: {
+        width: scale(40),
+    },
+    loadingContainer: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    loadingText: {
+        marginTop: scale(16),
+        fontSize: normalizeFont(16),
+        color: '#7f8c8d',
+    },
+    content: {
+        flex: 1,
+        paddingHorizontal: scale(20),
+    },
+    summaryCard: {
+        backgroundColor: '#ffffff',
+        borderRadius: scale(16),
+        padding: scale(20),
+        marginTop: scale(20),
+        flexDirection: 'row',
+        justifyContent: 'space-around',
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: scale(2) },
+        shadowOpacity: 0.1,
+        shadowRadius: scale(8),
+        elevation: 3,
+    },
+    summaryItem: {
+        alignItems: 'center',
+    },
+    summaryValue: {
+        fontSize: normalizeFont(24),
+        fontWeight: 'bold',
+        color: '#2c3e50',
+    },
+    summaryLabel: {
+        fontSize: normalizeFont(13),
+        color: '#7f8c8d',
+        marginTop: scale(4),
+    },
+    sectionTitle: {
+        fontSize: normalizeFont(18),
+        fontWeight: 'bold',
+        color: '#2c3e50',
+        marginTop: scale(24),
+        marginBottom: scale(12),
+    },
+    sectionNote: {
+        fontSize: normalizeFont(12),
+        color: '#95a5a6',
+        marginTop: scale(-8),
+        marginBottom: scale(12),
+    },
+    trendsRow: {
+        flexDirection: 'row',
+        gap: scale(10),
+    },
+    trendCard: {
+        flex: 1,
+        backgroundColor: '#ffffff',
+        borderRadius: scale(12),
+        padding: scale(12),
+        alignItems: 'center',
+        borderWidth: scale(1),
+        borderColor: '#ecf0f1',
+    },
+    trendDays: {
+        fontSize: normalizeFont(12),
+        color: '#7f8c8d',
+    },
+    trendAccuracy: {
+        fontSize: normalizeFont(22),
+        fontWeight: 'bold',
+        color: '#bdc3c7',
+        marginVertical: scale(4),
+    },
+    trendAnswers: {
+        fontSize: normalizeFont(11),
+        color: '#95a5a6',
+    },
+    trendChange: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        marginTop: scale(4),
+        gap: scale(2),
+    },
+    trendChangeText: {
+        fontSize: normalizeFont(12),
+        fontWeight: '600',
+    },
+    filterContainer: {
+        flexDirection: 'row',
+        marginBottom: scale(16),
+    },
+    filterButton: {
+        flex: 1,
+        paddingVertical: scale(12),
+        paddingHorizontal: scale(8),
+        marginHorizontal: scale(4),
+        backgroundColor: '#ffffff',
+        borderRadius: scale(12),
+        borderWidth: scale(1),
+        borderColor: '#ecf0f1',
+    },
+    filterButtonActive: {
+        backgroundColor: '#3498db',
+        borderColor: '#3498db',
+    },
+    filterText: {
+        textAlign: 'center',
+        fontSize: normalizeFont(13),
+        fontWeight: '600',
+        color: '#7f8c8d',
+    },
+    filterTextActive: {
+        color: '#ffffff',
+    },
+    weakAreaCard: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: '#fdf2e9',
+        borderRadius: scale(12),
+        padding: scale(14),
+        marginBottom: scale(16),
+        gap: scale(10),
+    },
+    weakAreaText: {
+        flex: 1,
+        fontSize: normalizeFont(14),
+        color: '#2c3e50',
+    },
+    weakAreaName: {
+        fontWeight: 'bold',
+        color: '#e67e22',
+    },
+    breakdownCard: {
+        backgroundColor: '#ffffff',
+        borderRadius: scale(16),
+        padding: scale(16),
+        marginBottom: scale(30),
+        gap: scale(14),
+    },
+    breakdownRow: {
+        gap: scale(6),
+    },
+    breakdownLabelRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+    },
+    breakdownLabel: {
+        fontSize: normalizeFont(15),
+        fontWeight: '600',
+        color: '#2c3e50',
+    },
+    breakdownValue: {
+        fontSize: normalizeFont(13),
+        color: '#7f8c8d',
+    },
+    progressBar: {
+        height: scale(8),
+        backgroundColor: '#ecf0f1',
+        borderRadius: scale(4),
+        overflow: 'hidden',
+    },
+    progressFill: {
+        height: '100%',
+        borderRadius: scale(4),
+    },
+    emptyState: {
+        justifyContent: 'center',
+        alignItems: 'center',
+        paddingVertical: scale(60),
+    },
+    emptyTitle: {
+        fontSize: normalizeFont(20),
+        fontWeight: 'bold',
+        color: '#7f8c8d',
+        marginTop: scale(16),
+        marginBottom: scale(8),
+    },
+    emptySubtitle: {
+        fontSize: normalizeFont(16),
+        color: '#95a5a6',
+        textAlign: 'center',
+        lineHeight: normalizeFont(24),
+        paddingHorizontal: scale(40),
+    },
+});
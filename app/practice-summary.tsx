@@ -0,0 +1,481 @@
+import { useState, useEffect } from 'react';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import {
+    View,
+    Text,
+    StyleSheet,
+    ScrollView,
+    TouchableOpacity,
+    ActivityIndicator,
+    SafeAreaView,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { scale, normalizeFont } from '../utils/normalize';
+import { supabase } from '../database/config';
+import PracticeService, { SessionSummary } from '../src/services/PracticeService';
+import SpeechService from '../src/services/SpeechService';
+import { QUESTION_TYPE_LABELS, QuestionType } from '../src/services/practice/QuestionPlan';
+import {
+    SessionSummaryRow,
+    XPSource,
+    XP_SOURCE_LABELS,
+} from '../src/services/practice/SessionSummary';
+
+const xpSources = Object.keys(XP_SOURCE_LABELS) as XPSource[];
+
+export default function PracticeSummaryScreen() {
+    const router = useRouter();
+    const { sessionId } = useLocalSearchParams<{ sessionId?: string }>();
+    const [userId, setUserId] = useState<string | null>(null);
+    const [summary, setSummary] = useState<SessionSummary | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [addedToReview, setAddedToReview] = useState<Set<string>>(new Set());
+
+    const loadSummary = async () => {
+        try {
+            const {
+                data: { user },
+            } = await supabase.auth.getUser();
+            if (!user || !sessionId) {
+                setLoading(false);
+                return;
+            }
+
+            setUserId(user.id);
+            setSummary(await PracticeService.getSessionSummary(user.id, sessionId));
+        } catch (error) {
+            console.error('Error loading session summary:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadSummary();
+        return () => {
+            SpeechService.stop();
+        };
+    }, [sessionId]);
+
+    const handleAddToReview = async (row: SessionSummaryRow) => {
+        if (!userId || !row.word) return;
+
+        if (await PracticeService.addToReview(userId, row.word)) {
+            setAddedToReview((prev) => new Set(prev).add(row.word!.id));
+        }
+    };
+
+    const renderHeader = () => (
+        <View style={styles.header}>
+            <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+                <Ionicons name="arrow-back" size={scale(24)} color="#2c3e50" />
+            </TouchableOpacity>
+            <Text style={styles.headerTitle}>Session Summary</Text>
+            <View style={styles.placeholder} />
+        </View>
+    );
+
+    const renderProficiencyChange = (row: SessionSummaryRow) => {
+        if (!row.proficiencyChange) return null;
+
+        const before = Math.round(row.proficiencyChange.before);
+        const after = Math.round(row.proficiencyChange.after);
+        const color = after > before ? '#27ae60' : after < before ? '#e74c3c' : '#7f8c8d';
+        return (
+            <View style={styles.proficiencyRow}>
+                <Text style={styles.proficiencyLabel}>Proficiency {before}%</Text>
+                <Ionicons name="arrow-forward" size={scale(12)} color={color} />
+                <Text style={[styles.proficiencyValue, { color }]}>{after}%</Text>
+            </View>
+        );
+    };
+
+    const renderRow = (row: SessionSummaryRow) => {
+        const isAdded = !!row.word && addedToReview.has(row.word.id);
+        return (
+            <View key={row.key} style={styles.questionCard}>
+                <View style={styles.questionHeader}>
+                    <Ionicons
+                        name={row.isCorrect ? 'checkmark-circle' : 'close-circle'}
+                        size={scale(22)}
+                        color={row.isCorrect ? '#27ae60' : '#e74c3c'}
+                    />
+                    <View style={styles.questionTitle}>
+                        <Text style={styles.wordText}>{row.original}</Text>
+                        <Text style={styles.questionType}>
+                            {QUESTION_TYPE_LABELS[row.questionType as QuestionType] ||
+                                row.questionType}
+                            {' · '}
+                            {PracticeService.getLanguageName(row.language)}
+                            {row.isRetry ? ' · Retry' : ''}
+                        </Text>
+                    </View>
+                </View>
+
+                <Text style={styles.answerLabel}>
+                    Your answer:{' '}
+                    <Text style={[styles.answerText, !row.isCorrect && styles.wrongAnswerText]}>
+                        {row.userAnswer ?? 'Skipped'}
+                    </Text>
+                </Text>
+                {!row.isCorrect && (
+                    <Text style={styles.answerLabel}>
+                        Correct answer: <Text style={styles.answerText}>{row.correctAnswer}</Text>
+                    </Text>
+                )}
+                {renderProficiencyChange(row)}
+
+                {row.word && (
+                    <View style={styles.actions}>
+                        <TouchableOpacity
+                            style={styles.actionButton}
+                            onPress={() =>
+                                SpeechService.speak(row.word!.translation, row.word!.language)
+                            }
+                        >
+                            <Ionicons name="volume-high" size={scale(16)} color="#3498db" />
+                            <Text style={styles.actionText}>Replay</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                            style={[styles.actionButton, isAdded && styles.actionButtonDone]}
+                            onPress={() => handleAddToReview(row)}
+                            disabled={isAdded}
+                        >
+                            <Ionicons
+                                name={isAdded ? 'checkmark' : 'add-circle-outline'}
+                                size={scale(16)}
+                                color={isAdded ? '#27ae60' : '#3498db'}
+                            />
+                            <Text style={[styles.actionText, isAdded && styles.actionTextDone]}>
+                                {isAdded ? 'Due for review' : 'Add to review'}
+                            </Text>
+                        </TouchableOpacity>
+                    </View>
+                )}
+            </View>
+        );
+    };
+
+    if (loading) {
+        return (
+            <SafeAreaView style={styles.container}>
+                {renderHeader()}
+                <View style={styles.loadingContainer}>
+                    <ActivityIndicator size="large" color="#3498db" />
+                    <Text style={styles.loadingText}>Loading summary...</Text>
+                </View>
+            </SafeAreaView>
+        );
+    }
+
+    if (!summary) {
+        return (
+            <SafeAreaView style={styles.container}>
+                {renderHeader()}
+                <View style={styles.emptyState}>
+                    <Ionicons name="document-text-outline" size={scale(64)} color="#bdc3c7" />
+                    <Text style={styles.emptyTitle}>Summary Not Found</Text>
+                    <Text style={styles.emptySubtitle}>This session could not be loaded.</Text>
+                </View>
+            </SafeAreaView>
+        );
+    }
+
+    const { session, rows } = summary;
+    const accuracy =
+        session.totalQuestions > 0 ? (session.score / session.totalQuestions) * 100 : 0;
+    const xpBreakdown = session.xpBreakdown;
+
+    return (
+        <SafeAreaView style={styles.container}>
+            {renderHeader()}
+
+            <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+                <Text style={styles.dateText}>
+                    {new Date(session.startedAt).toLocaleString()}
+                    {session.seed !== null && ` · Seed ${session.seed}`}
+                </Text>
+
+                <View style={styles.summaryCard}>
+                    <View style={styles.summaryItem}>
+                        <Text style={styles.summaryValue}>
+                            {session.score}/{session.totalQuestions}
+                        </Text>
+                        <Text style={styles.summaryLabel}>Correct</Text>
+                    </View>
+                    <View style={styles.summaryItem}>
+                        <Text style={styles.summaryValue}>{Math.round(accuracy)}%</Text>
+                        <Text style={styles.summaryLabel}>Accuracy</Text>
+                    </View>
+                    <View style={styles.summaryItem}>
+                        <Text style={[styles.summaryValue, styles.xpValue]}>
+                            {xpBreakdown ? `+${xpBreakdown.total}` : '-'}
+                        </Text>
+                        <Text style={styles.summaryLabel}>XP</Text>
+                    </View>
+                </View>
+
+                <Text style={styles.sectionTitle}>XP Earned</Text>
+                <View style={styles.xpCard}>
+                    {xpBreakdown ? (
+                        <>
+                            {xpSources
+                                .filter((source) => xpBreakdown[source] !== 0)
+                                .map((source) => (
+                                    <View key={source} style={styles.xpRow}>
+                                        <Text style={styles.xpLabel}>
+                                            {XP_SOURCE_LABELS[source]}
+                                        </Text>
+                                        <Text
+                                            style={[
+                                                styles.xpAmount,
+                                                xpBreakdown[source] < 0 && styles.xpCost,
+                                            ]}
+                                        >
+                                            {xpBreakdown[source] > 0 ? '+' : ''}
+                                            {xpBreakdown[source]}
+                                        </Text>
+                                    </View>
+                                ))}
+                            <View style={[styles.xpRow, styles.xpTotalRow]}>
+                                <Text style={styles.xpTotalLabel}>Total</Text>
+                                <Text style={styles.xpTotalAmount}>+{xpBreakdown.total}</Text>
+                            </View>
+                        </>
+                    ) : (
+                        <Text style={styles.xpLabel}>Not recorded for this session</Text>
+                    )}
+                </View>
+
+                <Text style={styles.sectionTitle}>Questions</Text>
+                {rows.length > 0 ? (
+                    <View style={styles.questionList}>{rows.map(renderRow)}</View>
+                ) : (
+                    <Text style={styles.emptySubtitle}>
+                        No answers were logged for this session.
+                    </Text>
+                )}
+            </ScrollView>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#f8f9fa',
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: 20,
+        paddingVertical: 10,
+        backgroundColor: '#ffffff',
+        borderBottomWidth: 1,
+        borderBottomColor: '#ecf0f1',
+    },
+    backButton: {
+        paddingTop: 35, // Adjusted for header height
+    },
+    headerTitle: {
+        fontSize: 20,
+        fontWeight: 'bold',
+        color: '#2c3e50',
+        paddingTop: 35,
+    },
+    placeholder: {
+        width: scale(40),
+    },
+    loadingContainer: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    loadingText: {
+        marginTop: scale(16),
+        fontSize: normalizeFont(16),
+        color: '#7f8c8d',
+    },
+    content: {
+        flex: 1,
+        paddingHorizontal: scale(20),
+    },
+    dateText: {
+        fontSize: normalizeFont(13),
+        color: '#7f8c8d',
+        marginTop: scale(16),
+    },
+    summaryCard: {
+        backgroundColor: '#ffffff',
+        borderRadius: scale(16),
+        padding: scale(20),
+        marginTop: scale(8),
+        flexDirection: 'row',
+        justifyContent: 'space-around',
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: scale(2) },
+        shadowOpacity: 0.1,
+        shadowRadius: scale(8),
+        elevation: 3,
+    },
+    summaryItem: {
+        alignItems: 'center',
+    },
+    summaryValue: {
+        fontSize: normalizeFont(24),
+        fontWeight: 'bold',
+        color: '#2c3e50',
+    },
+    xpValue: {
+        color: '#f39c12',
+    },
+    summaryLabel: {
+        fontSize: normalizeFont(13),
+        color: '#7f8c8d',
+        marginTop: scale(4),
+    },
+    sectionTitle: {
+        fontSize: normalizeFont(18),
+        fontWeight: 'bold',
+        color: '#2c3e50',
+        marginTop: scale(24),
+        marginBottom: scale(12),
+    },
+    xpCard: {
+        backgroundColor: '#ffffff',
+        borderRadius: scale(16),
+        padding: scale(16),
+        gap: scale(10),
+    },
+    xpRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+    },
+    xpLabel: {
+        fontSize: normalizeFont(14),
+        color: '#7f8c8d',
+    },
+    xpAmount: {
+        fontSize: normalizeFont(14),
+        fontWeight: '600',
+        color: '#27ae60',
+    },
+    xpCost: {
+        color: '#e74c3c',
+    },
+    xpTotalRow: {
+        borderTopWidth: 1,
+        borderTopColor: '#ecf0f1',
+        paddingTop: scale(10),
+    },
+    xpTotalLabel: {
+        fontSize: normalizeFont(15),
+        fontWeight: 'bold',
+        color: '#2c3e50',
+    },
+    xpTotalAmount: {
+        fontSize: normalizeFont(15),
+        fontWeight: 'bold',
+        color: '#f39c12',
+    },
+    questionList: {
+        gap: scale(12),
+        marginBottom: scale(30),
+    },
+    questionCard: {
+        backgroundColor: '#ffffff',
+        borderRadius: scale(12),
+        padding: scale(14),
+        borderWidth: scale(1),
+        borderColor: '#ecf0f1',
+        gap: scale(6),
+    },
+    questionHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: scale(10),
+        marginBottom: scale(4),
+    },
+    questionTitle: {
+        flex: 1,
+    },
+    wordText: {
+        fontSize: normalizeFont(16),
+        fontWeight: 'bold',
+        color: '#2c3e50',
+    },
+    questionType: {
+        fontSize: normalizeFont(12),
+        color: '#95a5a6',
+        marginTop: scale(2),
+    },
+    answerLabel: {
+        fontSize: normalizeFont(14),
+        color: '#7f8c8d',
+    },
+    answerText: {
+        fontWeight: '600',
+        color: '#2c3e50',
+    },
+    wrongAnswerText: {
+        color: '#e74c3c',
+    },
+    proficiencyRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: scale(4),
+    },
+    proficiencyLabel: {
+        fontSize: normalizeFont(13),
+        color: '#7f8c8d',
+    },
+    proficiencyValue: {
+        fontSize: normalizeFont(13),
+        fontWeight: '600',
+    },
+    actions: {
+        flexDirection: 'row',
+        gap: scale(10),
+        marginTop: scale(6),
+    },
+    actionButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: scale(6),
+        paddingVertical: scale(6),
+        paddingHorizontal: scale(12),
+        borderRadius: scale(16),
+        borderWidth: scale(1),
+        borderColor: '#3498db',
+    },
+    actionButtonDone: {
+        borderColor: '#27ae60',
+    },
+    actionText: {
+        fontSize: normalizeFont(13),
+        fontWeight: '600',
+        color: '#3498db',
+    },
+    actionTextDone: {
+        color: '#27ae60',
+    },
+    emptyState: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: scale(40),
+    },
+    emptyTitle: {
+        fontSize: normalizeFont(20),
+        fontWeight: 'bold',
+        color: '#2c3e50',
+        marginTop: scale(16),
+    },
+    emptySubtitle: {
+        fontSize: normalizeFont(14),
+        color: '#7f8c8d',
+        textAlign: 'center',
+        marginTop: scale(8),
+    },
+});
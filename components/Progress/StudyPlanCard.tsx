@@ -0,0 +1,621 @@
+import React, { useCallback, useState } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    TouchableOpacity,
+    Modal,
+    TextInput,
+    ScrollView,
+    ActivityIndicator,
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { scale, normalizeFont } from '../../utils/normalize';
+import StudyPlanService from '../../src/services/StudyPlanService';
+import VocabularyService from '../../src/services/VocabularyService';
+import PracticeService from '../../src/services/PracticeService';
+import { DAILY_NEW_WORD_LIMIT } from '../../src/services/practice/SpacedRepetition';
+import {
+    StudyGoal,
+    StudyPlanProgress,
+    PACE_WINDOW_DAYS,
+    getDayKey,
+} from '../../src/services/practice/StudyPlan';
+
+interface StudyPlanCardProps {
+    userId: string;
+}
+
+const targetWordOptions = [100, 250, 500, 1000];
+const deadlineOptions = [
+    { label: '1 month', months: 1 },
+    { label: '3 months', months: 3 },
+    { label: '6 months', months: 6 },
+    { label: '1 year', months: 12 },
+];
+
+function formatDay(day: string): string {
+    const [year, month, date] = day.split('-').map(Number);
+    return new Date(year, month - 1, date).toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+    });
+}
+
+function getDeadline(months: number): string {
+    const date = new Date();
+    date.setMonth(date.getMonth() + months);
+    return getDayKey(date);
+}
+
+function getGoalTitle(goal: StudyGoal): string {
+    if (goal.type === 'daily_review') {
+        return goal.language
+            ? `Review every due ${PracticeService.getLanguageName(goal.language)} word daily`
+            : 'Review everything due daily';
+    }
+    return `${goal.targetWords} ${PracticeService.getLanguageName(goal.language)} words by ${formatDay(goal.targetDate)}`;
+}
+
+/**
+ * The user's study goal with today's new-word and review quotas, and an editor to change it
+ */
+export default function StudyPlanCard({ userId }: StudyPlanCardProps) {
+    const [progress, setProgress] = useState<StudyPlanProgress | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [showEditor, setShowEditor] = useState(false);
+    const [languages, setLanguages] = useState<string[]>([]);
+    const [goalType, setGoalType] = useState<StudyGoal['type']>('word_target');
+    const [language, setLanguage] = useState<string | undefined>(undefined);
+    const [targetWords, setTargetWords] = useState('500');
+    const [deadlineMonths, setDeadlineMonths] = useState(3);
+    const [saving, setSaving] = useState(false);
+
+    const loadProgress = async () => {
+        try {
+            setProgress(await StudyPlanService.getProgress(userId));
+        } catch (error) {
+            console.error('Error loading study plan:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useFocusEffect(
+        useCallback(() => {
+            loadProgress();
+        }, [userId]),
+    );
+
+    const openEditor = async () => {
+        const counts = await VocabularyService.getUserVocabularyCounts(userId);
+        const available = Object.keys(counts).sort((a, b) => counts[b] - counts[a]);
+        setLanguages(available);
+
+        const goal = progress?.plan.goal;
+        setGoalType(goal?.type || 'word_target');
+        setLanguage(goal?.language || available[0]);
+        if (goal?.type === 'word_target') setTargetWords(String(goal.targetWords));
+        setShowEditor(true);
+    };
+
+    const target = parseInt(targetWords, 10);
+    const canSave = goalType === 'daily_review' || (!!language && target > 0);
+
+    const saveGoal = async () => {
+        if (!canSave) return;
+
+        const goal: StudyGoal =
+            goalType === 'daily_review'
+                ? { type: 'daily_review', language }
+                : {
+                      type: 'word_target',
+                      language: language!,
+                      targetWords: target,
+                      targetDate: getDeadline(deadlineMonths),
+                  };
+
+        setSaving(true);
+        setProgress(await StudyPlanService.setGoal(userId, goal));
+        setSaving(false);
+        setShowEditor(false);
+    };
+
+    const removeGoal = async () => {
+        await StudyPlanService.clearGoal(userId);
+        setProgress(null);
+        setShowEditor(false);
+    };
+
+    const renderQuota = (label: string, done: number, quota: number, color: string) => (
+        <View style={styles.quotaRow}>
+            <View style={styles.quotaHeader}>
+                <Text style={styles.quotaLabel}>{label}</Text>
+                <Text style={styles.quotaValue}>
+                    {Math.min(done, quota)}/{quota}
+                </Text>
+            </View>
+            <View style={styles.quotaBar}>
+                <View
+                    style={[
+                        styles.quotaFill,
+                        {
+                            width: `${quota > 0 ? Math.min(done / quota, 1) * 100 : 100}%`,
+                            backgroundColor: color,
+                        },
+                    ]}
+                />
+            </View>
+        </View>
+    );
+
+    const renderNotices = (progress: StudyPlanProgress) => {
+        const { plan } = progress;
+        const notices: string[] = [];
+
+        if (progress.isReached) notices.push('Goal reached! Set a new one to keep going.');
+        if (progress.isExpired)
+            notices.push('The target date has passed. Set a new date to plan again.');
+        if (progress.isRecomputedToday) {
+            notices.push(
+                `You fell behind, so the plan now asks ${plan.dailyNewWords} new words a day instead of ${plan.previousDailyNewWords}.`,
+            );
+        }
+        if (progress.exceedsDailyLimit) {
+            notices.push(
+                `That is more than the ${DAILY_NEW_WORD_LIMIT} new words practice introduces a day. A later date would fit.`,
+            );
+        }
+        if (progress.exceedsPace && progress.projectedDate) {
+            notices.push(
+                `At your pace of ${progress.pace.newWordsPerDay.toFixed(1)} new words a day you get there by ${formatDay(progress.projectedDate)}, after the target date. Practice more days or pick a later date.`,
+            );
+        }
+        if (progress.needsMoreWords && !progress.isExpired) {
+            notices.push(
+                `Only ${progress.words.waiting} saved words are waiting to be learned. Capture more to keep up.`,
+            );
+        }
+
+        return notices.map((notice) => (
+            <View key={notice} style={styles.notice}>
+                <Ionicons name="information-circle" size={scale(16)} color="#e67e22" />
+                <Text style={styles.noticeText}>{notice}</Text>
+            </View>
+        ));
+    };
+
+    const renderPace = (progress: StudyPlanProgress) => {
+        const { pace, plan } = progress;
+        const parts = [`Practiced on ${pace.activeDays} of the last ${PACE_WINDOW_DAYS} days`];
+        if (plan.goal.type === 'word_target') {
+            parts.push(`${pace.newWordsPerDay.toFixed(1)} new words a day`);
+            if (progress.projectedDate) {
+                parts.push(
+                    `at this pace you reach ${plan.goal.targetWords} by ${formatDay(progress.projectedDate)}`,
+                );
+            }
+        } else {
+            parts.push(`${pace.reviewsPerDay.toFixed(1)} reviews a day`);
+        }
+        return <Text style={styles.paceText}>{parts.join(' · ')}</Text>;
+    };
+
+    const renderEditor = () => (
+        <Modal
+            visible={showEditor}
+            transparent
+            animationType="slide"
+            onRequestClose={() => setShowEditor(false)}
+        >
+            <View style={styles.modalOverlay}>
+                <View style={styles.modalContent}>
+                    <Text style={styles.modalTitle}>Study Goal</Text>
+                    <ScrollView showsVerticalScrollIndicator={false}>
+                        <View style={styles.chipRow}>
+                            {(
+                                [
+                                    ['word_target', 'Learn words by a date'],
+                                    ['daily_review', 'Review all due daily'],
+                                ] as const
+                            ).map(([type, label]) => (
+                                <TouchableOpacity
+                                    key={type}
+                                    style={[styles.chip, goalType === type && styles.chipActive]}
+                                    onPress={() => setGoalType(type)}
+                                >
+                                    <Text
+                                        style={[
+                                            styles.chipText,
+                                            goalType === type && styles.chipTextActive,
+                                        ]}
+                                    >
+                                        {label}
+                                    </Text>
+                                </TouchableOpacity>
+                            ))}
+                        </View>
+
+                        <Text style={styles.fieldLabel}>Language</Text>
+                        <View style={styles.chipRow}>
+                            {goalType === 'daily_review' && (
+                                <TouchableOpacity
+                                    style={[styles.chip, !language && styles.chipActive]}
+                                    onPress={() => setLanguage(undefined)}
+                                >
+                                    <Text
+                                        style={[
+                                            styles.chipText,
+                                            !language && styles.chipTextActive,
+                                        ]}
+                                    >
+                                        All
+                                    </Text>
+                                </TouchableOpacity>
+                            )}
+                            {languages.map((code) => (
+                                <TouchableOpacity
+                                    key={code}
+                                    style={[styles.chip, language === code && styles.chipActive]}
+                                    onPress={() => setLanguage(code)}
+                                >
+                                    <Text
+                                        style={[
+                                            styles.chipText,
+                                            language === code && styles.chipTextActive,
+                                        ]}
+                                    >
+                                        {PracticeService.getLanguageName(code)}
+                                    </Text>
+                                </TouchableOpacity>
+                            ))}
+                        </View>
+                        {languages.length === 0 && (
+                            <Text style={styles.hintText}>
+                                Save some words first to set a goal for their language.
+                            </Text>
+                        )}
+
+                        {goalType === 'word_target' && (
+                            <>
+                                <Text style={styles.fieldLabel}>Words to know</Text>
+                                <View style={styles.chipRow}>
+                                    {targetWordOptions.map((option) => (
+                                        <TouchableOpacity
+                                            key={option}
+                                            style={[
+                                                styles.chip,
+                                                target === option && styles.chipActive,
+                                            ]}
+                                            onPress={() => setTargetWords(String(option))}
+                                        >
+                                            <Text
+                                                style={[
+                                                    styles.chipText,
+                                                    target === option && styles.chipTextActive,
+                                                ]}
+                                            >
+                                                {option}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                    <TextInput
+                                        style={styles.numberInput}
+                                        value={targetWords}
+                                        onChangeText={(text) =>
+                                            setTargetWords(text.replace(/[^0-9]/g, ''))
+                                        }
+                                        keyboardType="number-pad"
+                                        maxLength={5}
+                                    />
+                                </View>
+
+                                <Text style={styles.fieldLabel}>By</Text>
+                                <View style={styles.chipRow}>
+                                    {deadlineOptions.map((option) => (
+                                        <TouchableOpacity
+                                            key={option.months}
+                                            style={[
+                                                styles.chip,
+                                                deadlineMonths === option.months &&
+                                                    styles.chipActive,
+                                            ]}
+                                            onPress={() => setDeadlineMonths(option.months)}
+                                        >
+                                            <Text
+                                                style={[
+                                                    styles.chipText,
+                                                    deadlineMonths === option.months &&
+                                                        styles.chipTextActive,
+                                                ]}
+                                            >
+                                                {option.label}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                </View>
+                                <Text style={styles.hintText}>
+                                    Target date: {formatDay(getDeadline(deadlineMonths))}
+                                </Text>
+                            </>
+                        )}
+                    </ScrollView>
+
+                    <View style={styles.modalButtons}>
+                        {progress && (
+                            <TouchableOpacity style={styles.removeButton} onPress={removeGoal}>
+                                <Text style={styles.removeButtonText}>Remove</Text>
+                            </TouchableOpacity>
+                        )}
+                        <TouchableOpacity
+                            style={styles.cancelButton}
+                            onPress={() => setShowEditor(false)}
+                        >
+                            <Text style={styles.cancelButtonText}>Cancel</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                            style={[
+                                styles.saveButton,
+                                (!canSave || saving) && styles.saveButtonDisabled,
+                            ]}
+                            onPress={saveGoal}
+                            disabled={!canSave || saving}
+                        >
+                            {saving ? (
+                                <ActivityIndicator size="small" color="white" />
+                            ) : (
+                                <Text style={styles.saveButtonText}>Save</Text>
+                            )}
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </View>
+        </Modal>
+    );
+
+    if (loading) return null;
+
+    return (
+        <View style={styles.container}>
+            <View style={styles.header}>
+                <Text style={styles.title}>Study Plan</Text>
+                <TouchableOpacity onPress={openEditor}>
+                    <Text style={styles.editText}>{progress ? 'Edit' : 'Set a goal'}</Text>
+                </TouchableOpacity>
+            </View>
+
+            {progress ? (
+                <>
+                    <Text style={styles.goalText}>{getGoalTitle(progress.plan.goal)}</Text>
+                    {progress.plan.goal.type === 'word_target' && (
+                        <Text style={styles.goalSubtext}>
+                            {progress.words.learned}/{progress.plan.goal.targetWords} learned
+                            {progress.daysLeft !== null && !progress.isExpired
+                                ? ` · ${progress.daysLeft} days left`
+                                : ''}
+                        </Text>
+                    )}
+                    {progress.newWordQuota > 0 &&
+                        renderQuota(
+                            'New words today',
+                            progress.words.newToday,
+                            progress.newWordQuota,
+                            '#27ae60',
+                        )}
+                    {renderQuota(
+                        'Reviews today',
+                        progress.words.reviewedToday,
+                        progress.reviewQuota,
+                        '#3498db',
+                    )}
+                    {renderNotices(progress)}
+                    {renderPace(progress)}
+                </>
+            ) : (
+                <Text style={styles.goalSubtext}>
+                    Set a goal like "500 Spanish words in 3 months" to get daily new-word and review
+                    quotas.
+                </Text>
+            )}
+
+            {renderEditor()}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        backgroundColor: '#fff',
+        borderRadius: scale(16),
+        padding: scale(16),
+        marginTop: scale(15),
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: scale(2) },
+        shadowOpacity: 0.08,
+        shadowRadius: scale(8),
+        elevation: 3,
+        borderWidth: scale(1),
+        borderColor: '#f0f0f0',
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: scale(8),
+    },
+    title: {
+        fontSize: normalizeFont(16),
+        fontWeight: 'bold',
+        color: '#2c3e50',
+    },
+    editText: {
+        fontSize: normalizeFont(14),
+        fontWeight: '600',
+        color: '#3498db',
+    },
+    goalText: {
+        fontSize: normalizeFont(15),
+        fontWeight: '600',
+        color: '#34495e',
+    },
+    goalSubtext: {
+        fontSize: normalizeFont(13),
+        color: '#7f8c8d',
+        marginTop: scale(4),
+    },
+    quotaRow: {
+        marginTop: scale(12),
+    },
+    quotaHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        marginBottom: scale(6),
+    },
+    quotaLabel: {
+        fontSize: normalizeFont(13),
+        color: '#2c3e50',
+    },
+    quotaValue: {
+        fontSize: normalizeFont(13),
+        fontWeight: '600',
+        color: '#2c3e50',
+    },
+    quotaBar: {
+        height: scale(8),
+        backgroundColor: '#ecf0f1',
+        borderRadius: scale(4),
+        overflow: 'hidden',
+    },
+    quotaFill: {
+        height: '100%',
+        borderRadius: scale(4),
+    },
+    notice: {
+        flexDirection: 'row',
+        alignItems: 'flex-start',
+        gap: scale(6),
+        backgroundColor: '#fdf2e9',
+        borderRadius: scale(8),
+        padding: scale(10),
+        marginTop: scale(10),
+    },
+    noticeText: {
+        flex: 1,
+        fontSize: normalizeFont(12),
+        color: '#2c3e50',
+    },
+    paceText: {
+        fontSize: normalizeFont(12),
+        color: '#95a5a6',
+        marginTop: scale(12),
+    },
+    modalOverlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'flex-end',
+    },
+    modalContent: {
+        backgroundColor: 'white',
+        borderTopLeftRadius: scale(20),
+        borderTopRightRadius: scale(20),
+        padding: scale(20),
+        maxHeight: '80%',
+    },
+    modalTitle: {
+        fontSize: normalizeFont(20),
+        fontWeight: 'bold',
+        color: '#2c3e50',
+        marginBottom: scale(16),
+    },
+    fieldLabel: {
+        fontSize: normalizeFont(14),
+        fontWeight: '600',
+        color: '#2c3e50',
+        marginTop: scale(16),
+        marginBottom: scale(8),
+    },
+    chipRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: scale(8),
+        alignItems: 'center',
+    },
+    chip: {
+        paddingHorizontal: scale(12),
+        paddingVertical: scale(8),
+        borderRadius: scale(16),
+        borderWidth: scale(1),
+        borderColor: '#dfe6e9',
+        backgroundColor: '#f8f9fa',
+    },
+    chipActive: {
+        backgroundColor: '#3498db',
+        borderColor: '#3498db',
+    },
+    chipText: {
+        fontSize: normalizeFont(13),
+        color: '#2c3e50',
+    },
+    chipTextActive: {
+        color: 'white',
+        fontWeight: '600',
+    },
+    numberInput: {
+        minWidth: scale(70),
+        paddingHorizontal: scale(12),
+        paddingVertical: scale(6),
+        borderRadius: scale(16),
+        borderWidth: scale(1),
+        borderColor: '#dfe6e9',
+        fontSize: normalizeFont(13),
+        color: '#2c3e50',
+    },
+    hintText: {
+        fontSize: normalizeFont(12),
+        color: '#7f8c8d',
+        marginTop: scale(8),
+    },
+    modalButtons: {
+        flexDirection: 'row',
+        justifyContent: 'flex-end',
+        gap: scale(10),
+        marginTop: scale(20),
+    },
+    removeButton: {
+        marginRight: 'auto',
+        paddingVertical: scale(10),
+        paddingHorizontal: scale(12),
+    },
+    removeButtonText: {
+        fontSize: normalizeFont(14),
+        fontWeight: '600',
+        color: '#e74c3c',
+    },
+    cancelButton: {
+        paddingVertical: scale(10),
+        paddingHorizontal: scale(16),
+    },
+    cancelButtonText: {
+        fontSize: normalizeFont(14),
+        fontWeight: '600',
+        color: '#7f8c8d',
+    },
+    saveButton: {
+        backgroundColor: '#3498db',
+        borderRadius: scale(10),
+        paddingVertical: scale(10),
+        paddingHorizontal: scale(24),
+        minWidth: scale(80),
+        alignItems: 'center',
+    },
+    saveButtonDisabled: {
+        backgroundColor: '#bdc3c7',
+    },
+    saveButtonText: {
+        fontSize: normalizeFont(14),
+        fontWeight: 'bold',
+        color: 'white',
+    },
+});
@@ -22,7 +22,10 @@ export default function CameraControls({
   modelStatus,
   languageName,
   // User stats props
-  userStats = null
+  userStats = null,
+  // Today's study plan progress (StudyPlanProgress), shown under the top bar
+  studyPlan,
+  onStudyPlanPress
 }) {
   // Determine user level based on total words
   const getUserLevel = (totalWords) => {
@@ -68,6 +71,24 @@ export default function CameraControls({
         )}
       </View>
 
+      {/* Study Plan Progress */}
+      {studyPlan && (
+        <TouchableOpacity style={styles.studyPlanBadge} onPress={onStudyPlanPress} activeOpacity={0.8}>
+          <Ionicons name="calendar" size={16} color="white" />
+          {studyPlan.newWordQuota > 0 && (
+            <Text style={styles.statText}>
+              New {Math.min(studyPlan.words.newToday, studyPlan.newWordQuota)}/{studyPlan.newWordQuota}
+            </Text>
+          )}
+          <Text style={styles.statText}>
+            Reviews {Math.min(studyPlan.words.reviewedToday, studyPlan.reviewQuota)}/{studyPlan.reviewQuota}
+          </Text>
+          {studyPlan.isRecomputedToday && (
+            <Ionicons name="alert-circle" size={16} color="#f39c12" />
+          )}
+        </TouchableOpacity>
+      )}
+
       {/* Bottom Controls */}
       <View style={styles.bottomControls}>
         <View style={styles.buttonContainer}>
@@ -184,6 +205,19 @@ const styles = StyleSheet.create({
     fontSize: 13,
     fontWeight: '600',
   },
+  studyPlanBadge: {
+    position: 'absolute',
+    top: 100,
+    alignSelf: 'center',
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    gap: 10,
+    zIndex: 10,
+  },
   bottomControls: {
     position: 'absolute',
     bottom: 0,
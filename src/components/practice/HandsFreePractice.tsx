@@ -0,0 +1,220 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import PracticeService from '../../services/PracticeService';
+import HandsFreeService, { HandsFreeState } from '../../services/HandsFreeService';
+import { scale, normalizeFont } from '../../../utils/normalize';
+
+interface HandsFreePracticeProps {
+    startPaused?: boolean; // a resumed session waits for the user before speaking
+    onFinished: () => void;
+}
+
+const pauseMessages: Record<NonNullable<HandsFreeState['pauseReason']>, string> = {
+    user: 'Tap resume to carry on where you left off',
+    silence: "Didn't hear an answer twice in a row",
+    microphone: 'The microphone could not be started - check its permission',
+};
+
+/**
+ * Status screen of a hands-free session; the session itself runs by voice in HandsFreeService
+ */
+export default function HandsFreePractice({
+    startPaused = false,
+    onFinished,
+}: HandsFreePracticeProps) {
+    const [state, setState] = useState<HandsFreeState>({
+        phase: startPaused ? 'paused' : 'idle',
+        question: PracticeService.getCurrentQuestion(),
+        pauseReason: startPaused ? 'user' : undefined,
+    });
+
+    useEffect(() => {
+        if (!startPaused) HandsFreeService.start(setState);
+        return () => {
+            HandsFreeService.stop();
+        };
+    }, []);
+
+    useEffect(() => {
+        if (state.phase === 'finished') onFinished();
+    }, [state.phase]);
+
+    const { phase, question } = state;
+    const isPaused = phase === 'paused';
+    const session = PracticeService.getCurrentSession();
+
+    const getStatus = () => {
+        switch (phase) {
+            case 'prompting':
+                return { icon: 'volume-high', color: '#3498db', title: 'Listen...' };
+            case 'listening':
+                return {
+                    icon: 'mic',
+                    color: '#e74c3c',
+                    title: question
+                        ? `Say it in ${PracticeService.getLanguageName(question.word.language)}`
+                        : 'Speak now',
+                };
+            case 'grading':
+                return { icon: 'hourglass-outline', color: '#f39c12', title: 'Checking...' };
+            case 'feedback':
+                return state.lastCorrect
+                    ? { icon: 'checkmark-circle', color: '#27ae60', title: 'Correct!' }
+                    : { icon: 'close-circle', color: '#e74c3c', title: 'Not quite' };
+            case 'paused':
+                return { icon: 'pause', color: '#7f8c8d', title: 'Paused' };
+            default:
+                return { icon: 'headset', color: '#9b59b6', title: 'Hands-Free' };
+        }
+    };
+
+    const status = getStatus();
+
+    return (
+        <View style={styles.card}>
+            {session && phase !== 'finished' && (
+                <View style={styles.counterBadge}>
+                    <Ionicons name="headset" size={scale(14)} color="white" />
+                    <Text style={styles.counterText}>
+                        Question {session.currentQuestion + 1} of {session.totalQuestions}
+                    </Text>
+                </View>
+            )}
+
+            <View style={[styles.statusCircle, { backgroundColor: status.color }]}>
+                <Ionicons name={status.icon as any} size={scale(56)} color="white" />
+            </View>
+            <Text style={styles.statusTitle}>{status.title}</Text>
+
+            {isPaused && state.pauseReason && (
+                <Text style={styles.pauseMessage}>{pauseMessages[state.pauseReason]}</Text>
+            )}
+
+            {question && <Text style={styles.prompt}>{question.displayQuestion}</Text>}
+
+            {phase === 'feedback' && question && (
+                <View style={styles.feedback}>
+                    <Text style={styles.answer}>{question.correctAnswer}</Text>
+                    <Text style={styles.heard}>
+                        {state.heard ? `Heard: "${state.heard}"` : 'Nothing heard'}
+                    </Text>
+                </View>
+            )}
+
+            <TouchableOpacity
+                style={[styles.controlButton, isPaused && styles.resumeButton]}
+                onPress={() =>
+                    isPaused ? HandsFreeService.start(setState) : HandsFreeService.pause()
+                }
+                disabled={phase === 'finished'}
+            >
+                <Ionicons name={isPaused ? 'play' : 'pause'} size={scale(20)} color="white" />
+                <Text style={styles.controlButtonText}>{isPaused ? 'Resume' : 'Pause'}</Text>
+            </TouchableOpacity>
+
+            <Text style={styles.tip}>
+                Questions are read aloud and answered by voice - no need to touch the screen
+            </Text>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    card: {
+        backgroundColor: 'white',
+        borderRadius: scale(20),
+        padding: scale(24),
+        alignItems: 'center',
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: scale(4) },
+        shadowOpacity: 0.1,
+        shadowRadius: scale(8),
+        elevation: 4,
+    },
+    counterBadge: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: scale(6),
+        backgroundColor: '#9b59b6',
+        borderRadius: scale(12),
+        paddingHorizontal: scale(12),
+        paddingVertical: scale(4),
+    },
+    counterText: {
+        color: 'white',
+        fontSize: normalizeFont(12),
+        fontWeight: '600',
+    },
+    statusCircle: {
+        width: scale(120),
+        height: scale(120),
+        borderRadius: scale(60),
+        justifyContent: 'center',
+        alignItems: 'center',
+        marginVertical: scale(16),
+    },
+    statusTitle: {
+        fontSize: normalizeFont(26),
+        fontWeight: 'bold',
+        color: '#2c3e50',
+        textAlign: 'center',
+    },
+    pauseMessage: {
+        fontSize: normalizeFont(14),
+        color: '#7f8c8d',
+        textAlign: 'center',
+        marginTop: scale(8),
+    },
+    prompt: {
+        fontSize: normalizeFont(18),
+        color: '#34495e',
+        textAlign: 'center',
+        marginTop: scale(20),
+        lineHeight: normalizeFont(24),
+    },
+    feedback: {
+        alignSelf: 'stretch',
+        alignItems: 'center',
+        backgroundColor: '#f8f9fa',
+        borderRadius: scale(12),
+        padding: scale(16),
+        marginTop: scale(20),
+    },
+    answer: {
+        fontSize: normalizeFont(24),
+        fontWeight: 'bold',
+        color: '#2c3e50',
+    },
+    heard: {
+        fontSize: normalizeFont(14),
+        color: '#7f8c8d',
+        fontStyle: 'italic',
+        marginTop: scale(6),
+    },
+    controlButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: scale(8),
+        alignSelf: 'stretch',
+        backgroundColor: '#7f8c8d',
+        borderRadius: scale(25),
+        paddingVertical: scale(14),
+        marginTop: scale(28),
+    },
+    resumeButton: {
+        backgroundColor: '#27ae60',
+    },
+    controlButtonText: {
+        color: 'white',
+        fontSize: normalizeFont(16),
+        fontWeight: 'bold',
+    },
+    tip: {
+        fontSize: normalizeFont(13),
+        color: '#95a5a6',
+        textAlign: 'center',
+        marginTop: scale(16),
+    },
+});
@@ -0,0 +1,241 @@
+import React, { useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Image } from 'react-native';
+import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
+import { SavedWord } from '../../services/VocabularyService';
+import { parseExample } from '../../services/practice/SentenceBuilding';
+import { scale, normalizeFont } from '../../../utils/normalize';
+
+interface LearnWordCardProps {
+    word: SavedWord;
+    index: number;
+    total: number;
+    audioPlaying: boolean;
+    onPlayAudio: (text: string, language: string, slow?: boolean) => void;
+    onNext: () => void;
+}
+
+// Words typed in by hand have no photo, so the card pictures the word's category
+const categoryIcons: Record<string, string> = {
+    food: 'food-apple',
+    animals: 'paw',
+    objects: 'cube-outline',
+    clothing: 'tshirt-crew',
+    nature: 'tree',
+    transportation: 'car',
+};
+
+/**
+ * Introduces a new word before it is quizzed: meaning, audio and an example sentence
+ */
+export default function LearnWordCard({
+    word,
+    index,
+    total,
+    audioPlaying,
+    onPlayAudio,
+    onNext,
+}: LearnWordCardProps) {
+    const example = parseExample(word.example, word.exampleEnglish);
+    const isLast = index === total - 1;
+
+    // Say the word as soon as its card appears
+    useEffect(() => {
+        const timer = setTimeout(() => onPlayAudio(word.translation, word.language), 500);
+        return () => clearTimeout(timer);
+    }, [word.id]);
+
+    return (
+        <View style={styles.card}>
+            <View style={styles.newBadge}>
+                <Ionicons name="sparkles" size={scale(14)} color="white" />
+                <Text style={styles.newBadgeText}>
+                    New word {index + 1} of {total}
+                </Text>
+            </View>
+
+            <View style={styles.picture}>
+                {word.imageUrl ? (
+                    <Image
+                        source={{ uri: word.imageUrl }}
+                        style={styles.photo}
+                        resizeMode="cover"
+                    />
+                ) : (
+                    <MaterialCommunityIcons
+                        name={(categoryIcons[word.category || ''] || 'book-open-variant') as any}
+                        size={scale(56)}
+                        color="#3498db"
+                    />
+                )}
+            </View>
+
+            <Text style={styles.translation}>{word.translation}</Text>
+            <Text style={styles.original}>{word.original}</Text>
+
+            <View style={styles.audioRow}>
+                <TouchableOpacity
+                    style={styles.audioButton}
+                    onPress={() => onPlayAudio(word.translation, word.language)}
+                    disabled={audioPlaying}
+                >
+                    <Ionicons name="volume-high" size={scale(22)} color="white" />
+                    <Text style={styles.audioButtonText}>Listen</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                    style={[styles.audioButton, styles.slowAudioButton]}
+                    onPress={() => onPlayAudio(word.translation, word.language, true)}
+                    disabled={audioPlaying}
+                >
+                    <MaterialCommunityIcons name="tortoise" size={scale(22)} color="#3498db" />
+                    <Text style={[styles.audioButtonText, styles.slowAudioButtonText]}>Slowly</Text>
+                </TouchableOpacity>
+            </View>
+
+            {example && (
+                <TouchableOpacity
+                    style={styles.exampleContainer}
+                    onPress={() => onPlayAudio(example.sentence, word.language)}
+                    activeOpacity={0.7}
+                >
+                    <View style={styles.exampleHeader}>
+                        <Text style={styles.exampleLabel}>Example</Text>
+                        <Ionicons name="volume-medium" size={scale(18)} color="#2980b9" />
+                    </View>
+                    <Text style={styles.exampleSentence}>{example.sentence}</Text>
+                    <Text style={styles.exampleEnglish}>({example.english})</Text>
+                </TouchableOpacity>
+            )}
+
+            <TouchableOpacity style={styles.nextButton} onPress={onNext}>
+                <Text style={styles.nextButtonText}>{isLast ? 'Start Quiz' : 'Next Word'}</Text>
+                <Ionicons name="arrow-forward" size={scale(18)} color="white" />
+            </TouchableOpacity>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    card: {
+        backgroundColor: 'white',
+        borderRadius: scale(20),
+        padding: scale(24),
+        alignItems: 'center',
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: scale(4) },
+        shadowOpacity: 0.1,
+        shadowRadius: scale(8),
+        elevation: 4,
+    },
+    newBadge: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: scale(6),
+        backgroundColor: '#9b59b6',
+        borderRadius: scale(12),
+        paddingHorizontal: scale(12),
+        paddingVertical: scale(4),
+    },
+    newBadgeText: {
+        color: 'white',
+        fontSize: normalizeFont(12),
+        fontWeight: '600',
+    },
+    picture: {
+        width: scale(110),
+        height: scale(110),
+        borderRadius: scale(55),
+        backgroundColor: '#ebf5fb',
+        justifyContent: 'center',
+        alignItems: 'center',
+        marginVertical: scale(20),
+        overflow: 'hidden',
+    },
+    photo: {
+        width: '100%',
+        height: '100%',
+    },
+    translation: {
+        fontSize: normalizeFont(32),
+        fontWeight: 'bold',
+        color: '#2c3e50',
+        textAlign: 'center',
+    },
+    original: {
+        fontSize: normalizeFont(18),
+        color: '#7f8c8d',
+        marginTop: scale(6),
+        textAlign: 'center',
+    },
+    audioRow: {
+        flexDirection: 'row',
+        gap: scale(12),
+        marginTop: scale(20),
+    },
+    audioButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: scale(8),
+        backgroundColor: '#3498db',
+        borderRadius: scale(20),
+        paddingHorizontal: scale(18),
+        paddingVertical: scale(10),
+    },
+    slowAudioButton: {
+        backgroundColor: 'white',
+        borderWidth: scale(2),
+        borderColor: '#3498db',
+    },
+    audioButtonText: {
+        color: 'white',
+        fontSize: normalizeFont(15),
+        fontWeight: '600',
+    },
+    slowAudioButtonText: {
+        color: '#3498db',
+    },
+    exampleContainer: {
+        alignSelf: 'stretch',
+        backgroundColor: '#ebf5fb',
+        borderRadius: scale(12),
+        padding: scale(16),
+        marginTop: scale(24),
+    },
+    exampleHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: scale(8),
+    },
+    exampleLabel: {
+        fontSize: normalizeFont(13),
+        fontWeight: '600',
+        color: '#2980b9',
+    },
+    exampleSentence: {
+        fontSize: normalizeFont(16),
+        color: '#2c3e50',
+        lineHeight: normalizeFont(22),
+    },
+    exampleEnglish: {
+        fontSize: normalizeFont(14),
+        color: '#7f8c8d',
+        fontStyle: 'italic',
+        marginTop: scale(4),
+    },
+    nextButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: scale(8),
+        alignSelf: 'stretch',
+        backgroundColor: '#27ae60',
+        borderRadius: scale(25),
+        paddingVertical: scale(14),
+        marginTop: scale(24),
+    },
+    nextButtonText: {
+        color: 'white',
+        fontSize: normalizeFont(16),
+        fontWeight: 'bold',
+    },
+});
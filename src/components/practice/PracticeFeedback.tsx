@@ -8,6 +8,8 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
+import { DictationToken } from '../../services/practice/Dictation';
+import { HINT_XP_COST } from '../../services/practice/Hints';
 
 
 
@@ -15,11 +17,14 @@ const { width } = Dimensions.get('window');
 
 interface PracticeFeedbackProps {
     isCorrect: boolean;
+    isAlmostCorrect?: boolean;
     show: boolean;
     message?: string;
+    diff?: DictationToken[];
+    hintsUsed?: number;
 }
 
-export default function PracticeFeedback({ isCorrect, show, message }: PracticeFeedbackProps) {
+export default function PracticeFeedback({ isCorrect, isAlmostCorrect, show, message, diff, hintsUsed }: PracticeFeedbackProps) {
     const fadeAnim = useRef(new Animated.Value(0)).current;
     const scaleAnim = useRef(new Animated.Value(0.8)).current;
     const slideAnim = useRef(new Animated.Value(-50)).current;
@@ -28,6 +33,8 @@ export default function PracticeFeedback({ isCorrect, show, message }: PracticeF
         if (show) {
             if (isCorrect) {
                 Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            } else if (isAlmostCorrect) {
+                Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
             } else {
                 Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
             }
@@ -80,18 +87,52 @@ export default function PracticeFeedback({ isCorrect, show, message }: PracticeF
                 },
             ]}
         >
-            <View style={[styles.content, isCorrect ? styles.correctContent : styles.incorrectContent]}>
+            <View style={[
+                styles.content,
+                isCorrect ? styles.correctContent : isAlmostCorrect ? styles.almostContent : styles.incorrectContent
+            ]}>
                 <Ionicons
-                    name={isCorrect ? 'checkmark-circle' : 'close-circle'}
+                    name={isCorrect ? 'checkmark-circle' : isAlmostCorrect ? 'alert-circle' : 'close-circle'}
                     size={48}
-                    color={isCorrect ? '#27ae60' : '#e74c3c'}
+                    color={isCorrect ? '#27ae60' : isAlmostCorrect ? '#f39c12' : '#e74c3c'}
                 />
-                <Text style={[styles.text, isCorrect ? styles.correctText : styles.incorrectText]}>
-                    {isCorrect ? 'Correct!' : 'Not quite!'}
+                <Text style={[
+                    styles.text,
+                    isCorrect ? styles.correctText : isAlmostCorrect ? styles.almostText : styles.incorrectText
+                ]}>
+                    {isCorrect ? 'Correct!' : isAlmostCorrect ? 'Almost!' : 'Not quite!'}
                 </Text>
                 {message && (
                     <Text style={styles.message}>{message}</Text>
                 )}
+                {!!hintsUsed && (
+                    <Text style={styles.hintsUsed}>
+                        {hintsUsed} {hintsUsed === 1 ? 'hint' : 'hints'} used{isCorrect ? ` · -${HINT_XP_COST * hintsUsed} XP` : ''}
+                    </Text>
+                )}
+                {diff && diff.length > 0 && (
+                    <View style={styles.diffContainer}>
+                        {diff.map((token, index) => (
+                            <Text key={index} style={styles.diffWord}>
+                                {token.status === 'correct' && (
+                                    <Text style={styles.diffCorrect}>{token.text}</Text>
+                                )}
+                                {token.status === 'wrong' && (
+                                    <>
+                                        <Text style={styles.diffRemoved}>{token.text}</Text>
+                                        <Text style={styles.diffExpected}> {token.expected}</Text>
+                                    </>
+                                )}
+                                {token.status === 'missing' && (
+                                    <Text style={styles.diffMissing}>{token.text}</Text>
+                                )}
+                                {token.status === 'extra' && (
+                                    <Text style={styles.diffRemoved}>{token.text}</Text>
+                                )}
+                            </Text>
+                        ))}
+                    </View>
+                )}
             </View>
         </Animated.View>
     );
@@ -99,11 +140,7 @@ export default function PracticeFeedback({ isCorrect, show, message }: PracticeF
 
 const styles = StyleSheet.create({
     container: {
-        position: 'absolute',
-        top: 100,
-        left: 20,
-        right: 20,
-        zIndex: 1000,
+        marginTop: 16,
     },
     content: {
         backgroundColor: 'white',
@@ -124,6 +161,10 @@ const styles = StyleSheet.create({
         borderWidth: 2,
         borderColor: '#e74c3c',
     },
+    almostContent: {
+        borderWidth: 2,
+        borderColor: '#f39c12',
+    },
     text: {
         fontSize: 24,
         fontWeight: 'bold',
@@ -135,10 +176,45 @@ const styles = StyleSheet.create({
     incorrectText: {
         color: '#e74c3c',
     },
+    almostText: {
+        color: '#f39c12',
+    },
     message: {
         fontSize: 16,
         color: '#7f8c8d',
         marginTop: 8,
         textAlign: 'center',
     },
+    hintsUsed: {
+        fontSize: 14,
+        color: '#e67e22',
+        marginTop: 6,
+        textAlign: 'center',
+    },
+    diffContainer: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        justifyContent: 'center',
+        marginTop: 12,
+        gap: 6,
+    },
+    diffWord: {
+        fontSize: 18,
+    },
+    diffCorrect: {
+        color: '#27ae60',
+    },
+    diffRemoved: {
+        color: '#e74c3c',
+        textDecorationLine: 'line-through',
+    },
+    diffExpected: {
+        color: '#27ae60',
+        fontWeight: '600',
+    },
+    diffMissing: {
+        color: '#f39c12',
+        fontWeight: '600',
+        textDecorationLine: 'underline',
+    },
 });
\ No newline at end of file
@@ -8,11 +8,16 @@ import {
     KeyboardAvoidingView,
     Platform,
     Animated,
+    Image,
 } from 'react-native';
 import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { QuizQuestion } from '../../services/PracticeService';
 import SpeechService from '../../services/SpeechService';
+import PracticeFeedback from './PracticeFeedback';
+import { encodeMatches } from '../../services/practice/Matching';
+import { joinTokens } from '../../services/practice/SentenceBuilding';
+import { HINT_TIER_LABELS, HINT_XP_COST, getQuestionHints } from '../../services/practice/Hints';
 import { scale, normalizeFont } from '../../../utils/normalize';
 
 interface PracticeQuestionRendererProps {
@@ -27,8 +32,9 @@ interface PracticeQuestionRendererProps {
     isPlayingUserRecording?: boolean;
     onAnswer: (answer: string) => void;
     onTypeAnswer: (text: string) => void;
-    onPlayAudio: (text: string, language: string) => void;
+    onPlayAudio: (text: string, language: string, slow?: boolean) => void;
     onPlayUserRecording?: () => void;
+    onUseHint?: () => void; // hints are offered only when this is given
 }
 
 export default function PracticeQuestionRenderer({
@@ -45,13 +51,19 @@ export default function PracticeQuestionRenderer({
     onTypeAnswer,
     onPlayAudio,
     onPlayUserRecording,
+    onUseHint,
 }: PracticeQuestionRendererProps) {
     
-    const [hintExpanded, setHintExpanded] = useState(false);
-    const rotateAnim = useRef(new Animated.Value(0)).current;
+    // Hint tiers shown so far; each one is recorded once
+    const [hintsRevealed, setHintsRevealed] = useState(currentQuestion.hintsUsed || 0);
     const scaleAnim = useRef(new Animated.Value(1)).current;
     const [lastAudioTime, setLastAudioTime] = useState(0);
     const [audioLoading, setAudioLoading] = useState(false)
+    // Matching board: SavedWord id -> translation the user connected to it
+    const [matches, setMatches] = useState<Record<string, string>>({});
+    const [activeOriginal, setActiveOriginal] = useState<string | null>(null);
+    // Sentence building: indexes into currentQuestion.tokens in the order they were placed
+    const [placedTokens, setPlacedTokens] = useState<number[]>([]);
 
     // Auto-play audio for listening questions
     useEffect(() => {
@@ -68,18 +80,33 @@ export default function PracticeQuestionRenderer({
         }
     }, [currentQuestion?.id, currentQuestion?.type]);
 
-    // Reset hint when question changes
+    // Dictation plays the whole sentence as soon as it appears
     useEffect(() => {
-        setHintExpanded(false);
+        if (currentQuestion.type === 'dictation' && !showAnswer) {
+            const timer = setTimeout(() => {
+                handlePlayAudio(currentQuestion.correctAnswer, currentQuestion.word.language);
+            }, 500);
+            return () => clearTimeout(timer);
+        }
+    }, [currentQuestion?.id, currentQuestion?.type]);
+
+    // Reset hint, matching board and sentence tiles when question changes
+    useEffect(() => {
+        setHintsRevealed(currentQuestion.hintsUsed || 0);
+        setMatches({});
+        setActiveOriginal(null);
+        setPlacedTokens([]);
     }, [currentQuestion.id]);
 
-    const toggleHint = () => {
-        setHintExpanded(!hintExpanded);
-        Animated.timing(rotateAnim, {
-            toValue: hintExpanded ? 0 : 1,
-            duration: 200,
-            useNativeDriver: true,
-        }).start();
+    const revealHint = () => {
+        const hint = getQuestionHints(currentQuestion)[hintsRevealed];
+        if (!hint || showAnswer) return;
+
+        setHintsRevealed(hintsRevealed + 1);
+        onUseHint?.();
+        if (hint.audioText) {
+            handlePlayAudio(hint.audioText, currentQuestion.word.language);
+        }
     };
 
     const animateSpeaker = () => {
@@ -97,71 +124,66 @@ export default function PracticeQuestionRenderer({
         ]).start();
     };
 
-    const renderHint = () => {
-        if (!currentQuestion.word.example) return null;
-
-        const rotation = rotateAnim.interpolate({
-            inputRange: [0, 1],
-            outputRange: ['0deg', '90deg'],
-        });
-
-        // Parse the example - it should be in format "target_language|english"
-        let hintText = currentQuestion.word.example;
-        let targetLanguageHint = '';
-        let englishTranslation = '';
-        
-        if (currentQuestion.word.example.includes('|')) {
-            const parts = currentQuestion.word.example.split('|');
-            targetLanguageHint = parts[0]; // Target language
-            englishTranslation = parts[1]; // English translation
-            // Show the target language as primary hint
-            hintText = targetLanguageHint;
-        }
+    const renderHints = () => {
+        if (!onUseHint) return null;
+
+        const hints = getQuestionHints(currentQuestion);
+        if (hints.length === 0) return null;
+
+        const nextHint = hints[hintsRevealed];
 
         return (
             <View style={styles.hintContainer}>
-                <TouchableOpacity 
-                    style={styles.hintHeader}
-                    onPress={toggleHint}
-                    activeOpacity={0.7}
-                >
+                <View style={styles.hintHeader}>
                     <View style={styles.hintTitleContainer}>
                         <FontAwesome name="key" size={scale(16)} color="#2980b9" />
-                        <Text style={styles.hintTitle}>Hint</Text>
+                        <Text style={styles.hintTitle}>Hints</Text>
                     </View>
-                    <Animated.View style={{ transform: [{ rotate: rotation }] }}>
-                        <Ionicons name="chevron-forward" size={scale(20)} color="#2980b9" />
-                    </Animated.View>
-                </TouchableOpacity>
-                
-                {hintExpanded && (
-                    <View style={styles.hintContent}>
-                        <Text style={styles.hintText}>
-                            {hintText}
-                        </Text>
-                        {englishTranslation && (
+                    {hintsRevealed > 0 && (
+                        <Text style={styles.hintCost}>-{HINT_XP_COST * hintsRevealed} XP</Text>
+                    )}
+                </View>
+
+                {hints.slice(0, hintsRevealed).map(hint => (
+                    <View key={hint.tier} style={styles.hintContent}>
+                        <Text style={styles.hintLabel}>{HINT_TIER_LABELS[hint.tier]}</Text>
+                        {hint.tier !== 'audio' && (
+                            <Text style={styles.hintText}>{hint.text}</Text>
+                        )}
+                        {hint.english && (
                             <Text style={styles.hintTranslation}>
-                                ({englishTranslation})
+                                ({hint.english})
                             </Text>
                         )}
-                        {targetLanguageHint && (
+                        {hint.audioText && (
                             <TouchableOpacity
                                 style={styles.hintAudioButton}
-                                onPress={() => {
-                                    handlePlayAudio(targetLanguageHint, currentQuestion.word.language);
-                                }}
+                                onPress={() => handlePlayAudio(hint.audioText!, currentQuestion.word.language)}
                             >
                                 <Ionicons name="volume-medium" size={scale(20)} color="#2980b9" />
-                                <Text style={styles.hintAudioText}>Listen to example</Text>
+                                <Text style={styles.hintAudioText}>{hint.text}</Text>
                             </TouchableOpacity>
                         )}
                     </View>
+                ))}
+
+                {nextHint && !showAnswer && (
+                    <TouchableOpacity
+                        style={styles.hintRevealButton}
+                        onPress={revealHint}
+                        activeOpacity={0.7}
+                    >
+                        <Ionicons name="add-circle-outline" size={scale(18)} color="#2980b9" />
+                        <Text style={styles.hintRevealText}>
+                            {HINT_TIER_LABELS[nextHint.tier]} (-{HINT_XP_COST} XP)
+                        </Text>
+                    </TouchableOpacity>
                 )}
             </View>
         );
     };
 
-    const handlePlayAudio = async (text: string, language: string) => {
+    const handlePlayAudio = async (text: string, language: string, slow = false) => {
         try {
             // Prevent rapid successive plays
             const now = Date.now();
@@ -179,7 +201,7 @@ export default function PracticeQuestionRenderer({
             await new Promise(resolve => setTimeout(resolve, 300));
             
             // Play with full volume
-            await onPlayAudio(text, language);
+            await onPlayAudio(text, language, slow);
         } catch (error) {
             console.error('Error playing audio:', error);
         } finally {
@@ -232,7 +254,414 @@ export default function PracticeQuestionRenderer({
         </View>
     );
 
+    // The object as the user photographed it, for picture questions
+    const renderQuestionImage = () => (
+        <Image
+            source={{ uri: currentQuestion.word.imageUrl || undefined }}
+            style={styles.questionImage}
+            resizeMode="cover"
+        />
+    );
+
+    // Text field, grading feedback and the correct answer of a typed question
+    const renderTypedAnswer = () => (
+        <>
+            <TextInput
+                style={[
+                    styles.typingInput,
+                    showAnswer && currentQuestion.grade?.verdict === 'correct' && styles.correctInput,
+                    showAnswer && currentQuestion.grade?.verdict === 'almost_correct' && styles.almostInput,
+                    showAnswer && currentQuestion.grade?.verdict === 'wrong' && !selectedAnswer?.includes('__SKIPPED__') && styles.incorrectInput,
+                    showAnswer && selectedAnswer?.includes('__SKIPPED__') && styles.skippedInput
+                ]}
+                value={typedAnswer}
+                onChangeText={onTypeAnswer}
+                placeholder="Type your answer..."
+                autoCapitalize="none"
+                autoCorrect={false}
+                editable={!showAnswer}
+                onSubmitEditing={() => typedAnswer && onAnswer(typedAnswer)}
+            />
+
+            <TouchableOpacity
+                style={[styles.submitButton, !typedAnswer && styles.disabledButton]}
+                onPress={() => onAnswer(typedAnswer)}
+                disabled={!typedAnswer || showAnswer}
+            >
+                <Text style={styles.submitButtonText}>Submit</Text>
+            </TouchableOpacity>
+
+            {showAnswer && currentQuestion.grade && !selectedAnswer?.includes('__SKIPPED__') && (
+                <PracticeFeedback
+                    show={showAnswer}
+                    isCorrect={currentQuestion.grade.verdict === 'correct'}
+                    isAlmostCorrect={currentQuestion.grade.verdict === 'almost_correct'}
+                    message={currentQuestion.grade.feedback}
+                    hintsUsed={hintsRevealed}
+                />
+            )}
+
+            {showAnswer && (currentQuestion.grade?.verdict === 'wrong' || selectedAnswer?.includes('__SKIPPED__')) && (
+                <View style={[
+                    styles.correctAnswerContainer,
+                    selectedAnswer?.includes('__SKIPPED__') && styles.skippedAnswerContainer
+                ]}>
+                    <Text style={[
+                        styles.correctAnswerLabel,
+                        selectedAnswer?.includes('__SKIPPED__') && styles.skippedAnswerLabel
+                    ]}>
+                        Correct answer:
+                    </Text>
+                    <Text style={[
+                        styles.correctAnswerText,
+                        selectedAnswer?.includes('__SKIPPED__') && styles.skippedAnswerText
+                    ]}>
+                        {currentQuestion.correctAnswer}
+                    </Text>
+                    <TouchableOpacity
+                        onPress={() => {
+                            animateSpeaker();
+                            handlePlayAudio(currentQuestion.correctAnswer, currentQuestion.word.language);
+                        }}
+                        activeOpacity={0.7}
+                    >
+                        <Animated.View style={{ transform: [{ scale: scaleAnim }] }}>
+                            <Ionicons 
+                                name="volume-medium" 
+                                size={scale(24)} 
+                                color={selectedAnswer?.includes('__SKIPPED__') ? '#f39c12' : '#3498db'}
+                            />
+                        </Animated.View>
+                    </TouchableOpacity>
+                </View>
+            )}
+        </>
+    );
+
+    const handleSelectOriginal = (wordId: string) => {
+        if (showAnswer) return;
+        // Tapping a connected word undoes its connection
+        if (matches[wordId]) {
+            const { [wordId]: _removed, ...rest } = matches;
+            setMatches(rest);
+            setActiveOriginal(wordId);
+            return;
+        }
+        setActiveOriginal(activeOriginal === wordId ? null : wordId);
+    };
+
+    const handleSelectTranslation = (translation: string) => {
+        if (showAnswer || !activeOriginal) return;
+        // A translation can only be connected to one word at a time
+        const rest = Object.fromEntries(
+            Object.entries(matches).filter(([, matched]) => matched !== translation)
+        );
+        setMatches({ ...rest, [activeOriginal]: translation });
+        setActiveOriginal(null);
+    };
+
+    const renderMatchingBoard = () => {
+        const pairs = currentQuestion.pairs || [];
+        const matchedWordIds = Object.keys(matches);
+        const colorFor = (wordId: string) =>
+            MATCH_COLORS[matchedWordIds.indexOf(wordId) % MATCH_COLORS.length];
+        const wordIdForTranslation = (translation: string) =>
+            matchedWordIds.find(wordId => matches[wordId] === translation);
+        const allMatched = pairs.length > 0 && matchedWordIds.length === pairs.length;
+
+        return (
+            <>
+                <View style={styles.matchingBoard}>
+                    <View style={styles.matchingColumn}>
+                        {pairs.map(pair => {
+                            const isMatched = !!matches[pair.word.id];
+                            return (
+                                <TouchableOpacity
+                                    key={pair.word.id}
+                                    style={[
+                                        styles.matchingTile,
+                                        activeOriginal === pair.word.id && styles.selectedOption,
+                                        !showAnswer && isMatched && { borderColor: colorFor(pair.word.id) },
+                                        showAnswer && (pair.isCorrect ? styles.correctOption : styles.incorrectOption)
+                                    ]}
+                                    onPress={() => handleSelectOriginal(pair.word.id)}
+                                    disabled={showAnswer}
+                                >
+                                    <Text style={styles.matchingText}>{pair.word.original}</Text>
+                                    {showAnswer && !pair.isCorrect && (
+                                        <Text style={styles.matchingCorrection}>{pair.word.translation}</Text>
+                                    )}
+                                </TouchableOpacity>
+                            );
+                        })}
+                    </View>
+                    <View style={styles.matchingColumn}>
+                        {currentQuestion.options?.map(translation => {
+                            const matchedWordId = wordIdForTranslation(translation);
+                            return (
+                                <TouchableOpacity
+                                    key={translation}
+                                    style={[
+                                        styles.matchingTile,
+                                        matchedWordId && { borderColor: colorFor(matchedWordId) },
+                                        showAnswer && styles.matchingTileDone
+                                    ]}
+                                    onPress={() => handleSelectTranslation(translation)}
+                                    onLongPress={() => handlePlayAudio(translation, currentQuestion.word.language)}
+                                    disabled={showAnswer}
+                                >
+                                    <Text style={styles.matchingText}>{translation}</Text>
+                                </TouchableOpacity>
+                            );
+                        })}
+                    </View>
+                </View>
+
+                {!showAnswer && (
+                    <TouchableOpacity
+                        style={[styles.submitButton, !allMatched && styles.disabledButton]}
+                        onPress={() => onAnswer(encodeMatches(matches))}
+                        disabled={!allMatched}
+                    >
+                        <Text style={styles.submitButtonText}>Check</Text>
+                    </TouchableOpacity>
+                )}
+
+                {showAnswer && currentQuestion.grade && !selectedAnswer?.includes('__SKIPPED__') && (
+                    <PracticeFeedback
+                        show={showAnswer}
+                        isCorrect={currentQuestion.grade.verdict === 'correct'}
+                        isAlmostCorrect={currentQuestion.grade.verdict === 'almost_correct'}
+                        message={currentQuestion.grade.feedback}
+                    />
+                )}
+            </>
+        );
+    };
+
+    const renderSentenceBuilder = () => {
+        const tokens = currentQuestion.tokens || [];
+        const builtSentence = joinTokens(placedTokens.map(index => tokens[index]), currentQuestion.word.language);
+        const isSkipped = selectedAnswer?.includes('__SKIPPED__');
+
+        return (
+            <>
+                <View style={styles.sentenceContainer}>
+                    <Text style={styles.sentenceText}>{currentQuestion.contextSentence}</Text>
+                </View>
+
+                <View style={[
+                    styles.builtSentence,
+                    showAnswer && currentQuestion.grade?.verdict === 'correct' && styles.correctOption,
+                    showAnswer && currentQuestion.grade?.verdict === 'wrong' && !isSkipped && styles.incorrectOption
+                ]}>
+                    {placedTokens.length === 0 && (
+                        <Text style={styles.builtSentencePlaceholder}>Tap the words below in order</Text>
+                    )}
+                    {placedTokens.map((tokenIndex, position) => (
+                        <TouchableOpacity
+                            key={`placed_${tokenIndex}`}
+                            style={[styles.tokenTile, styles.placedTokenTile]}
+                            onPress={() => setPlacedTokens(placedTokens.filter((_, i) => i !== position))}
+                            disabled={showAnswer}
+                        >
+                            <Text style={styles.tokenText}>{tokens[tokenIndex]}</Text>
+                        </TouchableOpacity>
+                    ))}
+                </View>
+
+                <View style={styles.tokenBank}>
+                    {tokens.map((token, index) => {
+                        const isPlaced = placedTokens.includes(index);
+                        return (
+                            <TouchableOpacity
+                                key={`bank_${index}`}
+                                style={[styles.tokenTile, isPlaced && styles.usedTokenTile]}
+                                onPress={() => setPlacedTokens([...placedTokens, index])}
+                                disabled={showAnswer || isPlaced}
+                            >
+                                <Text style={[styles.tokenText, isPlaced && styles.usedTokenText]}>{token}</Text>
+                            </TouchableOpacity>
+                        );
+                    })}
+                </View>
+
+                {!showAnswer && (
+                    <TouchableOpacity
+                        style={[styles.submitButton, placedTokens.length !== tokens.length && styles.disabledButton]}
+                        onPress={() => onAnswer(builtSentence)}
+                        disabled={placedTokens.length !== tokens.length}
+                    >
+                        <Text style={styles.submitButtonText}>Check</Text>
+                    </TouchableOpacity>
+                )}
+
+                {showAnswer && currentQuestion.grade && !isSkipped && (
+                    <PracticeFeedback
+                        show={showAnswer}
+                        isCorrect={currentQuestion.grade.verdict === 'correct'}
+                        message={currentQuestion.grade.feedback}
+                    />
+                )}
+
+                {showAnswer && (
+                    <TouchableOpacity
+                        style={styles.contextAudioButtonBelow}
+                        onPress={() => handlePlayAudio(currentQuestion.correctAnswer, currentQuestion.word.language)}
+                    >
+                        <Ionicons name="volume-high" size={scale(24)} color="#3498db" />
+                        <Text style={styles.contextAudioText}>Listen to the sentence</Text>
+                    </TouchableOpacity>
+                )}
+            </>
+        );
+    };
+
     switch (currentQuestion.type) {
+        case 'dictation':
+            return (
+                <KeyboardAvoidingView 
+                    style={styles.typingQuestionContainer}
+                    behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+                >
+                    <Text style={styles.questionText}>
+                        {currentQuestion.displayQuestion}
+                    </Text>
+
+                    <View style={styles.dictationControls}>
+                        <TouchableOpacity
+                            style={[styles.bigPlayButton, styles.dictationPlayButton, audioPlaying && styles.bigPlayButtonActive]}
+                            onPress={() => {
+                                animateSpeaker();
+                                handlePlayAudio(currentQuestion.correctAnswer, currentQuestion.word.language);
+                            }}
+                            activeOpacity={0.8}
+                            disabled={audioLoading}
+                        >
+                            <Animated.View style={{ transform: [{ scale: scaleAnim }] }}>
+                                <Ionicons name="volume-high" size={scale(48)} color="white" />
+                            </Animated.View>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                            style={styles.slowReplayButton}
+                            onPress={() => handlePlayAudio(currentQuestion.correctAnswer, currentQuestion.word.language, true)}
+                            disabled={audioLoading}
+                        >
+                            <MaterialCommunityIcons name="speedometer-slow" size={scale(22)} color="#3498db" />
+                            <Text style={styles.slowReplayText}>Slow</Text>
+                        </TouchableOpacity>
+                    </View>
+
+                    <TextInput
+                        style={[
+                            styles.typingInput,
+                            styles.dictationInput,
+                            showAnswer && currentQuestion.grade?.verdict === 'correct' && styles.correctInput,
+                            showAnswer && currentQuestion.grade?.verdict === 'almost_correct' && styles.almostInput,
+                            showAnswer && currentQuestion.grade?.verdict === 'wrong' && !selectedAnswer?.includes('__SKIPPED__') && styles.incorrectInput,
+                            showAnswer && selectedAnswer?.includes('__SKIPPED__') && styles.skippedInput
+                        ]}
+                        value={typedAnswer}
+                        onChangeText={onTypeAnswer}
+                        placeholder="Type what you hear..."
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        multiline
+                        editable={!showAnswer}
+                    />
+
+                    <TouchableOpacity
+                        style={[styles.submitButton, !typedAnswer && styles.disabledButton]}
+                        onPress={() => onAnswer(typedAnswer)}
+                        disabled={!typedAnswer || showAnswer}
+                    >
+                        <Text style={styles.submitButtonText}>Submit</Text>
+                    </TouchableOpacity>
+
+                    {showAnswer && currentQuestion.grade && (
+                        <PracticeFeedback
+                            show={showAnswer}
+                            isCorrect={currentQuestion.grade.verdict === 'correct'}
+                            isAlmostCorrect={currentQuestion.grade.verdict === 'almost_correct'}
+                            message={currentQuestion.contextSentence}
+                            diff={currentQuestion.diff}
+                        />
+                    )}
+                </KeyboardAvoidingView>
+            );
+
+        case 'sentence_building':
+            return (
+                <View style={styles.questionContainer}>
+                    <Text style={styles.questionText}>
+                        {currentQuestion.displayQuestion}
+                    </Text>
+
+                    {renderSentenceBuilder()}
+                </View>
+            );
+
+        case 'matching':
+            return (
+                <View style={styles.questionContainer}>
+                    <Text style={styles.questionText}>
+                        {currentQuestion.displayQuestion}
+                    </Text>
+
+                    {renderMatchingBoard()}
+                </View>
+            );
+
+        case 'gender':
+            return (
+                <View style={styles.questionContainer}>
+                    <Text style={styles.questionText}>
+                        {currentQuestion.displayQuestion}
+                    </Text>
+
+                    {renderMultipleChoiceOptions()}
+
+                    {showAnswer && currentQuestion.contextSentence && (
+                        <TouchableOpacity
+                            style={styles.genderAnswer}
+                            onPress={() => handlePlayAudio(currentQuestion.contextSentence!, currentQuestion.word.language)}
+                            disabled={audioPlaying}
+                        >
+                            <Text style={styles.genderAnswerText}>{currentQuestion.contextSentence}</Text>
+                            <Ionicons name="volume-medium" size={scale(20)} color="#3498db" />
+                        </TouchableOpacity>
+                    )}
+                </View>
+            );
+
+        case 'contrast':
+            return (
+                <View style={styles.questionContainer}>
+                    <Text style={styles.questionText}>
+                        {currentQuestion.displayQuestion}
+                    </Text>
+
+                    {renderMultipleChoiceOptions()}
+
+                    {showAnswer && currentQuestion.contrastWord && (
+                        <View style={styles.contrastExplanation}>
+                            {[currentQuestion.word, currentQuestion.contrastWord].map(word => (
+                                <TouchableOpacity
+                                    key={word.id}
+                                    style={styles.contrastRow}
+                                    onPress={() => handlePlayAudio(word.translation, word.language)}
+                                    disabled={audioPlaying}
+                                >
+                                    <Text style={styles.contrastTranslation}>{word.translation}</Text>
+                                    <Text style={styles.contrastOriginal}>= {word.original}</Text>
+                                    <Ionicons name="volume-medium" size={scale(18)} color="#3498db" />
+                                </TouchableOpacity>
+                            ))}
+                        </View>
+                    )}
+                </View>
+            );
+
         case 'translation':
         case 'multiple_choice':
             return (
@@ -241,7 +670,7 @@ export default function PracticeQuestionRenderer({
                         {currentQuestion.displayQuestion}
                     </Text>
                     
-                    {renderHint()}
+                    {renderHints()}
 
                     {renderMultipleChoiceOptions()}
                 </View>
@@ -371,6 +800,8 @@ export default function PracticeQuestionRenderer({
                         <Text style={styles.playText}>Play pronunciation</Text>
                     </TouchableOpacity>
 
+                    {renderHints()}
+
                     <View style={styles.optionsContainer}>
                         {currentQuestion.options?.map((option, index) => (
                             <TouchableOpacity
@@ -429,6 +860,8 @@ export default function PracticeQuestionRenderer({
                         </TouchableOpacity>
                     )}
 
+                    {renderHints()}
+
                     {/* Use the same optionsContainer style as other question types */}
                     <View style={styles.optionsContainer}>
                         {currentQuestion.options?.map((option, index) => (
@@ -482,6 +915,8 @@ export default function PracticeQuestionRenderer({
                         </Animated.View>
                     </TouchableOpacity>
 
+                    {renderHints()}
+
                     <View style={styles.optionsContainer}>
                         {currentQuestion.options?.map((option, index) => (
                             <TouchableOpacity
@@ -509,6 +944,38 @@ export default function PracticeQuestionRenderer({
                 </View>
             );
 
+        case 'image':
+            // Picked from options, or typed when the question has none
+            if (currentQuestion.options) {
+                return (
+                    <View style={styles.questionContainer}>
+                        {renderQuestionImage()}
+                        <Text style={styles.questionText}>
+                            {currentQuestion.displayQuestion}
+                        </Text>
+
+                        {renderHints()}
+
+                        {renderMultipleChoiceOptions()}
+                    </View>
+                );
+            }
+            return (
+                <KeyboardAvoidingView
+                    style={styles.typingQuestionContainer}
+                    behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+                >
+                    {renderQuestionImage()}
+                    <Text style={styles.questionText}>
+                        {currentQuestion.displayQuestion}
+                    </Text>
+
+                    {renderHints()}
+
+                    {renderTypedAnswer()}
+                </KeyboardAvoidingView>
+            );
+
         case 'typing':
             return (
                 <KeyboardAvoidingView 
@@ -519,64 +986,9 @@ export default function PracticeQuestionRenderer({
                         {currentQuestion.displayQuestion}
                     </Text>
 
-                    <TextInput
-                        style={[
-                            styles.typingInput,
-                            showAnswer && typedAnswer.toLowerCase().trim() === currentQuestion.correctAnswer.toLowerCase().trim() && styles.correctInput,
-                            showAnswer && typedAnswer.toLowerCase().trim() !== currentQuestion.correctAnswer.toLowerCase().trim() && !selectedAnswer?.includes('__SKIPPED__') && styles.incorrectInput,
-                            showAnswer && selectedAnswer?.includes('__SKIPPED__') && styles.skippedInput
-                        ]}
-                        value={typedAnswer}
-                        onChangeText={onTypeAnswer}
-                        placeholder="Type your answer..."
-                        autoCapitalize="none"
-                        autoCorrect={false}
-                        editable={!showAnswer}
-                        onSubmitEditing={() => typedAnswer && onAnswer(typedAnswer)}
-                    />
-
-                    <TouchableOpacity
-                        style={[styles.submitButton, !typedAnswer && styles.disabledButton]}
-                        onPress={() => onAnswer(typedAnswer)}
-                        disabled={!typedAnswer || showAnswer}
-                    >
-                        <Text style={styles.submitButtonText}>Submit</Text>
-                    </TouchableOpacity>
+                    {renderHints()}
 
-                    {showAnswer && (typedAnswer.toLowerCase().trim() !== currentQuestion.correctAnswer.toLowerCase().trim() || selectedAnswer?.includes('__SKIPPED__')) && (
-                        <View style={[
-                            styles.correctAnswerContainer,
-                            selectedAnswer?.includes('__SKIPPED__') && styles.skippedAnswerContainer
-                        ]}>
-                            <Text style={[
-                                styles.correctAnswerLabel,
-                                selectedAnswer?.includes('__SKIPPED__') && styles.skippedAnswerLabel
-                            ]}>
-                                Correct answer:
-                            </Text>
-                            <Text style={[
-                                styles.correctAnswerText,
-                                selectedAnswer?.includes('__SKIPPED__') && styles.skippedAnswerText
-                            ]}>
-                                {currentQuestion.correctAnswer}
-                            </Text>
-                            <TouchableOpacity
-                                onPress={() => {
-                                    animateSpeaker();
-                                    handlePlayAudio(currentQuestion.correctAnswer, currentQuestion.word.language);
-                                }}
-                                activeOpacity={0.7}
-                            >
-                                <Animated.View style={{ transform: [{ scale: scaleAnim }] }}>
-                                    <Ionicons 
-                                        name="volume-medium" 
-                                        size={scale(24)} 
-                                        color={selectedAnswer?.includes('__SKIPPED__') ? '#f39c12' : '#3498db'}
-                                    />
-                                </Animated.View>
-                            </TouchableOpacity>
-                        </View>
-                    )}
+                    {renderTypedAnswer()}
                 </KeyboardAvoidingView>
             );
 
@@ -585,6 +997,9 @@ export default function PracticeQuestionRenderer({
     }
 }
 
+// Border colors that tell connected pairs apart on a matching board
+const MATCH_COLORS = ['#3498db', '#9b59b6', '#e67e22', '#16a085', '#c0392b', '#2c3e50'];
+
 const styles = StyleSheet.create({
     questionContainer: {
         backgroundColor: 'white',
@@ -608,6 +1023,14 @@ const styles = StyleSheet.create({
         elevation: 4,
         minHeight: scale(300),
     },
+    questionImage: {
+        width: scale(180),
+        height: scale(180),
+        borderRadius: scale(16),
+        alignSelf: 'center',
+        backgroundColor: '#ecf0f1',
+        marginBottom: scale(16),
+    },
     questionText: {
         fontSize: normalizeFont(18),
         fontWeight: '600',
@@ -637,6 +1060,29 @@ const styles = StyleSheet.create({
         fontWeight: '600',
         color: '#2980b9',
     },
+    hintCost: {
+        fontSize: normalizeFont(12),
+        fontWeight: '600',
+        color: '#e67e22',
+    },
+    hintLabel: {
+        fontSize: normalizeFont(11),
+        fontWeight: '600',
+        color: '#7f8c8d',
+        textTransform: 'uppercase',
+        marginBottom: scale(2),
+    },
+    hintRevealButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: scale(6),
+        padding: scale(8),
+    },
+    hintRevealText: {
+        fontSize: normalizeFont(13),
+        color: '#2980b9',
+        fontWeight: '500',
+    },
     hintContent: {
         backgroundColor: '#f8fbff',
         padding: scale(10),
@@ -755,6 +1201,154 @@ const styles = StyleSheet.create({
         borderColor: '#e74c3c',
         backgroundColor: '#fadbd8',
     },
+    almostInput: {
+        borderColor: '#f39c12',
+        backgroundColor: '#fef5e7',
+    },
+    genderAnswer: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: scale(8),
+        marginTop: scale(12),
+        padding: scale(10),
+        borderRadius: scale(8),
+        backgroundColor: '#f0f8ff',
+    },
+    genderAnswerText: {
+        fontSize: normalizeFont(18),
+        fontWeight: '600',
+        color: '#2c3e50',
+    },
+    contrastExplanation: {
+        marginTop: scale(12),
+        padding: scale(10),
+        borderRadius: scale(8),
+        backgroundColor: '#f0f8ff',
+        gap: scale(6),
+    },
+    contrastRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: scale(8),
+    },
+    contrastTranslation: {
+        fontSize: normalizeFont(16),
+        fontWeight: '600',
+        color: '#2c3e50',
+    },
+    contrastOriginal: {
+        flex: 1,
+        fontSize: normalizeFont(15),
+        color: '#7f8c8d',
+    },
+    dictationControls: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: scale(16),
+        marginBottom: scale(20),
+    },
+    dictationPlayButton: {
+        marginBottom: 0,
+    },
+    slowReplayButton: {
+        alignItems: 'center',
+        padding: scale(10),
+        borderRadius: scale(12),
+        borderWidth: scale(2),
+        borderColor: '#3498db',
+    },
+    slowReplayText: {
+        fontSize: normalizeFont(12),
+        color: '#3498db',
+        fontWeight: '600',
+        marginTop: scale(2),
+    },
+    dictationInput: {
+        minHeight: scale(80),
+        textAlignVertical: 'top',
+    },
+    builtSentence: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        alignItems: 'center',
+        gap: scale(8),
+        minHeight: scale(60),
+        padding: scale(10),
+        marginBottom: scale(16),
+        borderRadius: scale(12),
+        borderWidth: scale(2),
+        borderStyle: 'dashed',
+        borderColor: '#bdc3c7',
+    },
+    builtSentencePlaceholder: {
+        fontSize: normalizeFont(14),
+        color: '#95a5a6',
+    },
+    tokenBank: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        justifyContent: 'center',
+        gap: scale(8),
+        marginBottom: scale(16),
+    },
+    tokenTile: {
+        paddingVertical: scale(8),
+        paddingHorizontal: scale(12),
+        borderRadius: scale(10),
+        borderWidth: scale(2),
+        borderColor: '#3498db',
+        backgroundColor: 'white',
+    },
+    placedTokenTile: {
+        backgroundColor: '#ebf5fb',
+    },
+    usedTokenTile: {
+        borderColor: '#ecf0f1',
+        backgroundColor: '#f8f9fa',
+    },
+    tokenText: {
+        fontSize: normalizeFont(16),
+        color: '#2c3e50',
+    },
+    usedTokenText: {
+        color: '#ecf0f1',
+    },
+    matchingBoard: {
+        flexDirection: 'row',
+        gap: scale(12),
+        marginBottom: scale(16),
+    },
+    matchingColumn: {
+        flex: 1,
+        gap: scale(10),
+    },
+    matchingTile: {
+        minHeight: scale(52),
+        justifyContent: 'center',
+        paddingVertical: scale(10),
+        paddingHorizontal: scale(12),
+        borderRadius: scale(12),
+        borderWidth: scale(2),
+        borderColor: '#ecf0f1',
+        backgroundColor: 'white',
+    },
+    matchingTileDone: {
+        opacity: 0.7,
+    },
+    matchingText: {
+        fontSize: normalizeFont(15),
+        color: '#2c3e50',
+        textAlign: 'center',
+    },
+    matchingCorrection: {
+        fontSize: normalizeFont(13),
+        color: '#27ae60',
+        fontWeight: '600',
+        textAlign: 'center',
+        marginTop: scale(4),
+    },
     submitButton: {
         backgroundColor: '#3498db',
         padding: scale(16),
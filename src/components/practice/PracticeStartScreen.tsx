@@ -9,6 +9,8 @@ import {
 } from 'react-native';
 import { Ionicons, MaterialCommunityIcons, FontAwesome5 } from '@expo/vector-icons';
 import { scale, normalizeFont } from '../../../utils/normalize';
+import { PracticeSessionSpec } from '../../services/practice/SessionSpec';
+import { SPEED_ROUND_DURATIONS, SpeedRoundBest } from '../../services/practice/SpeedRound';
 
 interface PracticeStartScreenProps {
     availableLanguages: { code: string; name: string; wordCount: number }[];
@@ -16,8 +18,37 @@ interface PracticeStartScreenProps {
     loading: boolean;
     onSelectLanguage: (code: string) => void;
     onStartPractice: (questionCount: number) => void;
+    mistakeCount?: number;
+    onStartMistakesReview?: () => void;
+    spec?: PracticeSessionSpec;
+    onChangeSpec?: (spec: PracticeSessionSpec) => void;
+    categories?: { category: string; count: number }[];
+    matchingWordCount?: number;
+    customWordCount?: number;
+    onClearCustomWords?: () => void;
+    onStartSpeedRound?: (durationSeconds: number) => void;
+    speedRoundBests?: Record<number, SpeedRoundBest>;
+    onOpenStats?: () => void;
+    onOpenHistory?: () => void;
+    newWordCount?: number;
+    newWordsLeftToday?: number;
+    onStartLearn?: () => void;
+    onStartHandsFree?: () => void;
 }
 
+interface ProficiencyFilter {
+    label: string;
+    min?: number;
+    max?: number;
+}
+
+const proficiencyFilters: ProficiencyFilter[] = [
+    { label: 'All levels' },
+    { label: 'Under 50%', max: 50 },
+    { label: '50-79%', min: 50, max: 80 },
+    { label: '80% and up', min: 80 }
+];
+
 interface QuizOption {
     questions: number;
     icon: string;
@@ -63,7 +94,23 @@ export default function PracticeStartScreen({
     selectedLanguage,
     loading,
     onSelectLanguage,
-    onStartPractice
+    onStartPractice,
+    mistakeCount = 0,
+    onStartMistakesReview,
+    spec = {},
+    onChangeSpec,
+    categories = [],
+    matchingWordCount,
+    customWordCount = 0,
+    onClearCustomWords,
+    onStartSpeedRound,
+    speedRoundBests = {},
+    onOpenStats,
+    onOpenHistory,
+    newWordCount = 0,
+    newWordsLeftToday = 0,
+    onStartLearn,
+    onStartHandsFree
 }: PracticeStartScreenProps) {
     if (loading) {
         return (
@@ -85,60 +132,239 @@ export default function PracticeStartScreen({
         );
     }
 
+    const hasCustomWords = customWordCount > 0;
+    const mixedLanguages = spec.languages || [];
+    const isMixing = mixedLanguages.length > 0;
+    const isLanguageSelected = (code: string) =>
+        isMixing ? mixedLanguages.includes(code) : selectedLanguage === code;
+
+    const handleLanguagePress = (code: string) => {
+        if (!isMixing || !onChangeSpec) {
+            onSelectLanguage(code);
+            return;
+        }
+        // Keep at least one language in the mix
+        const languages = mixedLanguages.includes(code)
+            ? mixedLanguages.filter(lang => lang !== code)
+            : [...mixedLanguages, code];
+        if (languages.length > 0) {
+            onChangeSpec({ ...spec, languages, categories: undefined });
+        }
+    };
+
+    const toggleMixing = () => {
+        if (!onChangeSpec) return;
+        onChangeSpec({
+            ...spec,
+            languages: isMixing ? undefined : [selectedLanguage],
+            categories: undefined
+        });
+    };
+
+    const toggleCategory = (category: string) => {
+        if (!onChangeSpec) return;
+        const selected = spec.categories || [];
+        const next = selected.includes(category)
+            ? selected.filter(c => c !== category)
+            : [...selected, category];
+        onChangeSpec({ ...spec, categories: next.length > 0 ? next : undefined });
+    };
+
+    const isProficiencyFilterActive = (filter: ProficiencyFilter) =>
+        filter.min === spec.minProficiency && filter.max === spec.maxProficiency;
+
+    // Words the session can draw distractors from
+    const availableWordCount = hasCustomWords
+        ? Number.MAX_SAFE_INTEGER
+        : availableLanguages
+            .filter(lang => isLanguageSelected(lang.code))
+            .reduce((sum, lang) => sum + lang.wordCount, 0);
+    const noMatchingWords = !hasCustomWords && matchingWordCount === 0;
+    const canLearn = newWordCount > 0 && newWordsLeftToday > 0;
+
     return (
         <ScrollView 
             style={styles.scrollView}
             contentContainerStyle={styles.scrollContent}
             showsVerticalScrollIndicator={false}
         >
+            {/* Hand-picked words from the vocabulary screen */}
+            {hasCustomWords && (
+                <View style={styles.section}>
+                    <View style={styles.customWordsCard}>
+                        <Ionicons name="list" size={scale(24)} color="#3498db" />
+                        <View style={styles.customWordsContent}>
+                            <Text style={styles.customWordsTitle}>Your Word Selection</Text>
+                            <Text style={styles.customWordsSubtitle}>
+                                {customWordCount} word{customWordCount !== 1 ? 's' : ''} picked from your vocabulary
+                            </Text>
+                        </View>
+                        {onClearCustomWords && (
+                            <TouchableOpacity onPress={onClearCustomWords} style={styles.customWordsClear}>
+                                <Ionicons name="close" size={scale(20)} color="#7f8c8d" />
+                            </TouchableOpacity>
+                        )}
+                    </View>
+                </View>
+            )}
+
             {/* Language Selection */}
-            <View style={styles.section}>
-                <Text style={styles.sectionTitle}>Choose Your Language</Text>
-                <ScrollView 
-                    horizontal 
-                    showsHorizontalScrollIndicator={false}
-                    style={styles.languageScroll}
-                >
-                    {availableLanguages.map((lang) => (
+            {!hasCustomWords && (
+                <View style={styles.section}>
+                    <View style={styles.sectionHeader}>
+                        <Text style={[styles.sectionTitle, styles.sectionHeaderTitle]}>Choose Your Language</Text>
+                        {onChangeSpec && availableLanguages.length > 1 && (
+                            <TouchableOpacity
+                                style={[styles.filterChip, isMixing && styles.filterChipActive]}
+                                onPress={toggleMixing}
+                            >
+                                <Ionicons name="shuffle" size={scale(16)} color={isMixing ? 'white' : '#3498db'} />
+                                <Text style={[styles.filterChipText, isMixing && styles.filterChipTextActive]}>
+                                    Mix
+                                </Text>
+                            </TouchableOpacity>
+                        )}
+                    </View>
+                    <ScrollView 
+                        horizontal 
+                        showsHorizontalScrollIndicator={false}
+                        style={styles.languageScroll}
+                    >
+                        {availableLanguages.map((lang) => (
+                            <TouchableOpacity
+                                key={lang.code}
+                                style={[
+                                    styles.languageCard,
+                                    isLanguageSelected(lang.code) && styles.selectedLanguageCard
+                                ]}
+                                onPress={() => handleLanguagePress(lang.code)}
+                            >
+                                <View style={styles.languageContent}>
+                                    <Text style={[
+                                        styles.languageName,
+                                        isLanguageSelected(lang.code) && styles.selectedLanguageName
+                                    ]}>
+                                        {lang.name}
+                                    </Text>
+                                    <Text style={styles.wordCount}>
+                                        {lang.wordCount} words
+                                    </Text>
+                                </View>
+                                {isLanguageSelected(lang.code) && (
+                                    <View style={styles.checkmark}>
+                                        <Ionicons name="checkmark" size={scale(16)} color="white" />
+                                    </View>
+                                )}
+                            </TouchableOpacity>
+                        ))}
+                    </ScrollView>
+                </View>
+            )}
+
+            {/* Focus: category and proficiency filters */}
+            {selectedLanguage && !hasCustomWords && onChangeSpec && (
+                <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>Focus</Text>
+                    <ScrollView
+                        horizontal
+                        showsHorizontalScrollIndicator={false}
+                        contentContainerStyle={styles.chipRow}
+                    >
                         <TouchableOpacity
-                            key={lang.code}
-                            style={[
-                                styles.languageCard,
-                                selectedLanguage === lang.code && styles.selectedLanguageCard
-                            ]}
-                            onPress={() => onSelectLanguage(lang.code)}
+                            style={[styles.filterChip, !spec.categories && styles.filterChipActive]}
+                            onPress={() => onChangeSpec({ ...spec, categories: undefined })}
                         >
-                            <View style={styles.languageContent}>
-                                <Text style={[
-                                    styles.languageName,
-                                    selectedLanguage === lang.code && styles.selectedLanguageName
-                                ]}>
-                                    {lang.name}
+                            <Text style={[styles.filterChipText, !spec.categories && styles.filterChipTextActive]}>
+                                All categories
+                            </Text>
+                        </TouchableOpacity>
+                        {categories.map(({ category, count }) => {
+                            const isActive = spec.categories?.includes(category) ?? false;
+                            return (
+                                <TouchableOpacity
+                                    key={category}
+                                    style={[styles.filterChip, isActive && styles.filterChipActive]}
+                                    onPress={() => toggleCategory(category)}
+                                >
+                                    <Text style={[styles.filterChipText, isActive && styles.filterChipTextActive]}>
+                                        {category.charAt(0).toUpperCase() + category.slice(1)} ({count})
+                                    </Text>
+                                </TouchableOpacity>
+                            );
+                        })}
+                    </ScrollView>
+                    <ScrollView
+                        horizontal
+                        showsHorizontalScrollIndicator={false}
+                        contentContainerStyle={[styles.chipRow, styles.chipRowSpaced]}
+                    >
+                        {proficiencyFilters.map((filter) => {
+                            const isActive = isProficiencyFilterActive(filter);
+                            return (
+                                <TouchableOpacity
+                                    key={filter.label}
+                                    style={[styles.filterChip, isActive && styles.filterChipActive]}
+                                    onPress={() => onChangeSpec({
+                                        ...spec,
+                                        minProficiency: filter.min,
+                                        maxProficiency: filter.max
+                                    })}
+                                >
+                                    <Text style={[styles.filterChipText, isActive && styles.filterChipTextActive]}>
+                                        {filter.label}
+                                    </Text>
+                                </TouchableOpacity>
+                            );
+                        })}
+                    </ScrollView>
+                    {matchingWordCount !== undefined && (
+                        <Text style={[styles.matchingText, noMatchingWords && styles.noMatchingText]}>
+                            {noMatchingWords
+                                ? newWordCount > 0 ? 'Only new words match - learn them first' : 'No words match these filters'
+                                : `${matchingWordCount} word${matchingWordCount !== 1 ? 's' : ''} match`}
+                        </Text>
+                    )}
+                </View>
+            )}
+
+            {/* Quiz Options */}
+            {(selectedLanguage || hasCustomWords) && (
+                <View style={styles.section}>
+                    {/* Learn New Words */}
+                    {onStartLearn && !hasCustomWords && newWordCount > 0 && (
+                        <TouchableOpacity
+                            style={[styles.mistakesCard, styles.learnCard, !canLearn && styles.mistakesCardEmpty]}
+                            onPress={onStartLearn}
+                            activeOpacity={0.8}
+                            disabled={!canLearn}
+                        >
+                            <View style={[
+                                styles.iconContainer,
+                                { backgroundColor: canLearn ? '#27ae60' : '#bdc3c7' }
+                            ]}>
+                                <Ionicons name="school" size={scale(24)} color="white" />
+                            </View>
+                            <View style={styles.mistakesContent}>
+                                <Text style={[styles.mistakesTitle, !canLearn && styles.lockedText]}>
+                                    Learn New Words
                                 </Text>
-                                <Text style={styles.wordCount}>
-                                    {lang.wordCount} words
+                                <Text style={styles.mistakesSubtitle}>
+                                    {canLearn
+                                        ? `${newWordCount} new word${newWordCount !== 1 ? 's' : ''} to meet before practice`
+                                        : "Today's new words are done - come back tomorrow"}
                                 </Text>
                             </View>
-                            {selectedLanguage === lang.code && (
-                                <View style={styles.checkmark}>
-                                    <Ionicons name="checkmark" size={scale(16)} color="white" />
-                                </View>
+                            {canLearn && (
+                                <Ionicons name="chevron-forward" size={scale(20)} color="#27ae60" />
                             )}
                         </TouchableOpacity>
-                    ))}
-                </ScrollView>
-            </View>
+                    )}
 
-            {/* Quiz Options */}
-            {selectedLanguage && (
-                <View style={styles.section}>
                     <Text style={styles.sectionTitle}>Choose Your Challenge</Text>
                     <View style={styles.quizOptionsContainer}>
                         {quizOptions.map((option) => {
-                            const selectedLang = availableLanguages.find(lang => lang.code === selectedLanguage);
-                            const currentWordCount = selectedLang?.wordCount || 0;
-                            const isLocked = currentWordCount < option.requiredWords;
-                            const wordsNeeded = option.requiredWords - currentWordCount;
+                            const isLocked = noMatchingWords || availableWordCount < option.requiredWords;
+                            const wordsNeeded = option.requiredWords - availableWordCount;
 
                             return (
                                 <TouchableOpacity
@@ -159,7 +385,9 @@ export default function PracticeStartScreen({
                                                 <Ionicons name="lock-closed" size={scale(32)} color="#7f8c8d" />
                                             </View>
                                             <Text style={styles.lockText}>
-                                                Need {wordsNeeded} more word{wordsNeeded !== 1 ? 's' : ''}
+                                                {noMatchingWords
+                                                    ? newWordCount > 0 ? 'Learn new words first' : 'No matching words'
+                                                    : `Need ${wordsNeeded} more word${wordsNeeded !== 1 ? 's' : ''}`}
                                             </Text>
                                         </View>
                                     )}
@@ -228,6 +456,144 @@ export default function PracticeStartScreen({
                         })}
                     </View>
 
+                    {/* Mistakes Review */}
+                    {onStartMistakesReview && !hasCustomWords && (
+                        <TouchableOpacity
+                            style={[styles.mistakesCard, mistakeCount === 0 && styles.mistakesCardEmpty]}
+                            onPress={onStartMistakesReview}
+                            activeOpacity={0.8}
+                            disabled={mistakeCount === 0}
+                        >
+                            <View style={[
+                                styles.iconContainer,
+                                { backgroundColor: mistakeCount === 0 ? '#bdc3c7' : '#9b59b6' }
+                            ]}>
+                                <Ionicons name="refresh" size={scale(24)} color="white" />
+                            </View>
+                            <View style={styles.mistakesContent}>
+                                <Text style={[styles.mistakesTitle, mistakeCount === 0 && styles.lockedText]}>
+                                    Review Mistakes
+                                </Text>
+                                <Text style={styles.mistakesSubtitle}>
+                                    {mistakeCount === 0
+                                        ? 'No recent mistakes - nice work!'
+                                        : `${mistakeCount} word${mistakeCount !== 1 ? 's' : ''} you missed recently`}
+                                </Text>
+                            </View>
+                            {mistakeCount > 0 && (
+                                <Ionicons name="chevron-forward" size={scale(20)} color="#9b59b6" />
+                            )}
+                        </TouchableOpacity>
+                    )}
+
+                    {/* Speed Round */}
+                    {onStartSpeedRound && (
+                        <View style={[styles.speedRoundCard, noMatchingWords && styles.mistakesCardEmpty]}>
+                            <View style={styles.speedRoundHeader}>
+                                <View style={[
+                                    styles.iconContainer,
+                                    { backgroundColor: noMatchingWords ? '#bdc3c7' : '#e67e22' }
+                                ]}>
+                                    <Ionicons name="timer" size={scale(24)} color="white" />
+                                </View>
+                                <View style={styles.mistakesContent}>
+                                    <Text style={[styles.mistakesTitle, noMatchingWords && styles.lockedText]}>
+                                        Speed Round
+                                    </Text>
+                                    <Text style={styles.mistakesSubtitle}>
+                                        Answer as many as you can - combos multiply your XP
+                                    </Text>
+                                </View>
+                            </View>
+                            <View style={styles.speedRoundButtons}>
+                                {SPEED_ROUND_DURATIONS.map(duration => {
+                                    const best = speedRoundBests[duration];
+                                    return (
+                                        <TouchableOpacity
+                                            key={duration}
+                                            style={[styles.speedRoundButton, noMatchingWords && styles.lockedSpeedRoundButton]}
+                                            onPress={() => onStartSpeedRound(duration)}
+                                            activeOpacity={0.8}
+                                            disabled={noMatchingWords}
+                                        >
+                                            <Text style={styles.speedRoundButtonText}>{duration}s</Text>
+                                            <Text style={styles.speedRoundBestText}>
+                                                {best ? `Best: ${best.score}` : 'No best yet'}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    );
+                                })}
+                            </View>
+                        </View>
+                    )}
+
+                    {/* Hands-Free */}
+                    {onStartHandsFree && (
+                        <TouchableOpacity
+                            style={[styles.mistakesCard, styles.handsFreeCard, noMatchingWords && styles.mistakesCardEmpty]}
+                            onPress={onStartHandsFree}
+                            activeOpacity={0.8}
+                            disabled={noMatchingWords}
+                        >
+                            <View style={[
+                                styles.iconContainer,
+                                { backgroundColor: noMatchingWords ? '#bdc3c7' : '#16a085' }
+                            ]}>
+                                <Ionicons name="headset" size={scale(24)} color="white" />
+                            </View>
+                            <View style={styles.mistakesContent}>
+                                <Text style={[styles.mistakesTitle, noMatchingWords && styles.lockedText]}>
+                                    Hands-Free
+                                </Text>
+                                <Text style={styles.mistakesSubtitle}>
+                                    Hear each question and answer out loud - great for walks or cooking
+                                </Text>
+                            </View>
+                            {!noMatchingWords && (
+                                <Ionicons name="chevron-forward" size={scale(20)} color="#16a085" />
+                            )}
+                        </TouchableOpacity>
+                    )}
+
+                    {/* Practice Stats */}
+                    {onOpenStats && (
+                        <TouchableOpacity
+                            style={[styles.mistakesCard, styles.statsCard]}
+                            onPress={onOpenStats}
+                            activeOpacity={0.8}
+                        >
+                            <View style={[styles.iconContainer, { backgroundColor: '#3498db' }]}>
+                                <Ionicons name="stats-chart" size={scale(24)} color="white" />
+                            </View>
+                            <View style={styles.mistakesContent}>
+                                <Text style={styles.mistakesTitle}>Your Stats</Text>
+                                <Text style={styles.mistakesSubtitle}>
+                                    Accuracy by language, question type and category
+                                </Text>
+                            </View>
+                            <Ionicons name="chevron-forward" size={scale(20)} color="#3498db" />
+                        </TouchableOpacity>
+                    )}
+
+                    {onOpenHistory && (
+                        <TouchableOpacity
+                            style={[styles.mistakesCard, styles.historyCard]}
+                            onPress={onOpenHistory}
+                            activeOpacity={0.8}
+                        >
+                            <View style={[styles.iconContainer, { backgroundColor: '#8e44ad' }]}>
+                                <Ionicons name="time" size={scale(24)} color="white" />
+                            </View>
+                            <View style={styles.mistakesContent}>
+                                <Text style={styles.mistakesTitle}>Session History</Text>
+                                <Text style={styles.mistakesSubtitle}>
+                                    Every answer of your past sessions, with the XP they earned
+                                </Text>
+                            </View>
+                            <Ionicons name="chevron-forward" size={scale(20)} color="#8e44ad" />
+                        </TouchableOpacity>
+                    )}
+
                     {/* Motivational Message */}
                     <View style={styles.motivationCard}>
                         <Ionicons name="bulb" size={scale(24)} color="#f39c12" />
@@ -280,6 +646,77 @@ const styles = StyleSheet.create({
         color: '#2c3e50',
         marginBottom: scale(20),
     },
+    sectionHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: scale(20),
+    },
+    sectionHeaderTitle: {
+        marginBottom: 0,
+    },
+    chipRow: {
+        gap: scale(8),
+    },
+    chipRowSpaced: {
+        marginTop: scale(10),
+    },
+    filterChip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: 'white',
+        paddingVertical: scale(8),
+        paddingHorizontal: scale(14),
+        borderRadius: scale(20),
+        borderWidth: scale(1.5),
+        borderColor: '#3498db',
+        gap: scale(4),
+    },
+    filterChipActive: {
+        backgroundColor: '#3498db',
+    },
+    filterChipText: {
+        fontSize: normalizeFont(14),
+        fontWeight: '600',
+        color: '#3498db',
+    },
+    filterChipTextActive: {
+        color: 'white',
+    },
+    matchingText: {
+        fontSize: normalizeFont(14),
+        color: '#7f8c8d',
+        marginTop: scale(12),
+    },
+    noMatchingText: {
+        color: '#e74c3c',
+    },
+    customWordsCard: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: '#f0f8ff',
+        borderRadius: scale(16),
+        borderWidth: scale(2),
+        borderColor: '#3498db',
+        padding: scale(16),
+        gap: scale(12),
+    },
+    customWordsContent: {
+        flex: 1,
+    },
+    customWordsTitle: {
+        fontSize: normalizeFont(18),
+        fontWeight: 'bold',
+        color: '#2c3e50',
+    },
+    customWordsSubtitle: {
+        fontSize: normalizeFont(14),
+        color: '#7f8c8d',
+        marginTop: scale(2),
+    },
+    customWordsClear: {
+        padding: scale(4),
+    },
     languageScroll: {
         marginHorizontal: scale(-20),
         paddingHorizontal: scale(20),
@@ -448,6 +885,96 @@ const styles = StyleSheet.create({
         fontSize: normalizeFont(16),
         fontWeight: '600',
     },
+    mistakesCard: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: 'white',
+        borderRadius: scale(20),
+        padding: scale(16),
+        marginTop: scale(16),
+        borderWidth: scale(2),
+        borderColor: '#9b59b6',
+        gap: scale(12),
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: scale(4) },
+        shadowOpacity: 0.1,
+        shadowRadius: scale(8),
+        elevation: 4,
+    },
+    statsCard: {
+        borderColor: '#3498db',
+    },
+    historyCard: {
+        borderColor: '#8e44ad',
+    },
+    handsFreeCard: {
+        borderColor: '#16a085',
+    },
+    learnCard: {
+        borderColor: '#27ae60',
+        marginTop: 0,
+        marginBottom: scale(16),
+    },
+    mistakesCardEmpty: {
+        borderColor: '#ecf0f1',
+        backgroundColor: '#f8f9fa',
+    },
+    mistakesContent: {
+        flex: 1,
+    },
+    mistakesTitle: {
+        fontSize: normalizeFont(18),
+        fontWeight: 'bold',
+        color: '#2c3e50',
+    },
+    mistakesSubtitle: {
+        fontSize: normalizeFont(14),
+        color: '#7f8c8d',
+        marginTop: scale(2),
+    },
+    speedRoundCard: {
+        backgroundColor: 'white',
+        borderRadius: scale(20),
+        padding: scale(16),
+        marginTop: scale(16),
+        borderWidth: scale(2),
+        borderColor: '#e67e22',
+        gap: scale(12),
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: scale(4) },
+        shadowOpacity: 0.1,
+        shadowRadius: scale(8),
+        elevation: 4,
+    },
+    speedRoundHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: scale(12),
+    },
+    speedRoundButtons: {
+        flexDirection: 'row',
+        gap: scale(12),
+    },
+    speedRoundButton: {
+        flex: 1,
+        alignItems: 'center',
+        backgroundColor: '#e67e22',
+        paddingVertical: scale(10),
+        borderRadius: scale(12),
+    },
+    lockedSpeedRoundButton: {
+        backgroundColor: '#bdc3c7',
+    },
+    speedRoundButtonText: {
+        color: 'white',
+        fontSize: normalizeFont(18),
+        fontWeight: 'bold',
+    },
+    speedRoundBestText: {
+        color: 'white',
+        fontSize: normalizeFont(12),
+        marginTop: scale(2),
+    },
     motivationCard: {
         flexDirection: 'row',
         alignItems: 'center',
@@ -2,6 +2,7 @@ import { supabase } from '../../database/config';
 import { LevelingService } from './LevelingService';
 import { CacheKeys, CACHE_CONFIG } from './CacheService';
 import { debugUtils } from '../utils/DebuggingUtils';
+import { getWordProficiency } from './practice/Mastery';
 
 export interface Achievement {
     id?: string;
@@ -398,7 +399,7 @@ export class AchievementService {
             let userWords: any[] = [];
             const { data: userWordsData, error: wordsError } = await supabase
                 .from('user_words')
-                .select('word_id, proficiency')
+                .select('word_id, proficiency, last_reviewed_at')
                 .eq('user_id', userId);
 
             if (wordsError) {
@@ -446,10 +447,11 @@ export class AchievementService {
             }
 
             const uniqueWordsLearned = userWords?.length || 0;
-            const masteredUniqueWords = userWords?.filter((w) => w.proficiency >= 80).length || 0;
+            const masteredUniqueWords =
+                userWords?.filter((w) => getWordProficiency(w) >= 80).length || 0;
             const averageProficiency =
                 uniqueWordsLearned > 0
-                    ? userWords!.reduce((sum, w) => sum + (w.proficiency || 0), 0) /
+                    ? userWords!.reduce((sum, w) => sum + getWordProficiency(w), 0) /
                       uniqueWordsLearned
                     : 0;
 
@@ -530,6 +532,43 @@ export class AchievementService {
         }
     }
 
+    /**
+     * Award an achievement earned by an event rather than by stats, e.g. in a practice session.
+     * Does nothing when the user already has it.
+     */
+    static async awardAchievementBySlug(userId: string, slug: string): Promise<boolean> {
+        try {
+            const { data: existing, error: existingError } = await supabase
+                .from('user_achievements')
+                .select('achievement_slug')
+                .eq('user_id', userId)
+                .eq('achievement_slug', slug)
+                .maybeSingle();
+
+            if (existingError) {
+                console.error('Error checking achievement:', existingError);
+                return false;
+            }
+            if (existing) return false;
+
+            const { data: achievement, error: achievementError } = await supabase
+                .from('achievements')
+                .select('*')
+                .eq('slug', slug)
+                .single();
+
+            if (achievementError || !achievement) {
+                console.error('Error fetching achievement:', achievementError);
+                return false;
+            }
+
+            return await this.awardAchievement(userId, achievement);
+        } catch (error) {
+            console.error('Error in awardAchievementBySlug:', error);
+            return false;
+        }
+    }
+
     /**
      * Get user's earned achievements only
      */
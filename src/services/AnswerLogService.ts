@@ -0,0 +1,233 @@
+import { supabase } from '../../database/config';
+
+/**
+ * One answered (or skipped) practice question
+ */
+export interface AnswerLogEntry {
+    id?: string;
+    sessionId: string;
+    userId: string;
+    userWordId: string;
+    language: string;
+    original: string;
+    questionType: string;
+    questionIndex: number;
+    userAnswer: string | null;
+    correctAnswer: string;
+    isCorrect: boolean;
+    gradeReason: string | null;
+    skipped: boolean;
+    timeSpentMs: number | null;
+    hintsUsed: number;
+    isRetry: boolean; // asked again after being missed earlier in the session
+    isFirstAnswer: boolean | null; // the word's first answer ever; null when logged before this was stored
+    proficiencyBefore: number | null;
+    proficiencyAfter: number | null;
+    answeredAt: string;
+}
+
+export interface AnswerLogQuery {
+    since?: Date;
+    limit?: number;
+    userWordId?: string;
+    language?: string;
+    questionType?: string;
+}
+
+type AnswerLogRow = {
+    id: string;
+    session_id: string;
+    user_id: string;
+    user_word_id: string;
+    language: string;
+    original: string;
+    question_type: string;
+    question_index: number;
+    user_answer: string | null;
+    correct_answer: string;
+    is_correct: boolean;
+    grade_reason: string | null;
+    skipped: boolean;
+    time_spent_ms: number | null;
+    hints_used: number | null;
+    is_retry: boolean | null;
+    is_first_answer: boolean | null;
+    proficiency_before: number | null;
+    proficiency_after: number | null;
+    answered_at: string;
+};
+
+// Rows per request; Supabase returns at most 1000 rows for one request
+const PAGE_SIZE = 1000;
+
+class AnswerLogService {
+    /**
+     * Persist a single answer to the quiz_answers log
+     */
+    async logAnswer(entry: AnswerLogEntry): Promise<boolean> {
+        try {
+            const { error } = await supabase.from('quiz_answers').insert({
+                session_id: entry.sessionId,
+                user_id: entry.userId,
+                user_word_id: entry.userWordId,
+                language: entry.language,
+                original: entry.original,
+                question_type: entry.questionType,
+                question_index: entry.questionIndex,
+                user_answer: entry.userAnswer,
+                correct_answer: entry.correctAnswer,
+                is_correct: entry.isCorrect,
+                grade_reason: entry.gradeReason,
+                skipped: entry.skipped,
+                time_spent_ms: entry.timeSpentMs,
+                hints_used: entry.hintsUsed,
+                is_retry: entry.isRetry,
+                is_first_answer: entry.isFirstAnswer,
+                proficiency_before: entry.proficiencyBefore,
+                proficiency_after: entry.proficiencyAfter,
+                answered_at: entry.answeredAt,
+            });
+
+            if (error) {
+                console.error('Error logging answer:', error);
+                return false;
+            }
+
+            return true;
+        } catch (error) {
+            console.error('Error logging answer:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Get all answers of a session in question order
+     */
+    async getSessionAnswers(sessionId: string): Promise<AnswerLogEntry[]> {
+        try {
+            const { data, error } = await supabase
+                .from('quiz_answers')
+                .select('*')
+                .eq('session_id', sessionId)
+                .order('question_index', { ascending: true });
+
+            if (error) {
+                console.error('Error fetching session answers:', error);
+                return [];
+            }
+
+            return (data || []).map((row) => this.mapRow(row));
+        } catch (error) {
+            console.error('Error fetching session answers:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Get a user's answers, newest first.
+     * Fetched a page at a time, so pass `since` or `limit` to keep long histories cheap.
+     */
+    async getUserAnswers(userId: string, query: AnswerLogQuery = {}): Promise<AnswerLogEntry[]> {
+        try {
+            const answers: AnswerLogEntry[] = [];
+
+            while (!query.limit || answers.length < query.limit) {
+                const pageSize = query.limit
+                    ? Math.min(PAGE_SIZE, query.limit - answers.length)
+                    : PAGE_SIZE;
+                let request = supabase.from('quiz_answers').select('*').eq('user_id', userId);
+
+                if (query.since) request = request.gte('answered_at', query.since.toISOString());
+                if (query.userWordId) request = request.eq('user_word_id', query.userWordId);
+                if (query.language) request = request.eq('language', query.language);
+                if (query.questionType) request = request.eq('question_type', query.questionType);
+
+                // Ordered by id as well so answers logged in the same instant don't move between pages
+                const { data, error } = await request
+                    .order('answered_at', { ascending: false })
+                    .order('id', { ascending: false })
+                    .range(answers.length, answers.length + pageSize - 1);
+
+                if (error) {
+                    console.error('Error fetching user answers:', error);
+                    return [];
+                }
+
+                answers.push(...(data || []).map((row) => this.mapRow(row)));
+                if (!data || data.length < pageSize) break;
+            }
+
+            return answers;
+        } catch (error) {
+            console.error('Error fetching user answers:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Get the answers given in the user's last `sessionCount` practice sessions, newest first
+     */
+    async getRecentSessionAnswers(userId: string, sessionCount: number): Promise<AnswerLogEntry[]> {
+        try {
+            const { data: sessions, error: sessionsError } = await supabase
+                .from('quiz_sessions')
+                .select('id')
+                .eq('user_id', userId)
+                .order('started_at', { ascending: false })
+                .limit(sessionCount);
+
+            if (sessionsError) {
+                console.error('Error fetching recent sessions:', sessionsError);
+                return [];
+            }
+
+            if (!sessions || sessions.length === 0) return [];
+
+            const { data, error } = await supabase
+                .from('quiz_answers')
+                .select('*')
+                .in(
+                    'session_id',
+                    sessions.map((session) => session.id),
+                )
+                .order('answered_at', { ascending: false });
+
+            if (error) {
+                console.error('Error fetching recent session answers:', error);
+                return [];
+            }
+
+            return (data || []).map((row) => this.mapRow(row));
+        } catch (error) {
+            console.error('Error fetching recent session answers:', error);
+            return [];
+        }
+    }
+
+    private mapRow(row: AnswerLogRow): AnswerLogEntry {
+        return {
+            id: row.id,
+            sessionId: row.session_id,
+            userId: row.user_id,
+            userWordId: row.user_word_id,
+            language: row.language,
+            original: row.original,
+            questionType: row.question_type,
+            questionIndex: row.question_index,
+            userAnswer: row.user_answer,
+            correctAnswer: row.correct_answer,
+            isCorrect: row.is_correct,
+            gradeReason: row.grade_reason,
+            skipped: row.skipped,
+            timeSpentMs: row.time_spent_ms,
+            hintsUsed: row.hints_used ?? 0,
+            isRetry: row.is_retry ?? false,
+            isFirstAnswer: row.is_first_answer,
+            proficiencyBefore: row.proficiency_before,
+            proficiencyAfter: row.proficiency_after,
+            answeredAt: row.answered_at,
+        };
+    }
+}
+
+export default new AnswerLogService();
@@ -0,0 +1,108 @@
+import { supabase } from '../../database/config';
+
+/**
+ * How often the user answered one word with another (a wrong option or typed answer that is another saved word)
+ */
+export interface WordConfusion {
+    userWordId: string;
+    confusedWithId: string; // user_word id of the word given instead
+    language: string;
+    count: number;
+    lastConfusedAt: string;
+}
+
+type WordConfusionRow = {
+    user_word_id: string;
+    confused_with_id: string;
+    language: string;
+    count: number;
+    last_confused_at: string;
+};
+
+class ConfusionService {
+    /**
+     * Count one more confusion of a word with another; both are user_word ids
+     */
+    async recordConfusion(
+        userId: string,
+        userWordId: string,
+        confusedWithId: string,
+        language: string,
+    ): Promise<boolean> {
+        try {
+            const { data: existing, error: fetchError } = await supabase
+                .from('word_confusions')
+                .select('id, count')
+                .eq('user_id', userId)
+                .eq('user_word_id', userWordId)
+                .eq('confused_with_id', confusedWithId)
+                .eq('language', language)
+                .maybeSingle();
+
+            if (fetchError) {
+                console.error('Error fetching word confusion:', fetchError);
+                return false;
+            }
+
+            const lastConfusedAt = new Date().toISOString();
+            const { error } = existing
+                ? await supabase
+                      .from('word_confusions')
+                      .update({ count: existing.count + 1, last_confused_at: lastConfusedAt })
+                      .eq('id', existing.id)
+                : await supabase.from('word_confusions').insert({
+                      user_id: userId,
+                      user_word_id: userWordId,
+                      confused_with_id: confusedWithId,
+                      language,
+                      count: 1,
+                      last_confused_at: lastConfusedAt,
+                  });
+
+            if (error) {
+                console.error('Error recording word confusion:', error);
+                return false;
+            }
+
+            return true;
+        } catch (error) {
+            console.error('Error recording word confusion:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Get the user's recorded confusions, most frequent first
+     */
+    async getConfusions(userId: string, language?: string): Promise<WordConfusion[]> {
+        try {
+            let request = supabase.from('word_confusions').select('*').eq('user_id', userId);
+
+            if (language) request = request.eq('language', language);
+
+            const { data, error } = await request.order('count', { ascending: false });
+
+            if (error) {
+                console.error('Error fetching word confusions:', error);
+                return [];
+            }
+
+            return (data || []).map((row) => this.mapRow(row));
+        } catch (error) {
+            console.error('Error fetching word confusions:', error);
+            return [];
+        }
+    }
+
+    private mapRow(row: WordConfusionRow): WordConfusion {
+        return {
+            userWordId: row.user_word_id,
+            confusedWithId: row.confused_with_id,
+            language: row.language,
+            count: row.count,
+            lastConfusedAt: row.last_confused_at,
+        };
+    }
+}
+
+export default new ConfusionService();
@@ -0,0 +1,206 @@
+import PracticeService, { QuizQuestion } from './PracticeService';
+import SpeechService from './SpeechService';
+import RecordingService from './RecordingService';
+import AudioManager from './AudioManager';
+import {
+    ANSWER_WINDOW_MS,
+    EVALUATION_TIMEOUT_MS,
+    MAX_SILENT_ANSWERS,
+    PAUSE_BETWEEN_QUESTIONS_MS,
+    RECORDING_START_TIMEOUT_MS,
+    RECORDING_STOP_TIMEOUT_MS,
+    SPEECH_TIMEOUT_MS,
+    SpokenLine,
+    getSpokenFeedback,
+    getSpokenSummary,
+    withTimeout,
+} from './practice/HandsFree';
+
+export type HandsFreePhase =
+    | 'idle'
+    | 'prompting'
+    | 'listening'
+    | 'grading'
+    | 'feedback'
+    | 'paused'
+    | 'finished';
+
+export interface HandsFreeState {
+    phase: HandsFreePhase;
+    question: QuizQuestion | null;
+    heard?: string; // what the last answer was transcribed as
+    lastCorrect?: boolean;
+    pauseReason?: 'user' | 'silence' | 'microphone';
+}
+
+/**
+ * Runs a hands-free session: reads each prompt aloud, records the spoken answer, grades
+ * it and says whether it was right, then moves on without the screen being touched.
+ */
+class HandsFreeService {
+    private state: HandsFreeState = { phase: 'idle', question: null };
+    private listener: ((state: HandsFreeState) => void) | null = null;
+    // Bumped on pause and stop; a loop whose run is no longer current gives up at its next step
+    private runId = 0;
+    private silentAnswers = 0;
+
+    /**
+     * Start, or resume, the loop at the active session's current question
+     */
+    async start(listener: (state: HandsFreeState) => void) {
+        const runId = ++this.runId;
+        this.listener = listener;
+        this.silentAnswers = 0;
+
+        if (!(await RecordingService.checkPermissions())) {
+            this.setState({ phase: 'paused', pauseReason: 'microphone' });
+            return;
+        }
+
+        await this.run(runId);
+    }
+
+    /**
+     * Stop at the current step; the question being asked is asked again on resume
+     */
+    async pause() {
+        this.runId++;
+        await this.interrupt();
+        this.setState({ phase: 'paused', pauseReason: 'user' });
+    }
+
+    /**
+     * Leave the loop for good, e.g. when the session is closed
+     */
+    async stop() {
+        this.runId++;
+        await this.interrupt();
+        this.listener = null;
+        this.state = { phase: 'idle', question: null };
+    }
+
+    private async interrupt() {
+        await SpeechService.stop();
+        if (RecordingService.isRecording) {
+            await withTimeout(RecordingService.stopRecording(), RECORDING_STOP_TIMEOUT_MS, null);
+        }
+    }
+
+    private async run(runId: number) {
+        const isCurrent = () => runId === this.runId;
+
+        // A question answered before a pause is not asked again
+        let question = PracticeService.getCurrentQuestion();
+        if (question?.userAnswer !== undefined) {
+            question = await PracticeService.nextQuestion();
+        }
+
+        while (question && isCurrent()) {
+            const answered = await this.askQuestion(question, isCurrent);
+            if (!answered || !isCurrent()) return;
+
+            if (this.silentAnswers >= MAX_SILENT_ANSWERS) {
+                await this.say(
+                    [{ text: 'Pausing. Tap resume when you are ready.', language: 'en' }],
+                    isCurrent,
+                );
+                if (isCurrent()) this.setState({ phase: 'paused', pauseReason: 'silence' });
+                return;
+            }
+
+            await new Promise((resolve) => setTimeout(resolve, PAUSE_BETWEEN_QUESTIONS_MS));
+            if (!isCurrent()) return;
+            question = await PracticeService.nextQuestion();
+        }
+
+        if (!isCurrent()) return;
+
+        const session = PracticeService.getCurrentSession();
+        this.setState({ phase: 'finished', question: null });
+        if (session) {
+            await this.say(
+                [getSpokenSummary(session.correctAnswers, session.totalQuestions)],
+                isCurrent,
+            );
+        }
+    }
+
+    /**
+     * Prompt, listen, grade and give feedback for one question.
+     * Returns false when the run was interrupted before the answer was submitted.
+     */
+    private async askQuestion(question: QuizQuestion, isCurrent: () => boolean): Promise<boolean> {
+        this.setState({ phase: 'prompting', question, heard: undefined, lastCorrect: undefined });
+        if (AudioManager.getCurrentMode() !== 'playback') {
+            await AudioManager.configureForPlayback();
+        }
+        await SpeechService.speakAndWait(
+            question.displayQuestion || question.word.original,
+            'en',
+            SPEECH_TIMEOUT_MS,
+        );
+        if (!isCurrent()) return false;
+
+        // Recording switches the audio session over; stopping it switches back to playback
+        this.setState({ phase: 'listening' });
+        const started = await withTimeout(
+            RecordingService.startRecording(),
+            RECORDING_START_TIMEOUT_MS,
+            false,
+        );
+        if (!isCurrent()) return false;
+        if (!started) {
+            this.runId++;
+            await this.interrupt();
+            this.setState({ phase: 'paused', pauseReason: 'microphone' });
+            return false;
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, ANSWER_WINDOW_MS));
+        if (!isCurrent()) return false;
+
+        this.setState({ phase: 'grading' });
+        const uri = await withTimeout(
+            RecordingService.stopRecording(),
+            RECORDING_STOP_TIMEOUT_MS,
+            null,
+        );
+        const evaluation = uri
+            ? await withTimeout(
+                  RecordingService.evaluatePronunciation(
+                      uri,
+                      question.correctAnswer,
+                      question.word.language,
+                  ),
+                  EVALUATION_TIMEOUT_MS,
+                  null,
+              )
+            : null;
+        if (!isCurrent()) return false;
+
+        const heard = evaluation?.transcription?.trim() || '';
+        this.silentAnswers = heard ? 0 : this.silentAnswers + 1;
+
+        const isCorrect = await PracticeService.submitAnswer(
+            evaluation?.isCorrect ? question.correctAnswer : heard || '__SKIPPED__',
+        );
+
+        this.setState({ phase: 'feedback', heard, lastCorrect: isCorrect });
+        await this.say(getSpokenFeedback(isCorrect, question.word), isCurrent);
+        return true;
+    }
+
+    private async say(lines: SpokenLine[], isCurrent: () => boolean) {
+        for (const line of lines) {
+            if (!isCurrent()) return;
+            await SpeechService.speakAndWait(line.text, line.language, SPEECH_TIMEOUT_MS);
+        }
+    }
+
+    private setState(update: Partial<HandsFreeState>) {
+        this.state = { ...this.state, ...update };
+        this.listener?.(this.state);
+    }
+}
+
+export default new HandsFreeService();
@@ -76,6 +76,49 @@ export async function getCompressedImageForUpload(uri, maxDimension = 1024) {
   }
 }
 
+/**
+ * Crop a detected object out of a photo as a small JPEG thumbnail
+ * bbox is normalized [x1, y1, x2, y2], as returned by ObjectDetectionService
+ */
+export async function getDetectionThumbnail(uri, bbox, maxDimension = 256) {
+  try {
+    // A no-op pass gives the photo's pixel size
+    const { width, height } = await ImageManipulator.manipulateAsync(uri, []);
+
+    // Keep a little of the surroundings so the object isn't cut off at the edges
+    const padding = 0.05;
+    const x1 = Math.max(0, bbox[0] - padding);
+    const y1 = Math.max(0, bbox[1] - padding);
+    const x2 = Math.min(1, bbox[2] + padding);
+    const y2 = Math.min(1, bbox[3] + padding);
+
+    const crop = {
+      originX: Math.floor(x1 * width),
+      originY: Math.floor(y1 * height),
+      width: Math.max(1, Math.floor((x2 - x1) * width)),
+      height: Math.max(1, Math.floor((y2 - y1) * height)),
+    };
+    const resize = crop.width > crop.height
+      ? { width: Math.min(maxDimension, crop.width) }
+      : { height: Math.min(maxDimension, crop.height) };
+
+    const result = await ImageManipulator.manipulateAsync(
+      uri,
+      [{ crop }, { resize }],
+      {
+        compress: 0.6,
+        format: ImageManipulator.SaveFormat.JPEG,
+        base64: false
+      }
+    );
+
+    return result.uri;
+  } catch (error) {
+    console.error('❌ Thumbnail crop failed:', error);
+    return null;
+  }
+}
+
 /**
  * Convert image to WebP format for maximum compression (when supported)
  * WebP provides 25-35% better compression than JPEG
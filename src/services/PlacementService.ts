@@ -0,0 +1,81 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from '../../database/config';
+import VocabularyService from './VocabularyService';
+import { PlacementSeed } from './practice/Placement';
+
+/**
+ * Offers the onboarding placement test to new accounts and saves the words it found the user knows
+ */
+class PlacementService {
+    private getDoneKey(userId: string): string {
+        return `placement_done_${userId}`;
+    }
+
+    /**
+     * Offer placement once, to users who haven't saved any words yet
+     */
+    async shouldOfferPlacement(userId: string): Promise<boolean> {
+        try {
+            if (await AsyncStorage.getItem(this.getDoneKey(userId))) return false;
+
+            const { count, error } = await supabase
+                .from('user_words')
+                .select('*', { count: 'exact', head: true })
+                .eq('user_id', userId);
+
+            if (error) {
+                console.error('Error counting words for placement:', error);
+                return false;
+            }
+
+            return (count ?? 0) === 0;
+        } catch (error) {
+            console.error('Error checking placement:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Don't offer placement again, whether it was taken or skipped
+     */
+    async markPlacementDone(userId: string) {
+        try {
+            await AsyncStorage.setItem(this.getDoneKey(userId), new Date().toISOString());
+        } catch (error) {
+            console.error('Error saving placement status:', error);
+        }
+    }
+
+    /**
+     * Save the known words of one language with their proficiency and review schedule.
+     * Returns how many were saved.
+     */
+    async seedKnownWords(
+        userId: string,
+        language: string,
+        seeds: PlacementSeed[],
+    ): Promise<number> {
+        if (seeds.length === 0) return 0;
+
+        try {
+            const result = await VocabularyService.saveMultipleWords(
+                seeds.map((seed) => ({
+                    original: seed.original,
+                    translation: seed.translation,
+                    example: '',
+                    exampleEnglish: '',
+                    known: { proficiency: seed.proficiency, schedule: seed.schedule },
+                })),
+                language,
+                userId,
+            );
+            VocabularyService.invalidateUserCountCaches(userId);
+            return result.savedWords.length;
+        } catch (error) {
+            console.error('Error seeding placement words:', error);
+            return 0;
+        }
+    }
+}
+
+export default new PlacementService();
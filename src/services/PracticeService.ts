@@ -4,19 +4,133 @@ import SpeechService from './SpeechService';
 import ExampleSentenceGenerator from './example-sentences/ExampleSentenceGenerator';
 import WordCategorizer from 'src/services/example-sentences/WordCategorizer.js';
 import TranslationService from './TranslationService';
+import AnswerLogService from './AnswerLogService';
+import ConfusionService from './ConfusionService';
+import { AchievementService } from './AchievementService';
+import { GradeResult, gradeAnswer, gradeChoice } from './practice/AnswerGrading';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+    DAILY_NEW_WORD_LIMIT,
+    ReviewQuality,
+    getReviewSchedule,
+    isNewWord,
+    scheduleReview,
+    selectNewWords,
+} from './practice/SpacedRepetition';
+import {
+    MAX_MISTAKE_REVIEW_QUESTIONS,
+    MISTAKE_REVIEW_SESSION_COUNT,
+    selectMistakeWordIds,
+} from './practice/MistakesReview';
+import { PracticeSessionSpec, filterVocabularyBySpec, getCategoryCounts } from './practice/SessionSpec';
+import { OptionField, pickDistractors } from './practice/Distractors';
+import { MatchPair, buildMatchingPairs, decodeMatches, gradeMatches } from './practice/Matching';
+import {
+    MAX_SENTENCE_TOKENS,
+    MIN_SENTENCE_TOKENS,
+    canSplitIntoWords,
+    gradeSentence,
+    parseExample,
+    tokenizeSentence,
+} from './practice/SentenceBuilding';
+import { DictationToken, gradeDictation } from './practice/Dictation';
+import { detectNounGender, getArticleOptions, splitNoun, withArticle } from './practice/NounGender';
+import {
+    SPEED_ROUND_BATCH_SIZE,
+    SPEED_ROUND_QUESTION_TYPES,
+    SpeedRoundBest,
+    SpeedRoundState,
+    getSpeedRoundLanguage,
+    scoreSpeedRound,
+} from './practice/SpeedRound';
+import {
+    PlannedQuestion,
+    QuestionType,
+    buildQuestionPlan,
+    createGenerationRandom,
+    createSeed,
+    planLearnQuestions,
+    planQuestionTypes,
+    shuffle,
+} from './practice/QuestionPlan';
+import { applyAnswer } from './practice/Mastery';
+import { getQuestionHints } from './practice/Hints';
+import { getSpokenPrompt } from './practice/HandsFree';
+import {
+    findConfusedWord,
+    getAnswerField,
+    getContrastPartners,
+    resolveConfusedPairs,
+} from './practice/Confusions';
+import {
+    MAX_RETRIES_PER_QUESTION,
+    PERFECTED_ON_RETRY_ACHIEVEMENT,
+    RetryScore,
+    isPerfectedOnRetry,
+    pickRetryType,
+    scoreRetries,
+} from './practice/RetryLoop';
+import { AccuracyStat, AccuracyTrend, STATS_HISTORY_DAYS, computeAnswerBreakdown } from './practice/AnswerStats';
+import {
+    ProficiencyChange,
+    SessionSummaryRow,
+    XPBreakdown,
+    buildSummaryRows,
+    getCompletionBonus,
+    getXPBreakdown,
+} from './practice/SessionSummary';
 
 export interface QuizQuestion {
     id: string;
-    type: 'translation' | 'reverse_translation' | 'multiple_choice' | 'listening' | 'typing' | 'context' | 'pronunciation' | 'recording';
+    type: QuestionType;
     word: SavedWord;
     options?: string[];
     correctAnswer: string;
     userAnswer?: string;
     isCorrect?: boolean;
     timeSpent?: number;
+    hintsUsed?: number; // hint tiers revealed, in HINT_TIERS order
     contextSentence?: string;
     displayQuestion?: string;
     recordingUri?: string;
+    grade?: GradeResult;
+    pairs?: MatchPair[]; // matching questions cover several words
+    tokens?: string[]; // shuffled tiles of a sentence-building question
+    diff?: DictationToken[]; // word-level result of a dictation question
+    contrastWord?: SavedWord; // the word a contrast question sets this one against
+    retryOf?: number; // index of the missed question this one asks again
+    attempt?: number; // retry number, from 1
+}
+
+export type PracticeMode = 'standard' | 'mistakes' | 'speed' | 'learn' | 'hands_free';
+
+// Interrupted sessions older than this are finalized instead of offered for resume
+const SESSION_RESUME_WINDOW_MS = 12 * 60 * 60 * 1000;
+
+// Question types answered by typing, graded with accent and typo tolerance
+const FREE_TEXT_QUESTION_TYPES: QuizQuestion['type'][] = ['typing'];
+
+// Picture questions with a longer translation offer options instead of a text field
+const MAX_TYPED_IMAGE_ANSWER_LENGTH = 20;
+
+// Recent answers searched for words the user mixed up, to use them as distractors
+const CONFUSION_HISTORY_LIMIT = 300;
+
+// Prepared hints and context sentences are regenerated after this long, for variety
+const PRACTICE_MATERIAL_MAX_AGE_MS = 14 * 24 * 60 * 60 * 1000;
+
+interface ContextSentence {
+    sentence: string; // target-language sentence with the word blanked out
+    english: string; // empty for template sentences
+}
+
+/**
+ * Generated sentences of a word, cached so sessions don't wait on the translation APIs
+ */
+interface PracticeMaterial {
+    hint?: string; // "target|english" example containing the word
+    context?: ContextSentence;
+    generatedAt: number;
 }
 
 export interface PracticeSession {
@@ -28,6 +142,22 @@ export interface PracticeSession {
     currentQuestion: number;
     questions: QuizQuestion[];
     isCompleted: boolean;
+    language?: string;
+    spec?: PracticeSessionSpec;
+    mode?: PracticeMode;
+    speedRound?: SpeedRoundState;
+    learnWords?: SavedWord[]; // introduced as cards before a learn session's questions
+    xpEarned?: number;
+    seed?: number; // replays the same question plan
+    retryScore?: RetryScore; // set when the session completes
+    xpBreakdown?: XPBreakdown; // set when the session completes
+}
+
+export interface SessionSpecPreview {
+    categories: { category: string; count: number }[];
+    matchingWordCount: number; // words in review
+    newWordCount: number; // words waiting to be introduced in learn mode
+    newWordsLeftToday: number;
 }
 
 export interface PracticeStats {
@@ -37,12 +167,58 @@ export interface PracticeStats {
     accuracy: number;
     streak: number;
     lastPracticeDate: string | null;
-    languageStats: Record<string, { practiced: number; correct: number }>;
+    languageStats: Record<string, AccuracyStat>;
+    questionTypeStats: Record<string, AccuracyStat>;
+    categoryStats: Record<string, AccuracyStat>;
+    trends: AccuracyTrend[];
     totalXP: number;
 }
 
+/**
+ * A finished session as listed in the session history
+ */
+export interface SessionHistoryEntry {
+    id: string;
+    startedAt: string;
+    score: number;
+    totalQuestions: number;
+    mode: PracticeMode | null; // null for sessions finished before the mode was stored
+    xpBreakdown: XPBreakdown | null;
+    seed: number | null; // null for sessions started before the seed was stored
+}
+
+export interface SessionSummary {
+    session: SessionHistoryEntry;
+    rows: SessionSummaryRow[];
+}
+
+type SessionHistoryRow = {
+    id: string;
+    started_at: string;
+    score: number | null;
+    total_questions: number | null;
+    mode: PracticeMode | null;
+    xp_breakdown: XPBreakdown | null;
+    seed: number | null;
+};
+
 class PracticeService {
     private currentSession: PracticeSession | null = null;
+    private questionStartedAt: number = 0;
+    private confusedAnswers: Map<string, string[]> = new Map();
+    // Words a running speed round keeps drawing questions from
+    private speedRoundPool: { words: SavedWord[]; vocabulary: SavedWord[] } | null = null;
+    // Answers of the running speed round still being saved
+    private pendingAnswerSaves: Promise<void>[] = [];
+    // Distractors for the retry questions added while a session runs
+    private sessionVocabulary: SavedWord[] = [];
+    private practiceMaterial: Map<string, PracticeMaterial> = new Map();
+    private materialQueue: SavedWord[] = [];
+    private isPreparingMaterial = false;
+    // Seeded from the session so its shuffles can be reproduced
+    private random: () => number = Math.random;
+    // The last session completed, whose summary may be opened before its row is saved
+    private completedSession: PracticeSession | null = null;
 
     /**
      * Get available languages for practice
@@ -68,29 +244,137 @@ class PracticeService {
     }
 
     /**
-     * Start a new practice session
+     * Load the vocabulary of the languages a spec covers (all languages if none are set)
+     */
+    private async getSpecVocabulary(userId: string, spec: PracticeSessionSpec): Promise<SavedWord[]> {
+        const languages = spec.languages || [];
+        if (languages.length === 1) {
+            return VocabularyService.getUserVocabulary(userId, languages[0]);
+        }
+
+        const vocabulary = await VocabularyService.getUserVocabulary(userId);
+        return languages.length > 0
+            ? vocabulary.filter(word => languages.includes(word.language))
+            : vocabulary;
+    }
+
+    /**
+     * Summarize what a spec would select, for the start screen
+     * Categories are counted before the category filter so every option stays visible
+     */
+    async previewSessionSpec(
+        userId: string,
+        spec: PracticeSessionSpec
+    ): Promise<SessionSpecPreview> {
+        try {
+            const vocabulary = await this.getSpecVocabulary(userId, spec);
+            const matching = filterVocabularyBySpec(vocabulary, spec);
+            const newWordCount = matching.filter(word => isNewWord(word)).length;
+            const newWordsToday = await this.getNewWordsIntroducedToday(userId);
+            return {
+                categories: getCategoryCounts(vocabulary),
+                // Hand-picked words are asked even before they are learned
+                matchingWordCount: spec.wordIds?.length ? matching.length : matching.length - newWordCount,
+                newWordCount,
+                newWordsLeftToday: Math.max(0, DAILY_NEW_WORD_LIMIT - newWordsToday)
+            };
+        } catch (error) {
+            console.error('Error previewing session spec:', error);
+            return { categories: [], matchingWordCount: 0, newWordCount: 0, newWordsLeftToday: 0 };
+        }
+    }
+
+    /**
+     * Get the words the user missed in recent sessions and has not yet answered
+     * correctly twice in a row, most recently missed first
+     */
+    async getMistakeWords(userId: string, spec: PracticeSessionSpec = {}): Promise<SavedWord[]> {
+        try {
+            const [vocabulary, answers] = await Promise.all([
+                this.getSpecVocabulary(userId, spec),
+                AnswerLogService.getRecentSessionAnswers(userId, MISTAKE_REVIEW_SESSION_COUNT)
+            ]);
+
+            const candidates = new Map(
+                filterVocabularyBySpec(vocabulary, spec).map(word => [word.id, word])
+            );
+
+            return selectMistakeWordIds(answers)
+                .map(wordId => candidates.get(wordId))
+                .filter((word): word is SavedWord => !!word);
+        } catch (error) {
+            console.error('Error getting mistake words:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Start a new practice session with the words selected by the spec
+     * In 'mistakes' mode only recently missed words are asked, one question each (up to questionCount)
+     * In 'learn' mode up to questionCount new words are introduced, then asked once each
+     * Other modes only ask words in review, unless the words were hand-picked
+     * Passing a seed replays the question plan of an earlier session with the same vocabulary
      */
     async startPracticeSession(
         userId: string, 
         questionCount: number = 10,
-        languageFilter?: string
+        spec: PracticeSessionSpec = {},
+        mode: PracticeMode = 'standard',
+        seed: number = createSeed()
     ): Promise<PracticeSession | null> {
         try {
             // Get user's vocabulary
-            const vocabulary = await VocabularyService.getUserVocabulary(userId, languageFilter);
+            const vocabulary = await this.getSpecVocabulary(userId, spec);
             
             if (vocabulary.length < 4) {
                 console.error('Not enough vocabulary for practice');
                 return null;
             }
 
+            const candidates = filterVocabularyBySpec(vocabulary, spec);
+            if (candidates.length === 0) {
+                console.error('No words match the session filters');
+                return null;
+            }
+
+            const reviewCandidates = spec.wordIds?.length
+                ? candidates
+                : candidates.filter(word => !isNewWord(word));
+            if ((mode === 'standard' || mode === 'speed' || mode === 'hands_free') && reviewCandidates.length === 0) {
+                console.error('No words in review yet, learn new words first');
+                return null;
+            }
+
+            let learnWords: SavedWord[] = [];
+            if (mode === 'learn') {
+                const newWordsLeft = DAILY_NEW_WORD_LIMIT - await this.getNewWordsIntroducedToday(userId);
+                learnWords = selectNewWords(candidates, Math.min(questionCount, newWordsLeft));
+                if (learnWords.length === 0) {
+                    console.error('No new words to learn today');
+                    return null;
+                }
+                questionCount = learnWords.length;
+            }
+
+            let mistakeWords: SavedWord[] = [];
+            if (mode === 'mistakes') {
+                mistakeWords = (await this.getMistakeWords(userId, spec))
+                    .slice(0, Math.min(questionCount, MAX_MISTAKE_REVIEW_QUESTIONS));
+                if (mistakeWords.length === 0) {
+                    console.error('No recent mistakes to review');
+                    return null;
+                }
+                questionCount = mistakeWords.length;
+            }
+
             // Create session in database
             const { data: sessionData, error } = await supabase
                 .from('quiz_sessions')
                 .insert({
                     user_id: userId,
                     started_at: new Date().toISOString(),
-                    score: 0
+                    score: 0,
+                    seed
                 })
                 .select()
                 .single();
@@ -100,8 +384,41 @@ class PracticeService {
                 return null;
             }
 
+            this.random = createGenerationRandom(seed);
+            this.sessionVocabulary = vocabulary;
+
+            // Words the user keeps mixing up are set against each other in contrast questions
+            const contrastPartners = mode === 'standard' || mode === 'mistakes'
+                ? getContrastPartners(resolveConfusedPairs(await ConfusionService.getConfusions(userId), vocabulary))
+                : new Map<string, SavedWord>();
+
+            let plan: PlannedQuestion[] = [];
+            if (mode === 'standard') {
+                // Let the spaced-repetition scheduler decide which words come up
+                plan = buildQuestionPlan(vocabulary, seed, spec, {
+                    questionCount,
+                    recordingAvailable: SpeechService.isAvailable(),
+                    contrastPartners
+                });
+            } else if (mode === 'learn') {
+                plan = planLearnQuestions(learnWords, this.random);
+            } else if (mode === 'mistakes') {
+                plan = planQuestionTypes(
+                    mistakeWords, vocabulary, questionCount, this.random, SpeechService.isAvailable(), contrastPartners
+                );
+            } else if (mode === 'hands_free') {
+                // Same words as a standard session, each asked to be said aloud
+                plan = buildQuestionPlan(vocabulary, seed, spec, { questionCount })
+                    .map(planned => ({ word: planned.word, type: 'spoken' as const }));
+            } else if (mode === 'speed') {
+                this.speedRoundPool = { words: shuffle(reviewCandidates, this.random), vocabulary };
+            }
+
             // Generate questions with variety
-            const questions = await this.generateVariedQuestions(vocabulary, questionCount);
+            this.confusedAnswers = await this.loadConfusedAnswers(userId);
+            const questions = mode === 'speed'
+                ? this.generateSpeedRoundQuestions(0, questionCount)
+                : await this.generateVariedQuestions(plan, vocabulary);
 
             this.currentSession = {
                 id: sessionData.id,
@@ -111,8 +428,15 @@ class PracticeService {
                 correctAnswers: 0,
                 currentQuestion: 0,
                 questions,
-                isCompleted: false
+                isCompleted: false,
+                language: spec.languages?.length === 1 ? spec.languages[0] : undefined,
+                spec,
+                mode,
+                seed,
+                learnWords: mode === 'learn' ? learnWords : undefined
             };
+            this.questionStartedAt = Date.now();
+            await this.persistSession();
 
             return this.currentSession;
         } catch (error) {
@@ -122,61 +446,259 @@ class PracticeService {
     }
 
     /**
-     * Generate varied questions for engagement
+     * Start a timed round: as many fast questions as the user can answer in durationSeconds
      */
-    private async generateVariedQuestions(vocabulary: SavedWord[], count: number): Promise<QuizQuestion[]> {
+    async startSpeedRound(
+        userId: string,
+        durationSeconds: number,
+        spec: PracticeSessionSpec = {}
+    ): Promise<PracticeSession | null> {
+        const session = await this.startPracticeSession(userId, SPEED_ROUND_BATCH_SIZE, spec, 'speed');
+        if (!session) return null;
+
+        const previousBest = (await this.getSpeedRoundBests(userId, spec))[durationSeconds];
+        session.speedRound = {
+            durationSeconds,
+            endsAt: Date.now() + durationSeconds * 1000,
+            combo: 0,
+            bestCombo: 0,
+            previousBest: previousBest?.score
+        };
+        await this.persistSession();
+
+        return session;
+    }
+
+    /**
+     * Generate the next questions of a speed round from its word pool
+     * Question ids carry their position, since words repeat once the pool runs out
+     */
+    private generateSpeedRoundQuestions(startIndex: number, count: number): QuizQuestion[] {
+        if (!this.speedRoundPool || this.speedRoundPool.words.length === 0) return [];
+
+        const { words, vocabulary } = this.speedRoundPool;
         const questions: QuizQuestion[] = [];
-        const usedWords = new Set<string>();
-        
-        // Define question type distribution for variety
-        const questionTypeDistribution = [
-            { type: 'translation' as const, weight: 0.2 },
-            { type: 'reverse_translation' as const, weight: 0.2 },
-            { type: 'multiple_choice' as const, weight: 0.15 },
-            { type: 'listening' as const, weight: 0.1 },
-            { type: 'context' as const, weight: 0.2 },
-            { type: 'pronunciation' as const, weight: 0.05 },
-            { type: 'typing' as const, weight: 0.05 },
-            { type: 'recording' as const, weight: 0.05 }
-        ];
 
-        // Helper to get random question type based on weights
-        const getRandomQuestionType = (): QuizQuestion['type'] => {
-            const random = Math.random();
-            let cumulativeWeight = 0;
-            
-            for (const { type, weight } of questionTypeDistribution) {
-                cumulativeWeight += weight;
-                if (random < cumulativeWeight) {
-                    return type;
+        for (let i = startIndex; i < startIndex + count; i++) {
+            const word = words[i % words.length];
+            const type = SPEED_ROUND_QUESTION_TYPES[Math.floor(this.random() * SPEED_ROUND_QUESTION_TYPES.length)];
+            const languageVocabulary = vocabulary.filter(w => w.language === word.language);
+
+            // No generated hints: they need the translation API and there is no time to read them
+            const question = type === 'translation'
+                ? this.createTranslationQuestion(word, languageVocabulary)
+                : type === 'reverse_translation'
+                    ? this.createReverseTranslationQuestion(word, languageVocabulary)
+                    : this.createMultipleChoiceQuestion(word, languageVocabulary);
+            questions.push({ ...question, id: `${question.id}_${i}` });
+        }
+
+        return questions;
+    }
+
+    /**
+     * End the running speed round (time is up or the user stopped) and score the answered questions
+     */
+    async finishSpeedRound() {
+        const session = this.currentSession;
+        if (!session || session.isCompleted || session.mode !== 'speed') return;
+
+        this.speedRoundPool = null;
+        await Promise.all(this.pendingAnswerSaves);
+        this.pendingAnswerSaves = [];
+        await this.closeInterruptedSession(session);
+    }
+
+    private getSpeedRoundBestsKey(userId: string): string {
+        return `practice_speed_round_bests_${userId}`;
+    }
+
+    /**
+     * Personal bests of the spec's language (or of mixed-language rounds), by round duration
+     */
+    async getSpeedRoundBests(userId: string, spec: PracticeSessionSpec): Promise<Record<number, SpeedRoundBest>> {
+        try {
+            const stored = await AsyncStorage.getItem(this.getSpeedRoundBestsKey(userId));
+            const bests: Record<string, Record<number, SpeedRoundBest>> = stored ? JSON.parse(stored) : {};
+            return bests[getSpeedRoundLanguage(spec)] || {};
+        } catch (error) {
+            console.error('Error reading speed round bests:', error);
+            return {};
+        }
+    }
+
+    /**
+     * Save the round's score if it beats the personal best; returns whether it did
+     */
+    private async recordSpeedRoundBest(
+        session: PracticeSession,
+        result: { score: number; bestCombo: number }
+    ): Promise<boolean> {
+        if (!session.speedRound || result.score === 0) return false;
+
+        try {
+            const key = this.getSpeedRoundBestsKey(session.userId);
+            const stored = await AsyncStorage.getItem(key);
+            const bests: Record<string, Record<number, SpeedRoundBest>> = stored ? JSON.parse(stored) : {};
+            const language = getSpeedRoundLanguage(session.spec || {});
+            const languageBests = bests[language] || {};
+            const previous = languageBests[session.speedRound.durationSeconds];
+
+            if (previous && previous.score >= result.score) return false;
+
+            languageBests[session.speedRound.durationSeconds] = {
+                score: result.score,
+                bestCombo: result.bestCombo,
+                achievedAt: new Date().toISOString()
+            };
+            bests[language] = languageBests;
+            await AsyncStorage.setItem(key, JSON.stringify(bests));
+            return true;
+        } catch (error) {
+            console.error('Error recording speed round best:', error);
+            return false;
+        }
+    }
+
+    private getMaterialKey(word: SavedWord): string {
+        return `practice_material_${word.language}_${word.original.toLowerCase()}_${word.translation.toLowerCase()}`;
+    }
+
+    /**
+     * Load a word's prepared material from memory or AsyncStorage; null when missing or expired
+     */
+    private async loadPracticeMaterial(word: SavedWord): Promise<PracticeMaterial | null> {
+        const key = this.getMaterialKey(word);
+        let material = this.practiceMaterial.get(key);
+
+        if (!material) {
+            try {
+                const stored = await AsyncStorage.getItem(key);
+                if (stored) {
+                    material = JSON.parse(stored) as PracticeMaterial;
+                    this.practiceMaterial.set(key, material);
                 }
+            } catch (error) {
+                console.error('Error reading practice material:', error);
             }
-            
-            return 'translation'; // Fallback
-        };
+        }
 
-        for (let i = 0; i < count; i++) {
-            // Select a random word that hasn't been used
-            let word: SavedWord;
-            do {
-                word = vocabulary[Math.floor(Math.random() * vocabulary.length)];
-            } while (usedWords.has(word.id) && usedWords.size < vocabulary.length);
-            
-            usedWords.add(word.id);
+        if (!material || Date.now() - material.generatedAt > PRACTICE_MATERIAL_MAX_AGE_MS) return null;
+        return material;
+    }
 
-            // Select question type
-            let type = getRandomQuestionType();
-            
-            // Validate question type for the word
-            if (type === 'recording' && !SpeechService.isAvailable()) {
-                type = 'pronunciation'; // Fallback if recording not available
+    private async savePracticeMaterial(word: SavedWord, material: PracticeMaterial) {
+        const key = this.getMaterialKey(word);
+        this.practiceMaterial.set(key, material);
+
+        try {
+            await AsyncStorage.setItem(key, JSON.stringify(material));
+        } catch (error) {
+            console.error('Error saving practice material:', error);
+        }
+    }
+
+    /**
+     * Hint and (if needed) context sentence of a word: prepared material first,
+     * live generation for whatever is missing, which is then cached too
+     */
+    private async getPracticeMaterial(
+        word: SavedWord,
+        needsContext: boolean
+    ): Promise<{ hint?: string; context?: ContextSentence }> {
+        const cached = await this.loadPracticeMaterial(word);
+        if (cached?.hint && (cached.context || !needsContext)) return cached;
+
+        const hint = cached?.hint || await this.generateProperHint(word);
+        const context = cached?.context || (needsContext ? await this.generateContextSentence(word) : undefined);
+        await this.savePracticeMaterial(word, {
+            hint,
+            context,
+            generatedAt: cached?.generatedAt ?? Date.now()
+        });
+
+        return { hint, context };
+    }
+
+    /**
+     * Generate hints and context sentences for the user's words in the background so
+     * sessions start from cached material. Words that already have material are skipped,
+     * so this is safe to call after every save or screen visit.
+     */
+    prepareMaterial(userId: string, language?: string, forceRefresh = false): void {
+        this.queueMaterial(userId, language, forceRefresh)
+            .catch(error => console.error('Error preparing practice material:', error));
+    }
+
+    private async queueMaterial(userId: string, language: string | undefined, forceRefresh: boolean) {
+        const vocabulary = await VocabularyService.getUserVocabulary(userId, language, forceRefresh);
+
+        for (const word of vocabulary) {
+            const key = this.getMaterialKey(word);
+            if (this.materialQueue.some(queued => this.getMaterialKey(queued) === key)) continue;
+
+            const material = await this.loadPracticeMaterial(word);
+            if (!material?.hint || !material.context) {
+                this.materialQueue.push(word);
+            }
+        }
+
+        await this.processMaterialQueue();
+    }
+
+    /**
+     * Work through the queue one word at a time; only one run is active at once
+     */
+    private async processMaterialQueue() {
+        if (this.isPreparingMaterial) return;
+        this.isPreparingMaterial = true;
+
+        try {
+            while (this.materialQueue.length > 0) {
+                const word = this.materialQueue.shift()!;
+                try {
+                    await this.getPracticeMaterial(word, true);
+                } catch (error) {
+                    console.error(`Error preparing practice material for "${word.original}":`, error);
+                }
             }
+        } finally {
+            this.isPreparingMaterial = false;
+        }
+    }
 
-            if (type === 'typing' && word.translation.length > 20) {
-                type = 'multiple_choice'; // Fallback for very long words
+    /**
+     * Generate the questions of a plan
+     * The full vocabulary of each word's language is used for distractors
+     */
+    private async generateVariedQuestions(
+        plan: PlannedQuestion[],
+        vocabulary: SavedWord[]
+    ): Promise<QuizQuestion[]> {
+        const questions: QuizQuestion[] = [];
+        const sessionWords = plan.map(planned => planned.word);
+
+        for (const { word, type: plannedType, contrastWith } of plan) {
+            let type = plannedType;
+
+            if (type === 'contrast' && contrastWith) {
+                questions.push(this.createContrastQuestion(word, contrastWith));
+                continue;
             }
-            
-            const question = await this.createQuestion(word, type, vocabulary);
+
+            // Distractors must come from the word's own language in mixed-language sessions
+            const languageVocabulary = vocabulary.filter(w => w.language === word.language);
+
+            if (type === 'matching') {
+                const matchingQuestion = this.createMatchingQuestion(word, sessionWords, languageVocabulary);
+                if (matchingQuestion) {
+                    questions.push(matchingQuestion);
+                    continue;
+                }
+                type = 'multiple_choice'; // Fallback when the language has too few distinct words
+            }
+
+            const question = await this.createQuestion(word, type, languageVocabulary);
             questions.push(question);
         }
 
@@ -191,11 +713,11 @@ class PracticeService {
         type: QuizQuestion['type'], 
         vocabulary: SavedWord[]
     ): Promise<QuizQuestion> {
-        // Generate proper example that includes the actual word
-        const properExample = await this.generateProperHint(word);
+        // Use the prepared example that includes the actual word (generated live if missing)
+        const material = await this.getPracticeMaterial(word, type === 'context');
         const fixedWord = {
             ...word,
-            example: properExample || word.example
+            example: material.hint || word.example
         };
         
         switch (type) {
@@ -208,13 +730,35 @@ class PracticeService {
             case 'listening':
                 return this.createListeningQuestion(fixedWord, vocabulary);
             case 'context':
-                return await this.createContextQuestionWithAPI(fixedWord, vocabulary);
+                return await this.createContextQuestionWithAPI(fixedWord, vocabulary, material.context);
             case 'pronunciation':
                 return this.createRecordingQuestion(fixedWord, vocabulary);
             case 'typing':
                 return this.createTypingQuestion(fixedWord);
             case 'recording':
                 return this.createRecordingQuestion(fixedWord, vocabulary);
+            case 'sentence_building':
+                // The saved example is preferred; the generated hint is the fallback
+                return this.createSentenceBuildingQuestion(word)
+                    || this.createSentenceBuildingQuestion(fixedWord)
+                    || this.createTranslationQuestion(fixedWord, vocabulary);
+            case 'dictation':
+                return this.createDictationQuestion(word)
+                    || this.createDictationQuestion(fixedWord)
+                    || this.createListeningQuestion(fixedWord, vocabulary);
+            case 'gender':
+                // Only nouns with a known gender in a gendered language can be drilled
+                return this.createGenderQuestion(fixedWord)
+                    || this.createMultipleChoiceQuestion(fixedWord, vocabulary);
+            case 'contrast':
+                // Contrast questions are planned with their partner word; without one, ask it plainly
+                return this.createMultipleChoiceQuestion(fixedWord, vocabulary);
+            case 'spoken':
+                return this.createSpokenQuestion(fixedWord);
+            case 'image':
+                // Only words captured with the camera have a photo to show
+                return this.createImageQuestion(fixedWord, vocabulary)
+                    || this.createMultipleChoiceQuestion(fixedWord, vocabulary);
             default:
                 return this.createTranslationQuestion(fixedWord, vocabulary);
         }
@@ -224,7 +768,7 @@ class PracticeService {
      * Create translation question (show original, select translation)
      */
     private createTranslationQuestion(word: SavedWord, vocabulary: SavedWord[]): QuizQuestion {
-        const options = this.generateOptions(word.translation, vocabulary, 'translation');
+        const options = this.generateOptions(word, vocabulary, 'translation');
         
         return {
             id: `${word.id}_translation`,
@@ -240,7 +784,7 @@ class PracticeService {
      * Create reverse translation question (show translation, select original)
      */
     private createReverseTranslationQuestion(word: SavedWord, vocabulary: SavedWord[]): QuizQuestion {
-        const options = this.generateOptions(word.original, vocabulary, 'original');
+        const options = this.generateOptions(word, vocabulary, 'original');
         
         return {
             id: `${word.id}_reverse`,
@@ -289,13 +833,37 @@ class PracticeService {
 
     /**
      * Create context question using example sentences
+     * The blanked sentence is passed in when it was prepared ahead of time
      */
-    private async createContextQuestionWithAPI(word: SavedWord, vocabulary: SavedWord[]): Promise<QuizQuestion> {
-        const category = WordCategorizer.getWordCategory(word.original);
+    private async createContextQuestionWithAPI(
+        word: SavedWord,
+        vocabulary: SavedWord[],
+        context?: ContextSentence
+    ): Promise<QuizQuestion> {
+        const displayQuestion = `Complete the sentence in ${this.getLanguageName(word.language)}:`;
+        const { sentence, english } = context || await this.generateContextSentence(word);
+
+        // Store the blanked sentence for both display and audio
+        word.example = `${sentence}|${english}`;
         
-        let contextSentence = '';
-        let displayQuestion = `Complete the sentence in ${this.getLanguageName(word.language)}:`;
+        // Generate options in target language
+        const options = this.generateOptions(word, vocabulary, 'translation');
         
+        return {
+            id: `${word.id}_context`,
+            type: 'context',
+            word,
+            options,
+            correctAnswer: word.translation,
+            contextSentence: sentence,
+            displayQuestion
+        };
+    }
+
+    /**
+     * Generate a sentence with the word blanked out, and its English version when there is one
+     */
+    private async generateContextSentence(word: SavedWord): Promise<ContextSentence> {
         try {
             // Use ExampleSentenceGenerator to get a proper example sentence
             // Use the English word (word.original) to get the example, then translate
@@ -319,34 +887,15 @@ class PracticeService {
                     new RegExp(`\\b${this.escapeRegex(word.translation)}\\b`, 'gi'),
                     '_____' 
                 );
-                contextSentence = blanked;
-                // Store the blanked sentence for both display and audio
-                word.example = `${blanked}|${example.english}`;
-            } else {
-                // Fall back to generating a varied sentence with blank
-                contextSentence = await this.generateVariedSentenceWithBlank(word);
-                // Store the blanked sentence for both display and audio
-                word.example = `${contextSentence}|`;
+                return { sentence: blanked, english: example.english };
             }
+
+            // Fall back to generating a varied sentence with blank
+            return { sentence: await this.generateVariedSentenceWithBlank(word), english: '' };
         } catch (error) {
             console.error('Error creating context question:', error);
-            contextSentence = await this.generateVariedSentenceWithBlank(word);
-            // Store the blanked sentence for both display and audio
-            word.example = `${contextSentence}|`;
+            return { sentence: await this.generateVariedSentenceWithBlank(word), english: '' };
         }
-        
-        // Generate options in target language
-        const options = this.generateOptions(word.translation, vocabulary, 'translation');
-        
-        return {
-            id: `${word.id}_context`,
-            type: 'context',
-            word,
-            options,
-            correctAnswer: word.translation,
-            contextSentence,
-            displayQuestion
-        };
     }
 
     // Add this helper method
@@ -359,7 +908,7 @@ class PracticeService {
             `We need to find a new ${word.original} before the party.`
         ];
         
-        const template = contextTemplates[Math.floor(Math.random() * contextTemplates.length)];
+        const template = contextTemplates[Math.floor(this.random() * contextTemplates.length)];
         
         try {
             const translated = await TranslationService.translateText(
@@ -389,7 +938,7 @@ class PracticeService {
         ];
         
         // Select a random template
-        const template = templates[Math.floor(Math.random() * templates.length)];
+        const template = templates[Math.floor(this.random() * templates.length)];
         
         try {
             const translated = await TranslationService.translateText(
@@ -699,7 +1248,7 @@ class PracticeService {
             langPatterns = patterns['es'];
         }
         
-        return langPatterns[Math.floor(Math.random() * langPatterns.length)];
+        return langPatterns[Math.floor(this.random() * langPatterns.length)];
     }
 
     private async generateProperHint(word: SavedWord): Promise<string | undefined> {
@@ -1146,7 +1695,7 @@ class PracticeService {
             `The ${word.original} is here.`
         ];
         
-        const template = simpleTemplates[Math.floor(Math.random() * simpleTemplates.length)];
+        const template = simpleTemplates[Math.floor(this.random() * simpleTemplates.length)];
         
         try {
             const translated = await TranslationService.translateText(
@@ -1206,11 +1755,106 @@ class PracticeService {
         };
     }
 
+    /**
+     * Create matching question (connect originals to translations on a 4-6 pair board)
+     */
+    private createMatchingQuestion(
+        word: SavedWord,
+        sessionWords: SavedWord[],
+        vocabulary: SavedWord[]
+    ): QuizQuestion | null {
+        const pairs = buildMatchingPairs(word, sessionWords, vocabulary);
+        if (!pairs) return null;
+
+        return {
+            id: `${word.id}_matching`,
+            type: 'matching',
+            word,
+            pairs,
+            options: shuffle(pairs.map(pair => pair.word.translation), this.random),
+            correctAnswer: pairs.map(pair => `${pair.word.original} = ${pair.word.translation}`).join(', '),
+            displayQuestion: `Match each word with its ${this.getLanguageName(word.language)} translation:`
+        };
+    }
+
+    /**
+     * Create sentence-building question (order the tiles of the example sentence)
+     * Returns null when the word has no usable example of a suitable length
+     */
+    private createSentenceBuildingQuestion(word: SavedWord): QuizQuestion | null {
+        const example = parseExample(word.example, word.exampleEnglish);
+        if (!example || !canSplitIntoWords(word.language)) return null;
+
+        const tokens = tokenizeSentence(example.sentence, word.language);
+        if (tokens.length < MIN_SENTENCE_TOKENS || tokens.length > MAX_SENTENCE_TOKENS) return null;
+
+        // Make sure the tiles don't start out in the right order
+        let shuffled = [...tokens];
+        for (let attempt = 0; attempt < 5 && shuffled.join(' ') === tokens.join(' '); attempt++) {
+            shuffled = shuffle(tokens, this.random);
+        }
+
+        return {
+            id: `${word.id}_sentence`,
+            type: 'sentence_building',
+            word,
+            tokens: shuffled,
+            correctAnswer: example.sentence,
+            contextSentence: example.english,
+            displayQuestion: `Build this sentence in ${this.getLanguageName(word.language)}:`
+        };
+    }
+
+    /**
+     * Create dictation question (hear the example sentence, type it)
+     * Returns null when the word has no usable example of a suitable length
+     */
+    private createDictationQuestion(word: SavedWord): QuizQuestion | null {
+        const example = parseExample(word.example, word.exampleEnglish);
+        if (!example || !canSplitIntoWords(word.language)) return null;
+
+        const wordCount = tokenizeSentence(example.sentence, word.language).length;
+        if (wordCount < MIN_SENTENCE_TOKENS || wordCount > MAX_SENTENCE_TOKENS) return null;
+
+        return {
+            id: `${word.id}_dictation`,
+            type: 'dictation',
+            word,
+            correctAnswer: example.sentence,
+            contextSentence: example.english,
+            displayQuestion: `Listen and type the ${this.getLanguageName(word.language)} sentence:`
+        };
+    }
+
+    /**
+     * Create gender question (pick the article that goes with the noun)
+     * Returns null when the word's gender is unknown or its language has no genders
+     */
+    private createGenderQuestion(word: SavedWord): QuizQuestion | null {
+        const gender = word.gender || detectNounGender(word.translation, word.language);
+        if (!gender) return null;
+
+        const { noun } = splitNoun(word.translation, word.language);
+        const options = getArticleOptions(noun, word.language);
+        const correct = options.find(option => option.gender === gender);
+        if (!correct) return null;
+
+        return {
+            id: `${word.id}_gender`,
+            type: 'gender',
+            word,
+            options: options.map(option => option.article),
+            correctAnswer: correct.article,
+            contextSentence: withArticle(correct.article, noun),
+            displayQuestion: `Which article goes with "${noun}"?`
+        };
+    }
+
     /**
      * Create multiple choice question
      */
     private createMultipleChoiceQuestion(word: SavedWord, vocabulary: SavedWord[]): QuizQuestion {
-        const options = this.generateOptions(word.translation, vocabulary, 'translation');
+        const options = this.generateOptions(word, vocabulary, 'translation');
         
         return {
             id: `${word.id}_multiple`,
@@ -1222,11 +1866,26 @@ class PracticeService {
         };
     }
 
+    /**
+     * Create contrast question (tell the word apart from the word it is often confused with)
+     */
+    private createContrastQuestion(word: SavedWord, confusedWith: SavedWord): QuizQuestion {
+        return {
+            id: `${word.id}_contrast`,
+            type: 'contrast',
+            word,
+            contrastWord: confusedWith,
+            options: shuffle([word.translation, confusedWith.translation], this.random),
+            correctAnswer: word.translation,
+            displayQuestion: `You've mixed these up before. Which one is "${word.original}" in ${this.getLanguageName(word.language)}?`
+        };
+    }
+
     /**
      * Create listening question
      */
     private createListeningQuestion(word: SavedWord, vocabulary: SavedWord[]): QuizQuestion {
-        const options = this.generateOptions(word.original, vocabulary, 'original');
+        const options = this.generateOptions(word, vocabulary, 'original');
         
         return {
             id: `${word.id}_listening`,
@@ -1252,40 +1911,75 @@ class PracticeService {
     }
 
     /**
-     * Generate options for multiple choice questions
+     * Create picture question (show the photo the word was captured from, type or pick its
+     * translation). Half are typed, unless the translation is too long to type.
      */
-    private generateOptions(
-        correct: string, 
-        vocabulary: SavedWord[], 
-        field: 'original' | 'translation'
-    ): string[] {
-        const options = [correct];
-        const used = new Set([correct.toLowerCase()]);
-        
-        // Get words in the same language for better distractors
-        const sameLanguageWords = vocabulary.filter(w => 
-            field === 'translation' ? w.language === vocabulary[0].language : true
-        );
-        
-        // Add 3 wrong options
-        while (options.length < 4 && sameLanguageWords.length > options.length) {
-            const randomWord = sameLanguageWords[Math.floor(Math.random() * sameLanguageWords.length)];
-            const option = randomWord[field];
-            
-            if (!used.has(option.toLowerCase())) {
-                options.push(option);
-                used.add(option.toLowerCase());
-            }
-        }
-        
-        // Shuffle options
-        return options.sort(() => Math.random() - 0.5);
-    }
+    private createImageQuestion(word: SavedWord, vocabulary: SavedWord[]): QuizQuestion | null {
+        if (!word.imageUrl) return null;
 
-    /**
-     * Get language name from code
-     */
-    private getLanguageName(code: string): string {
+        const displayQuestion = `What is this in ${this.getLanguageName(word.language)}?`;
+        const typed = word.translation.length <= MAX_TYPED_IMAGE_ANSWER_LENGTH && this.random() < 0.5;
+
+        return {
+            id: `${word.id}_image`,
+            type: 'image',
+            word,
+            options: typed ? undefined : this.generateOptions(word, vocabulary, 'translation'),
+            correctAnswer: word.translation,
+            displayQuestion
+        };
+    }
+
+    /**
+     * Create spoken question (say the translation aloud, for hands-free sessions)
+     */
+    private createSpokenQuestion(word: SavedWord): QuizQuestion {
+        return {
+            id: `${word.id}_spoken`,
+            type: 'spoken',
+            word,
+            correctAnswer: word.translation,
+            displayQuestion: getSpokenPrompt(word, this.getLanguageName(word.language))
+        };
+    }
+
+    /**
+     * Generate options for multiple choice questions
+     */
+    private generateOptions(
+        word: SavedWord, 
+        vocabulary: SavedWord[], 
+        field: OptionField
+    ): string[] {
+        const distractors = pickDistractors(word, vocabulary, field, {
+            confusedWith: this.confusedAnswers.get(word.id),
+            random: this.random
+        });
+        
+        // Shuffle options
+        return shuffle([word[field], ...distractors], this.random);
+    }
+
+    /**
+     * Collect the wrong answers each word was given recently, keyed by SavedWord id
+     */
+    private async loadConfusedAnswers(userId: string): Promise<Map<string, string[]>> {
+        const confused = new Map<string, string[]>();
+        const answers = await AnswerLogService.getUserAnswers(userId, { limit: CONFUSION_HISTORY_LIMIT });
+
+        for (const answer of answers) {
+            if (answer.isCorrect || answer.skipped || !answer.userAnswer) continue;
+            const wordId = `${answer.userWordId}_${answer.language}`;
+            confused.set(wordId, [...(confused.get(wordId) || []), answer.userAnswer]);
+        }
+
+        return confused;
+    }
+
+    /**
+     * Get language name from code
+     */
+    getLanguageName(code: string): string {
         const languages: Record<string, string> = {
             'ar': 'Arabic',
             'bn': 'Bengali',
@@ -1344,64 +2038,448 @@ class PracticeService {
             return false;
         }
 
-        const currentQuestion = this.currentSession.questions[this.currentSession.currentQuestion];
+        // Read before anything is awaited: the session may move on while the answer is saved
+        const questionIndex = this.currentSession.currentQuestion;
+        const currentQuestion = this.currentSession.questions[questionIndex];
         currentQuestion.userAnswer = answer;
-        currentQuestion.isCorrect = answer.toLowerCase().trim() === currentQuestion.correctAnswer.toLowerCase().trim();
+        currentQuestion.timeSpent = Date.now() - this.questionStartedAt;
+
+        if (currentQuestion.type === 'matching') {
+            return this.submitMatchingAnswer(currentQuestion, questionIndex, answer);
+        }
+
+        currentQuestion.grade = this.gradeQuestion(currentQuestion, answer);
+        currentQuestion.isCorrect = currentQuestion.grade.verdict === 'correct';
         
-        if (currentQuestion.isCorrect) {
+        // Only first tries count toward the score; retries are scored when the session completes
+        if (currentQuestion.isCorrect && currentQuestion.retryOf === undefined) {
             this.currentSession.correctAnswers++;
-            
-            // Update word proficiency
-            const newProficiency = Math.min(100, currentQuestion.word.proficiency + 10);
-            await VocabularyService.updateProficiency(currentQuestion.word.id, newProficiency);
+        }
+        if (!currentQuestion.isCorrect) {
+            this.queueRetry(currentQuestion, currentQuestion.word, questionIndex);
+        }
+
+        const speedRound = this.currentSession.speedRound;
+        if (speedRound) {
+            speedRound.combo = currentQuestion.isCorrect ? speedRound.combo + 1 : 0;
+            speedRound.bestCombo = Math.max(speedRound.bestCombo, speedRound.combo);
+        }
+
+        // Partial credit for accent slips, missing articles and small typos
+        const newProficiency = applyAnswer(currentQuestion.word.proficiency, {
+            type: currentQuestion.type,
+            credit: currentQuestion.grade.verdict === 'wrong' ? 0 : currentQuestion.grade.credit,
+            timeSpent: currentQuestion.timeSpent,
+            hintsUsed: currentQuestion.hintsUsed
+        });
+        // Learn mode is low-stakes: a word just introduced doesn't lose proficiency
+        const isLowStakes = this.currentSession.mode === 'learn';
+        const proficiencyChange: ProficiencyChange = {
+            before: currentQuestion.word.proficiency,
+            after: isLowStakes ? Math.max(currentQuestion.word.proficiency, newProficiency) : newProficiency
+        };
+
+        const saving = this.saveAnswer(currentQuestion, questionIndex, answer, proficiencyChange);
+        if (speedRound) {
+            // The round's clock keeps running: save in the background so the time measures the user
+            this.pendingAnswerSaves.push(saving);
         } else {
-            // Decrease proficiency slightly for wrong answers
-            const newProficiency = Math.max(0, currentQuestion.word.proficiency - 5);
-            await VocabularyService.updateProficiency(currentQuestion.word.id, newProficiency);
+            await saving;
         }
 
         return currentQuestion.isCorrect;
     }
 
+    /**
+     * Save a graded answer: the word's proficiency and review schedule, the answer log
+     * and the session's resume state
+     */
+    private async saveAnswer(
+        question: QuizQuestion,
+        questionIndex: number,
+        answer: string,
+        proficiencyChange: ProficiencyChange
+    ) {
+        try {
+            const isFirstAnswer = isNewWord(question.word);
+            await this.updateProficiency(question.word, proficiencyChange.after);
+            await this.updateReviewSchedule(question.word, this.getReviewQuality(question));
+            await this.logAnswer(question, questionIndex, proficiencyChange, isFirstAnswer);
+            if (question.grade?.verdict === 'wrong') {
+                await this.recordConfusion(
+                    question.word,
+                    answer,
+                    getAnswerField(question.word, question.correctAnswer)
+                );
+            }
+            await this.persistSession();
+        } catch (error) {
+            console.error('Error saving answer:', error);
+        }
+    }
+
+    /**
+     * The new-word cards of a learn session were read; time the first question from now
+     */
+    finishLearnCards() {
+        this.questionStartedAt = Date.now();
+    }
+
+    /**
+     * Save a word's new proficiency, and use it for the word's later questions in this session
+     */
+    private async updateProficiency(word: SavedWord, proficiency: number) {
+        for (const question of this.currentSession?.questions || []) {
+            if (question.word.id === word.id) question.word.proficiency = proficiency;
+            for (const pair of question.pairs || []) {
+                if (pair.word.id === word.id) pair.word.proficiency = proficiency;
+            }
+        }
+
+        await VocabularyService.updateProficiency(word.id, proficiency);
+    }
+
+    /**
+     * Note that the next hint tier of the current question was revealed.
+     * Each hint lowers the XP and proficiency a correct answer earns.
+     */
+    recordHintUsed() {
+        const question = this.currentSession?.questions[this.currentSession.currentQuestion];
+        if (!question || question.userAnswer !== undefined) return;
+
+        question.hintsUsed = Math.min((question.hintsUsed || 0) + 1, getQuestionHints(question).length);
+        this.persistSession();
+    }
+
+    /**
+     * Vocabulary of the active session's spec; a resumed session loads it on first use
+     */
+    private async getSessionVocabulary(): Promise<SavedWord[]> {
+        if (this.currentSession && this.sessionVocabulary.length === 0) {
+            this.sessionVocabulary = await this.getSpecVocabulary(
+                this.currentSession.userId,
+                this.currentSession.spec || {}
+            );
+        }
+        return this.sessionVocabulary;
+    }
+
+    /**
+     * Remember which other saved word a wrong answer was, so the two can be practiced side by side
+     */
+    private async recordConfusion(word: SavedWord, answer: string | undefined, field: OptionField | null) {
+        if (!this.currentSession || !answer || answer === '__SKIPPED__' || !field) return;
+
+        const confusedWith = findConfusedWord(answer, word, await this.getSessionVocabulary(), field);
+        if (!confusedWith) return;
+
+        await ConfusionService.recordConfusion(
+            this.currentSession.userId,
+            word.id.split('_')[0],
+            confusedWith.id.split('_')[0],
+            word.language
+        );
+    }
+
+    /**
+     * Ask a missed word again at the end of the session, as a different question type.
+     * Hands-free sessions can only ask spoken questions, so they ask the same again.
+     * Speed rounds move on instead; their clock leaves no room for retries.
+     * Queued right when the answer is graded, so it can't miss the end of the session.
+     */
+    private queueRetry(question: QuizQuestion, word: SavedWord, questionIndex: number) {
+        const session = this.currentSession;
+        if (!session || session.isCompleted || session.mode === 'speed') return;
+
+        const attempt = (question.attempt || 0) + 1;
+        if (attempt > MAX_RETRIES_PER_QUESTION) return;
+
+        const type = session.mode === 'hands_free' ? 'spoken' : pickRetryType(question.type, word, this.random);
+        const retry = this.createRetryQuestion(word, type);
+
+        session.questions.push({
+            ...retry,
+            id: `${retry.id}_retry${attempt}`,
+            retryOf: question.retryOf ?? questionIndex,
+            attempt
+        });
+        session.totalQuestions = session.questions.length;
+    }
+
+    /**
+     * Build a retry from what the session already has, without generating material:
+     * the word as it was asked (with its prepared example), and distractors from the
+     * session's vocabulary, or from the session's own words after a resume
+     */
+    private createRetryQuestion(word: SavedWord, type: QuestionType): QuizQuestion {
+        const sessionWords = this.sessionVocabulary.length > 0
+            ? this.sessionVocabulary
+            : (this.currentSession?.questions || []).flatMap(q => [q.word, ...(q.pairs || []).map(pair => pair.word)]);
+        const vocabulary = sessionWords.filter(w => w.language === word.language);
+
+        switch (type) {
+            case 'reverse_translation':
+                return this.createReverseTranslationQuestion(word, vocabulary);
+            case 'multiple_choice':
+                return this.createMultipleChoiceQuestion(word, vocabulary);
+            case 'listening':
+                return this.createListeningQuestion(word, vocabulary);
+            case 'typing':
+                return this.createTypingQuestion(word);
+            case 'spoken':
+                return this.createSpokenQuestion(word);
+            default:
+                return this.createTranslationQuestion(word, vocabulary);
+        }
+    }
+
+    private gradeQuestion(question: QuizQuestion, answer: string): GradeResult {
+        if (question.type === 'sentence_building') {
+            return gradeSentence(answer, question.correctAnswer, question.word.language);
+        }
+        if (question.type === 'dictation') {
+            const { grade, diff } = gradeDictation(answer, question.correctAnswer, question.word.language);
+            question.diff = diff;
+            return grade;
+        }
+        // Picture questions without options are typed
+        const isFreeText = FREE_TEXT_QUESTION_TYPES.includes(question.type)
+            || (question.type === 'image' && !question.options);
+        return isFreeText
+            ? gradeAnswer(answer, question.correctAnswer, question.word.language)
+            : gradeChoice(answer, question.correctAnswer);
+    }
+
+    /**
+     * Grade a matching board pair by pair; each pair's word is updated and logged on its own
+     */
+    private async submitMatchingAnswer(question: QuizQuestion, questionIndex: number, answer: string): Promise<boolean> {
+        if (!this.currentSession) return false;
+
+        const skipped = answer === '__SKIPPED__';
+        const pairs = question.pairs || [];
+        question.grade = gradeMatches(pairs, skipped ? {} : decodeMatches(answer));
+        if (skipped) {
+            question.grade = { ...question.grade, verdict: 'wrong', reason: 'skipped' };
+        }
+        question.isCorrect = question.grade.verdict === 'correct';
+
+        if (question.isCorrect && question.retryOf === undefined) {
+            this.currentSession.correctAnswers++;
+        }
+        const missedPairs = pairs.filter(pair => !pair.isCorrect);
+        for (const pair of missedPairs) {
+            this.queueRetry(question, pair.word, questionIndex);
+        }
+
+        for (const pair of pairs) {
+            const proficiencyChange: ProficiencyChange = {
+                before: pair.word.proficiency,
+                after: applyAnswer(pair.word.proficiency, {
+                    type: 'matching',
+                    credit: pair.isCorrect ? 1 : 0,
+                    timeSpent: question.timeSpent !== undefined ? question.timeSpent / pairs.length : undefined
+                })
+            };
+            const isFirstAnswer = isNewWord(pair.word);
+            await this.updateProficiency(pair.word, proficiencyChange.after);
+            await this.updateReviewSchedule(pair.word, skipped ? 0 : pair.isCorrect ? 4 : 1);
+            await this.logAnswer(question, questionIndex, proficiencyChange, isFirstAnswer, pair);
+        }
+
+        for (const pair of missedPairs) {
+            await this.recordConfusion(pair.word, pair.userMatch, 'translation');
+        }
+        await this.persistSession();
+
+        return question.isCorrect;
+    }
+
+    /**
+     * Record the answered question in the per-question answer log
+     * Matching boards log one row per pair
+     */
+    private async logAnswer(
+        question: QuizQuestion,
+        questionIndex: number,
+        proficiencyChange: ProficiencyChange,
+        isFirstAnswer: boolean,
+        pair?: MatchPair
+    ) {
+        if (!this.currentSession) return;
+
+        const skipped = question.userAnswer === '__SKIPPED__';
+        const word = pair ? pair.word : question.word;
+        const userAnswer = pair ? pair.userMatch : question.userAnswer;
+        const isCorrect = pair ? pair.isCorrect : question.isCorrect;
+        const gradeReason = pair
+            ? (skipped ? 'skipped' : pair.isCorrect ? 'exact' : 'mismatch')
+            : question.grade?.reason;
+
+        await AnswerLogService.logAnswer({
+            sessionId: this.currentSession.id,
+            userId: this.currentSession.userId,
+            userWordId: word.id.split('_')[0],
+            language: word.language,
+            original: word.original,
+            questionType: question.type,
+            questionIndex,
+            userAnswer: skipped ? null : userAnswer ?? null,
+            correctAnswer: pair ? pair.word.translation : question.correctAnswer,
+            isCorrect: !!isCorrect,
+            gradeReason: gradeReason ?? null,
+            skipped,
+            timeSpentMs: question.timeSpent ?? null,
+            hintsUsed: pair ? 0 : question.hintsUsed ?? 0,
+            isRetry: question.retryOf !== undefined,
+            isFirstAnswer,
+            proficiencyBefore: proficiencyChange.before,
+            proficiencyAfter: proficiencyChange.after,
+            answeredAt: new Date().toISOString()
+        });
+    }
+
+    /**
+     * Map an answered question to an SM-2 review quality
+     */
+    private getReviewQuality(question: QuizQuestion): ReviewQuality {
+        if (question.userAnswer === '__SKIPPED__') return 0;
+        if (question.grade?.verdict === 'almost_correct') return 3;
+        return question.isCorrect ? 4 : 1;
+    }
+
+    /**
+     * Advance the spaced-repetition schedule of a word
+     */
+    private async updateReviewSchedule(word: SavedWord, quality: ReviewQuality) {
+        if (!this.currentSession) return;
+
+        const wasNew = isNewWord(word);
+        const schedule = scheduleReview(getReviewSchedule(word), quality);
+
+        // Keep the in-memory word in sync in case it comes up again this session
+        word.easeFactor = schedule.easeFactor;
+        word.reviewInterval = schedule.interval;
+        word.reviewRepetitions = schedule.repetitions;
+        word.nextReviewAt = schedule.nextReviewAt;
+        word.lastReviewedAt = schedule.lastReviewedAt;
+
+        await VocabularyService.updateReviewSchedule(word.id, schedule);
+
+        if (wasNew) {
+            await this.recordNewWordIntroduced(this.currentSession.userId);
+        }
+    }
+
+    private getNewWordsKey(userId: string): string {
+        return `practice_new_words_${userId}_${new Date().toDateString()}`;
+    }
+
+    /**
+     * Number of new words the user has started reviewing today
+     */
+    private async getNewWordsIntroducedToday(userId: string): Promise<number> {
+        try {
+            const stored = await AsyncStorage.getItem(this.getNewWordsKey(userId));
+            return stored ? parseInt(stored, 10) || 0 : 0;
+        } catch (error) {
+            console.error('Error reading new word count:', error);
+            return 0;
+        }
+    }
+
+    private async recordNewWordIntroduced(userId: string) {
+        try {
+            const count = await this.getNewWordsIntroducedToday(userId);
+            await AsyncStorage.setItem(this.getNewWordsKey(userId), String(count + 1));
+        } catch (error) {
+            console.error('Error recording new word count:', error);
+        }
+    }
+
     /**
      * Move to next question
+     * After the last one the session is completed, its XP and score saved, before null is returned
      */
-    nextQuestion(): QuizQuestion | null {
-        if (!this.currentSession) return null;
+    async nextQuestion(): Promise<QuizQuestion | null> {
+        if (!this.currentSession || this.currentSession.isCompleted) return null;
         
         this.currentSession.currentQuestion++;
+
+        // A speed round never runs out of questions; it ends when its time is up
+        if (this.currentSession.mode === 'speed' && this.currentSession.currentQuestion >= this.currentSession.questions.length) {
+            this.currentSession.questions.push(
+                ...this.generateSpeedRoundQuestions(this.currentSession.questions.length, SPEED_ROUND_BATCH_SIZE)
+            );
+            this.currentSession.totalQuestions = this.currentSession.questions.length;
+        }
         
         if (this.currentSession.currentQuestion >= this.currentSession.totalQuestions) {
-            this.completeSession();
+            await this.completeSession();
             return null;
         }
         
+        this.questionStartedAt = Date.now();
+        this.persistSession();
         return this.currentSession.questions[this.currentSession.currentQuestion];
     }
 
     /**
-     * Complete the current session
+     * Complete a session: store the score, award XP and update the streak
+     * Interrupted sessions are finalized without the completion bonus
      */
-    private async completeSession() {
-        if (!this.currentSession) return;
+    private async completeSession(
+        session: PracticeSession | null = this.currentSession,
+        options: { completionBonus?: boolean } = {}
+    ) {
+        if (!session) return;
         
-        this.currentSession.isCompleted = true;
+        session.isCompleted = true;
+
+        // Retries are not questions of their own: the score is over the original questions
+        if (!session.speedRound) {
+            session.retryScore = scoreRetries(session.questions);
+            session.totalQuestions = session.retryScore.questions;
+            session.correctAnswers = session.retryScore.firstTry;
+        }
         
-        // Calculate XP earned
-        const correctAnswers = this.currentSession.correctAnswers;
-        const totalQuestions = this.currentSession.totalQuestions;
-        const baseXP = correctAnswers * 10;
-        const bonusXP = totalQuestions === 20 ? 100 : totalQuestions === 10 ? 20 : 0;
-        const totalXP = baseXP + bonusXP;
+        // Calculate XP earned before anything is awaited, so the session is never seen
+        // completed without its XP
+        const correctAnswers = session.correctAnswers;
+        const totalQuestions = session.totalQuestions;
+        // Speed rounds pay per answer with a combo multiplier instead of a completion bonus
+        const speedRoundResult = session.speedRound ? scoreSpeedRound(session.questions) : null;
+        if (session.speedRound && speedRoundResult) {
+            session.speedRound.bestCombo = speedRoundResult.bestCombo;
+        }
+        session.xpBreakdown = getXPBreakdown(session.questions, {
+            speedRound: !!session.speedRound,
+            retryScore: session.retryScore,
+            completionBonus: options.completionBonus === false ? 0 : getCompletionBonus(totalQuestions)
+        });
+        const totalXP = session.xpBreakdown.total;
+        session.xpEarned = totalXP;
+        this.completedSession = session;
+
+        if (session.speedRound && speedRoundResult) {
+            session.speedRound.isNewBest = await this.recordSpeedRoundBest(session, speedRoundResult);
+        }
+        if (session.retryScore && isPerfectedOnRetry(session.retryScore)) {
+            await AchievementService.awardAchievementBySlug(session.userId, PERFECTED_ON_RETRY_ACHIEVEMENT);
+        }
+
+        await this.clearPersistedSession(session.userId);
         
         // Update session in database with correct score and total questions
         const { error: sessionError } = await supabase
             .from('quiz_sessions')
             .update({
                 score: correctAnswers,
-                total_questions: totalQuestions
+                total_questions: totalQuestions,
+                mode: session.mode || 'standard',
+                xp_breakdown: session.xpBreakdown
             })
-            .eq('id', this.currentSession.id);
+            .eq('id', session.id);
 
         if (sessionError) {
             console.error('Error updating session:', sessionError);
@@ -1412,10 +2490,10 @@ class PracticeService {
             const { error: xpError } = await supabase
                 .from('user_xp')
                 .insert({
-                    user_id: this.currentSession.userId,
+                    user_id: session.userId,
                     xp_earned: totalXP,
                     source: 'practice',
-                    session_id: this.currentSession.id
+                    session_id: session.id
                 });
             
             if (xpError) {
@@ -1424,7 +2502,132 @@ class PracticeService {
         }
         
         // Update user streak
-        await this.updateUserStreak(this.currentSession.userId);
+        await this.updateUserStreak(session.userId);
+
+        // Drop cached vocabulary so the next session sees the new review schedule
+        VocabularyService.invalidateUserCountCaches(session.userId);
+    }
+
+    private getSessionStorageKey(userId: string): string {
+        return `practice_active_session_${userId}`;
+    }
+
+    /**
+     * Save the active session so it survives the app being killed
+     */
+    private async persistSession() {
+        if (!this.currentSession || this.currentSession.isCompleted) return;
+
+        try {
+            await AsyncStorage.setItem(
+                this.getSessionStorageKey(this.currentSession.userId),
+                JSON.stringify({ session: this.currentSession, savedAt: Date.now() })
+            );
+        } catch (error) {
+            console.error('Error persisting practice session:', error);
+        }
+    }
+
+    private async clearPersistedSession(userId: string) {
+        try {
+            await AsyncStorage.removeItem(this.getSessionStorageKey(userId));
+        } catch (error) {
+            console.error('Error clearing persisted practice session:', error);
+        }
+    }
+
+    /**
+     * Load the session that was active when the app was last closed.
+     * Sessions past the resume window are finalized or discarded and not returned.
+     */
+    async getInterruptedSession(userId: string): Promise<PracticeSession | null> {
+        if (this.currentSession && !this.currentSession.isCompleted) return null;
+
+        try {
+            const stored = await AsyncStorage.getItem(this.getSessionStorageKey(userId));
+            if (!stored) return null;
+
+            const { session, savedAt }: { session: PracticeSession; savedAt: number } = JSON.parse(stored);
+            session.startedAt = new Date(session.startedAt);
+
+            // Skip past a question that was answered right before the app was killed
+            while (
+                session.currentQuestion < session.totalQuestions &&
+                session.questions[session.currentQuestion]?.userAnswer !== undefined
+            ) {
+                session.currentQuestion++;
+            }
+
+            // A speed round's clock kept running while the app was closed, so it can't be resumed
+            const isStale = Date.now() - savedAt > SESSION_RESUME_WINDOW_MS;
+            if (isStale || session.mode === 'speed' || session.currentQuestion >= session.totalQuestions) {
+                await this.closeInterruptedSession(session);
+                return null;
+            }
+
+            return session;
+        } catch (error) {
+            console.error('Error loading interrupted practice session:', error);
+            await this.clearPersistedSession(userId);
+            return null;
+        }
+    }
+
+    /**
+     * Make an interrupted session the active one again
+     */
+    resumeSession(session: PracticeSession): QuizQuestion | null {
+        this.currentSession = session;
+        this.sessionVocabulary = [];
+        this.questionStartedAt = Date.now();
+        return this.getCurrentQuestion();
+    }
+
+    /**
+     * Give up on an interrupted session without resuming it
+     */
+    async discardInterruptedSession(session: PracticeSession) {
+        await this.closeInterruptedSession(session);
+    }
+
+    /**
+     * End the active session early (the user closed the quiz)
+     */
+    async abandonSession() {
+        if (!this.currentSession || this.currentSession.isCompleted) return;
+
+        const session = this.currentSession;
+        this.currentSession = null;
+        await this.closeInterruptedSession(session);
+    }
+
+    /**
+     * Keep the progress of a session that was not finished: score the answered
+     * questions, or drop the quiz_sessions row if nothing was answered
+     */
+    private async closeInterruptedSession(session: PracticeSession) {
+        const answered = session.questions.filter(q => q.userAnswer !== undefined);
+
+        if (answered.length === 0) {
+            await this.clearPersistedSession(session.userId);
+            const { error } = await supabase
+                .from('quiz_sessions')
+                .delete()
+                .eq('id', session.id);
+
+            if (error) {
+                console.error('Error discarding practice session:', error);
+            }
+            return;
+        }
+
+        // Questions are answered in order, so retries still point at their originals
+        session.questions = answered;
+        session.totalQuestions = answered.length;
+        session.currentQuestion = answered.length;
+        session.correctAnswers = answered.filter(q => q.isCorrect && q.retryOf === undefined).length;
+
+        await this.completeSession(session, { completionBonus: false });
     }
 
     /**
@@ -1463,6 +2666,7 @@ class PracticeService {
 
     /**
      * Get user's practice statistics
+     * Accuracy breakdowns and trends come from the per-question answer log
      */
     async getUserStats(userId: string): Promise<PracticeStats> {
         const { data: sessions } = await supabase
@@ -1477,16 +2681,30 @@ class PracticeService {
             .eq('user_id', userId)
             .single();
         
-        // Calculate language-specific stats
+        // Break the recent answer log down by language, question type and category
         const vocabulary = await VocabularyService.getUserVocabulary(userId);
-        const languageStats: Record<string, { practiced: number; correct: number }> = {};
-        
+        const categories = new Map(vocabulary.map(word => [word.id.split('_')[0], word.category || 'general']));
+        const since = new Date(Date.now() - STATS_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+        const answers = await AnswerLogService.getUserAnswers(userId, { since });
+        const breakdown = computeAnswerBreakdown(answers, categories);
+
+        // Sessions saved without total_questions are sized by their logged answers
+        // (matching boards log one row per pair under a single question index)
+        const answeredQuestions = new Map<string, Set<number>>();
+        for (const answer of answers) {
+            const indexes = answeredQuestions.get(answer.sessionId) || new Set<number>();
+            indexes.add(answer.questionIndex);
+            answeredQuestions.set(answer.sessionId, indexes);
+        }
+
         let totalQuestions = 0;
         let correctAnswers = 0;
         
         sessions?.forEach(session => {
+            const questionCount = session.total_questions || answeredQuestions.get(session.id)?.size || 0;
+            if (questionCount === 0) return; // Nothing known about the session's size
             correctAnswers += session.score || 0;
-            totalQuestions += session.total_questions || 10;
+            totalQuestions += questionCount;
         });
         
         return {
@@ -1496,11 +2714,96 @@ class PracticeService {
             accuracy: totalQuestions > 0 ? (correctAnswers / totalQuestions) * 100 : 0,
             streak: profile?.streak || 0,
             lastPracticeDate: profile?.last_login || null,
-            languageStats,
+            ...breakdown,
             totalXP: profile?.total_xp || 0
         };
     }
 
+    /**
+     * Get the user's finished sessions, newest first
+     */
+    async getSessionHistory(userId: string, limit: number = 30): Promise<SessionHistoryEntry[]> {
+        try {
+            const { data, error } = await supabase
+                .from('quiz_sessions')
+                .select('id, started_at, score, total_questions, mode, xp_breakdown, seed')
+                .eq('user_id', userId)
+                .not('total_questions', 'is', null)
+                .order('started_at', { ascending: false })
+                .limit(limit);
+
+            if (error) {
+                console.error('Error fetching session history:', error);
+                return [];
+            }
+
+            return (data || []).map(row => this.mapSessionHistoryRow(row));
+        } catch (error) {
+            console.error('Error fetching session history:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Get a finished session with every answer given in it, for its summary screen
+     */
+    async getSessionSummary(userId: string, sessionId: string): Promise<SessionSummary | null> {
+        try {
+            const { data, error } = await supabase
+                .from('quiz_sessions')
+                .select('id, started_at, score, total_questions, mode, xp_breakdown, seed')
+                .eq('id', sessionId)
+                .eq('user_id', userId)
+                .maybeSingle();
+
+            if (error || !data) {
+                console.error('Error fetching session summary:', error);
+                return null;
+            }
+
+            const answers = await AnswerLogService.getSessionAnswers(sessionId);
+            const vocabulary = await VocabularyService.getUserVocabulary(userId);
+            const session = this.mapSessionHistoryRow(data);
+            if (!session.xpBreakdown && this.completedSession?.id === sessionId) {
+                session.xpBreakdown = this.completedSession.xpBreakdown || null;
+            }
+
+            return {
+                session,
+                rows: buildSummaryRows(answers, vocabulary)
+            };
+        } catch (error) {
+            console.error('Error fetching session summary:', error);
+            return null;
+        }
+    }
+
+    private mapSessionHistoryRow(row: SessionHistoryRow): SessionHistoryEntry {
+        return {
+            id: row.id,
+            startedAt: row.started_at,
+            score: row.score || 0,
+            totalQuestions: row.total_questions || 0,
+            mode: row.mode,
+            xpBreakdown: row.xp_breakdown,
+            seed: row.seed
+        };
+    }
+
+    /**
+     * Make a word due now, so the next review session asks it whatever its schedule said
+     */
+    async addToReview(userId: string, word: SavedWord): Promise<boolean> {
+        const schedule = { ...getReviewSchedule(word), nextReviewAt: new Date().toISOString() };
+        const saved = await VocabularyService.updateReviewSchedule(word.id, schedule);
+
+        if (saved) {
+            word.nextReviewAt = schedule.nextReviewAt;
+            VocabularyService.invalidateUserCountCaches(userId);
+        }
+        return saved;
+    }
+
     /**
      * Get current session
      */
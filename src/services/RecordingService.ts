@@ -3,6 +3,7 @@ import * as FileSystem from 'expo-file-system';
 import Constants from 'expo-constants';
 import { Platform } from 'react-native';
 import AudioManager from './AudioManager';
+import { levenshteinSimilarity } from '../utils/StringUtils';
 
 interface RecordingEvaluation {
     isCorrect: boolean;
@@ -544,43 +545,6 @@ class RecordingService {
         return intersection.size / union.size;
     }
 
-    private levenshteinSimilarity(text1: string, text2: string): number {
-        const distance = this.levenshteinDistance(text1, text2);
-        const maxLength = Math.max(text1.length, text2.length);
-        return maxLength === 0 ? 1 : 1 - (distance / maxLength);
-    }
-
-    private levenshteinDistance(text1: string, text2: string): number {
-        if (!text1) return text2.length;
-        if (!text2) return text1.length;
-        
-        const matrix = [];
-        
-        for (let i = 0; i <= text2.length; i++) {
-            matrix[i] = [i];
-        }
-        
-        for (let j = 0; j <= text1.length; j++) {
-            matrix[0][j] = j;
-        }
-        
-        for (let i = 1; i <= text2.length; i++) {
-            for (let j = 1; j <= text1.length; j++) {
-                if (text2.charAt(i - 1) === text1.charAt(j - 1)) {
-                    matrix[i][j] = matrix[i - 1][j - 1];
-                } else {
-                    matrix[i][j] = Math.min(
-                        matrix[i - 1][j - 1] + 1,
-                        matrix[i][j - 1] + 1,
-                        matrix[i - 1][j] + 1
-                    );
-                }
-            }
-        }
-        
-        return matrix[text2.length][text1.length];
-    }
-
     private wordMatchScore(text1: string, text2: string): number {
         const words1 = text1.split(' ').filter(w => w.length > 0);
         const words2 = text2.split(' ').filter(w => w.length > 0);
@@ -590,7 +554,7 @@ class RecordingService {
         let matchedWords = 0;
         for (const word1 of words1) {
             for (const word2 of words2) {
-                if (this.levenshteinSimilarity(word1, word2) > 0.8) {
+                if (levenshteinSimilarity(word1, word2) > 0.8) {
                     matchedWords++;
                     break;
                 }
@@ -627,7 +591,7 @@ class RecordingService {
         
         // Core metrics (fast calculations)
         const similarity = this.calculateSimilarity(normalizedTranscription, normalizedExpected);
-        const levenshteinScore = this.levenshteinSimilarity(normalizedTranscription, normalizedExpected);
+        const levenshteinScore = levenshteinSimilarity(normalizedTranscription, normalizedExpected);
         const wordMatchScore = this.wordMatchScore(normalizedTranscription, normalizedExpected);
         
         // Quick length check
@@ -689,7 +653,7 @@ class RecordingService {
         // Simplified phonetic analysis - compare sound patterns
         const phonetic1 = this.getPhoneticRepresentation(text1, language);
         const phonetic2 = this.getPhoneticRepresentation(text2, language);
-        return this.levenshteinSimilarity(phonetic1, phonetic2);
+        return levenshteinSimilarity(phonetic1, phonetic2);
     }
 
     private calculateSyllableAccuracy(text1: string, text2: string, language: string): number {
@@ -720,7 +684,7 @@ class RecordingService {
         // Analyze word structure patterns
         const structure1 = this.getWordStructure(text1);
         const structure2 = this.getWordStructure(text2);
-        return this.levenshteinSimilarity(structure1, structure2);
+        return levenshteinSimilarity(structure1, structure2);
     }
 
     private calculateConfidenceWeight(recognitionConfidence: number): number {
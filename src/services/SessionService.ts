@@ -4,6 +4,7 @@ import { LevelingService } from './LevelingService';
 import { AchievementService } from './AchievementService';
 import { CacheKeys, CACHE_CONFIG } from './CacheService';
 import { debugUtils } from '../utils/DebuggingUtils';
+import { getWordProficiency } from './practice/Mastery';
 
 interface SessionData {
     id: string;
@@ -219,7 +220,7 @@ class SessionService {
             // Get total unique words learned (user_words entries)
             const { data: userWords, error: wordsError } = await supabase
                 .from('user_words')
-                .select('word_id, proficiency')
+                .select('word_id, proficiency, last_reviewed_at')
                 .eq('user_id', userId);
 
             if (wordsError) {
@@ -247,9 +248,9 @@ class SessionService {
             }
 
             const uniqueWords = userWords?.length || 0;
-            const masteredUniqueWords = userWords?.filter(w => w.proficiency >= 80).length || 0;
+            const masteredUniqueWords = userWords?.filter(w => getWordProficiency(w) >= 80).length || 0;
             const averageProficiency = uniqueWords > 0 
-                ? userWords.reduce((sum, w) => sum + (w.proficiency || 0), 0) / uniqueWords 
+                ? userWords.reduce((sum, w) => sum + getWordProficiency(w), 0) / uniqueWords 
                 : 0;
 
             // Calculate total mastered translations (estimate based on unique word mastery)
@@ -393,7 +394,8 @@ class SessionService {
     }
 
     /**
-     * Award XP for word proficiency milestones
+     * Award XP for word proficiency milestones.
+     * Takes the current proficiency (see getWordProficiency), not the stored one.
      */
     async awardProficiencyXP(userId: string, proficiency: number): Promise<void> {
         try {
@@ -345,7 +345,10 @@ class SpeechService {
     return voices[0];
   }
 
-  async speak(text: string, language: string = 'en'): Promise<void> {
+  /**
+   * Speak text in a language; rateScale < 1 slows the voice down (e.g. 0.6 for slow replay)
+   */
+  async speak(text: string, language: string = 'en', rateScale: number = 1): Promise<void> {
     try {
       if (this.isSpeaking) {
         console.log('Already speaking, stopping current speech...');
@@ -388,7 +391,7 @@ class SpeechService {
       }
 
       const targetLang = this.languageMapping[actualLanguage] || actualLanguage;
-      const rate = this.getOptimalRate(actualLanguage);
+      const rate = this.getOptimalRate(actualLanguage) * rateScale;
 
       const options: Speech.SpeechOptions = {
         language: targetLang,
@@ -783,6 +786,24 @@ class SpeechService {
     }
   }
 
+  /**
+   * Speak text and resolve once the voice has finished, or after maxWaitMs at the latest
+   */
+  async speakAndWait(text: string, language: string = 'en', maxWaitMs: number = 15000): Promise<void> {
+    const startedAt = Date.now();
+    await this.speak(text, language);
+
+    // speak() returns as soon as the utterance is queued; give it a moment to start
+    await new Promise(resolve => setTimeout(resolve, 300));
+    try {
+      while (Date.now() - startedAt < maxWaitMs && await Speech.isSpeakingAsync()) {
+        await new Promise(resolve => setTimeout(resolve, 200));
+      }
+    } catch (error) {
+      console.error('Error waiting for speech:', error);
+    }
+  }
+
   async speakQueue(textArray: string[], language: string = 'en'): Promise<void> {
     this.speechQueue = [...textArray];
     await this.processQueue(language);
@@ -0,0 +1,123 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import VocabularyService from './VocabularyService';
+import AnswerLogService from './AnswerLogService';
+import { LevelingService } from './LevelingService';
+import {
+    PACE_WINDOW_DAYS,
+    StudyGoal,
+    StudyPlan,
+    StudyPlanProgress,
+    addDays,
+    computeStudyPace,
+    createStudyPlan,
+    getDayKey,
+    getStudyPlanProgress,
+    isBehindPlan,
+    parseDayKey,
+    recomputeStudyPlan,
+    summarizeWordProgress,
+} from './practice/StudyPlan';
+
+// XP entries read to find the days the user was active; more than PACE_WINDOW_DAYS need
+const XP_HISTORY_LIMIT = 200;
+
+/**
+ * Keeps the user's study goal and measures each day against the plan made from it.
+ * A plan that falls behind is recomputed over the days that are left.
+ */
+class StudyPlanService {
+    private getPlanKey(userId: string): string {
+        return `study_plan_${userId}`;
+    }
+
+    async getPlan(userId: string): Promise<StudyPlan | null> {
+        try {
+            const stored = await AsyncStorage.getItem(this.getPlanKey(userId));
+            return stored ? JSON.parse(stored) : null;
+        } catch (error) {
+            console.error('Error reading study plan:', error);
+            return null;
+        }
+    }
+
+    private async savePlan(userId: string, plan: StudyPlan) {
+        try {
+            await AsyncStorage.setItem(this.getPlanKey(userId), JSON.stringify(plan));
+        } catch (error) {
+            console.error('Error saving study plan:', error);
+        }
+    }
+
+    /**
+     * Set a new goal and plan it from the current vocabulary
+     */
+    async setGoal(userId: string, goal: StudyGoal): Promise<StudyPlanProgress | null> {
+        const status = await this.loadStatus(userId, goal, null);
+        if (!status) return null;
+
+        const plan = createStudyPlan(goal, status.words.learned - status.words.newToday);
+        await this.savePlan(userId, plan);
+        return getStudyPlanProgress(plan, status.words, status.pace);
+    }
+
+    async clearGoal(userId: string) {
+        try {
+            await AsyncStorage.removeItem(this.getPlanKey(userId));
+        } catch (error) {
+            console.error('Error clearing study plan:', error);
+        }
+    }
+
+    /**
+     * Today's quotas and progress, or null without a goal. Recomputes the plan when it fell behind.
+     */
+    async getProgress(userId: string): Promise<StudyPlanProgress | null> {
+        let plan = await this.getPlan(userId);
+        if (!plan) return null;
+
+        const status = await this.loadStatus(userId, plan.goal, plan.startDate);
+        if (!status) return null;
+
+        const learnedAtDayStart = status.words.learned - status.words.newToday;
+        if (isBehindPlan(plan, learnedAtDayStart)) {
+            plan = recomputeStudyPlan(plan, learnedAtDayStart);
+            await this.savePlan(userId, plan);
+        }
+
+        return getStudyPlanProgress(plan, status.words, status.pace);
+    }
+
+    /**
+     * The goal language's words and the user's recent pace in it.
+     * Answers are read from the plan's start or the pace window, whichever is earlier.
+     */
+    private async loadStatus(userId: string, goal: StudyGoal, planStartDate: string | null) {
+        try {
+            const language = goal.language;
+            const vocabulary = (await VocabularyService.getUserVocabulary(userId)).filter(
+                (word) => !language || word.language === language,
+            );
+            const windowStart = addDays(getDayKey(new Date()), -PACE_WINDOW_DAYS);
+            const since =
+                planStartDate && planStartDate < windowStart ? planStartDate : windowStart;
+            const answers = await AnswerLogService.getUserAnswers(userId, {
+                language,
+                since: parseDayKey(since),
+            });
+            const xpHistory = await LevelingService.getXPHistory(userId, XP_HISTORY_LIMIT);
+
+            return {
+                words: summarizeWordProgress(vocabulary, answers),
+                pace: computeStudyPace(
+                    answers,
+                    xpHistory.map((entry) => entry.earned_at),
+                ),
+            };
+        } catch (error) {
+            console.error('Error loading study plan status:', error);
+            return null;
+        }
+    }
+}
+
+export default new StudyPlanService();
@@ -1,5 +1,12 @@
 import Constants from 'expo-constants';
 import ExampleSentenceGenerator from './example-sentences/ExampleSentenceGenerator';
+import {
+  NounGender,
+  detectNounGender,
+  genderFromArticle,
+  splitNoun,
+  supportsGenderDrill,
+} from './practice/NounGender';
 
 interface ExampleSentence {
   english: string;
@@ -192,6 +199,30 @@ class TranslationService {
       .replace(/&#(\d+);/g, (match, dec) => String.fromCharCode(parseInt(dec)));
   }
 
+  /**
+   * Grammatical gender of a translated noun, for languages with a gender drill.
+   * Uses the translation's own article or the bundled lexicon, and otherwise asks
+   * the translator for "the <word>" (or "a <word>" when "the" elides to l').
+   * Makes up to two translate calls: don't await it on a path the user waits on.
+   */
+  async getNounGender(original: string, translation: string, targetLanguage: string): Promise<NounGender | null> {
+    if (!supportsGenderDrill(targetLanguage)) return null;
+
+    const known = detectNounGender(translation, targetLanguage);
+    if (known) return known;
+
+    try {
+      for (const article of ['the', 'a']) {
+        const phrase = await this.translateText(`${article} ${original}`, targetLanguage);
+        const gender = genderFromArticle(splitNoun(phrase, targetLanguage).article, targetLanguage);
+        if (gender) return gender;
+      }
+    } catch (error) {
+      console.error('Noun gender lookup error:', error);
+    }
+    return null;
+  }
+
   async getExampleSentence(word: string, targetLanguage: string): Promise<ExampleSentence> {
     try {
       // Use the enhanced sentence generator
@@ -1,4 +1,5 @@
 import { supabase } from '../../database/config';
+import { getWordProficiency } from './practice/Mastery';
 
 export interface UserProfile {
     user_id: string;
@@ -466,11 +467,11 @@ export class UserProgressService {
     private static async checkWordAchievements(userId: string): Promise<void> {
         const { data: userWords } = await supabase
             .from('user_words')
-            .select('proficiency')
+            .select('proficiency, last_reviewed_at')
             .eq('user_id', userId);
 
         const totalWords = userWords?.length || 0;
-        const masteredWords = userWords?.filter(w => w.proficiency >= 80).length || 0;
+        const masteredWords = userWords?.filter(w => getWordProficiency(w) >= 80).length || 0;
 
         // Word count achievements
         const wordMilestones = [
@@ -819,7 +820,7 @@ export class UserProgressService {
             // Get user words stats
             const { data: userWords } = await supabase
                 .from('user_words')
-                .select('proficiency')
+                .select('proficiency, last_reviewed_at')
                 .eq('user_id', userId);
 
             // Get quiz stats
@@ -829,7 +830,7 @@ export class UserProgressService {
                 .eq('user_id', userId);
 
             const wordsLearned = userWords?.length || 0;
-            const masteredWords = userWords?.filter(w => w.proficiency >= 80).length || 0;
+            const masteredWords = userWords?.filter(w => getWordProficiency(w) >= 80).length || 0;
             const totalSessions = quizSessions?.length || 0;
             const perfectSessions = quizSessions?.filter(s => s.score === s.total_questions).length || 0;
 
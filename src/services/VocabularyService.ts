@@ -3,6 +3,12 @@ import { recordLearningActivity, incrementDailyGoal } from '../../utils/progress
 import { Alert } from 'react-native';
 import uuid from 'react-native-uuid';
 import { CacheKeys, CACHE_CONFIG } from './CacheService';
+import { ReviewSchedule } from './practice/SpacedRepetition';
+import { NounGender, detectNounGender } from './practice/NounGender';
+import { getWordProficiency } from './practice/Mastery';
+import TranslationService from './TranslationService';
+import { getDetectionThumbnail } from './ImageUtils';
+import { getBucketFileUrl } from '../../database/crudOperations';
 
 interface VocabularyItem {
     word_id?: string;
@@ -33,8 +39,21 @@ export interface SavedWord {
     proficiency: number;
     learnedAt: string;
     category?: string;
+    // Spaced-repetition schedule (SM-2), unset until the word is first reviewed
+    easeFactor?: number;
+    reviewInterval?: number;
+    reviewRepetitions?: number;
+    nextReviewAt?: string | null;
+    lastReviewedAt?: string | null;
+    // Grammatical gender of the translation, for languages with a gender drill
+    gender?: NounGender | null;
+    // Thumbnail of the object in the photo the word was captured from; unset for typed-in words
+    imageUrl?: string | null;
 }
 
+// Storage bucket of the captured-word thumbnails, one per user word at <userId>/<userWordId>.jpg
+const WORD_IMAGE_BUCKET = 'word-images';
+
 // Result type for save operations
 export type SaveWordResult = 'success' | 'exists' | 'error';
 
@@ -174,6 +193,7 @@ class VocabularyService {
         example: string;
         exampleEnglish: string;
         language: string;
+        gender?: NounGender | null;
     }): Promise<void> {
         try {
             // Store the word data in cache for retrieval
@@ -193,6 +213,90 @@ class VocabularyService {
         }
     }
 
+    /**
+     * Ask the translator for the gender of a noun the lexicon doesn't know, without holding
+     * up the save, then store it on the translation and its cache entry
+     */
+    private resolveNounGender(
+        userId: string,
+        wordId: string,
+        word: { original: string; translation: string },
+        language: string,
+    ): void {
+        TranslationService.getNounGender(word.original, word.translation, language)
+            .then(async gender => {
+                if (!gender) return;
+
+                const { error } = await supabase
+                    .from('translations')
+                    .update({ gender })
+                    .eq('word_id', wordId)
+                    .eq('language_code', language);
+                if (error) {
+                    console.warn(`Failed to store gender of "${word.original}":`, error);
+                    return;
+                }
+
+                const cacheKey = `userWord_${userId}_${wordId}`;
+                const cached = this.getFromCache<{
+                    original: string;
+                    translation: string;
+                    example: string;
+                    exampleEnglish: string;
+                    language: string;
+                }>(cacheKey);
+                if (cached) {
+                    await this.storeUserWordData(userId, wordId, { ...cached, gender });
+                }
+            })
+            .catch(error => console.warn('Failed to resolve noun gender:', error));
+    }
+
+    /**
+     * Crop the detected object out of its photo, upload it and link it to the user word
+     */
+    private async storeWordThumbnail(
+        userId: string,
+        userWordId: string,
+        photo: { uri: string; bbox: number[] },
+    ): Promise<string | null> {
+        try {
+            const thumbnailUri = await getDetectionThumbnail(photo.uri, photo.bbox);
+            if (!thumbnailUri) return null;
+
+            const path = `${userId}/${userWordId}.jpg`;
+            const formData = new FormData();
+            formData.append('file', { uri: thumbnailUri, name: `${userWordId}.jpg`, type: 'image/jpeg' });
+
+            const { error: uploadError } = await supabase.storage
+                .from(WORD_IMAGE_BUCKET)
+                .upload(path, formData, { contentType: 'image/jpeg', upsert: true });
+
+            if (uploadError) {
+                console.warn('Word thumbnail upload failed:', uploadError);
+                return null;
+            }
+
+            const imageUrl = getBucketFileUrl(WORD_IMAGE_BUCKET, path);
+            const { error } = await supabase
+                .from('user_words')
+                .update({ image_url: imageUrl })
+                .eq('id', userWordId);
+
+            if (error) {
+                console.warn('Error linking word thumbnail:', error);
+                return null;
+            }
+
+            // The vocabulary may have been loaded while the upload ran
+            this.invalidateUserCache(userId);
+            return imageUrl;
+        } catch (error) {
+            console.warn('Error storing word thumbnail:', error);
+            return null;
+        }
+    }
+
     /**
      * RLS-compatible word saving that bypasses global words table
      */
@@ -483,6 +587,7 @@ class VocabularyService {
                         : '';
 
                     console.log(`Attempting to insert translation for word_id: ${finalWordId}, language: ${language}`);
+                    const gender = detectNounGender(word.translation, language);
                     
                     // Check if translation already exists for this word and language
                     const { data: existingTranslation } = await supabase
@@ -501,7 +606,8 @@ class VocabularyService {
                                 word_id: finalWordId,
                                 language_code: language,
                                 translated_text: word.translation,
-                                example: translationExample
+                                example: translationExample,
+                                gender
                             })
                             .select();
 
@@ -525,11 +631,16 @@ class VocabularyService {
                         translation: word.translation,
                         example: word.example,
                         exampleEnglish: word.exampleEnglish,
-                        language: language
+                        language: language,
+                        gender
                     });
 
                     console.log(`Stored in cache with key: userWord_${userId}_${finalWordId}`);
 
+                    if (!gender) {
+                        this.resolveNounGender(userId, finalWordId, word, language);
+                    }
+
                     // Add to tracking sets to prevent duplicates in this batch
                     existingWordTexts.add(wordKey);
                     existingWordIds.add(finalWordId);
@@ -582,6 +693,10 @@ class VocabularyService {
             if (result.savedWords.length > 0 && vocabularyUpdateCallback) {
                 setTimeout(() => vocabularyUpdateCallback?.(), 100);
             }
+
+            if (result.savedWords.length > 0) {
+                this.schedulePracticeMaterial(userId, language);
+            }
             
             return result;
 
@@ -598,6 +713,16 @@ class VocabularyService {
             };
         }
     }
+    /**
+     * Start preparing practice sentences for newly saved words in the background
+     * (imported lazily because PracticeService depends on this service)
+     */
+    private schedulePracticeMaterial(userId: string, language: string): void {
+        import('./PracticeService')
+            .then(({ default: PracticeService }) => PracticeService.prepareMaterial(userId, language, true))
+            .catch(error => console.warn('Failed to schedule practice material:', error));
+    }
+
     /**
      * Get language name from code
      */
@@ -629,6 +754,7 @@ class VocabularyService {
 
     /**
      * Batch save multiple words for better performance
+     * Words captured with the camera pass their photo and detection box to keep a thumbnail
      */
     async saveMultipleWords(
         words: Array<{
@@ -636,6 +762,8 @@ class VocabularyService {
             translation: string;
             example: string;
             exampleEnglish: string;
+            photo?: { uri: string; bbox: number[] };
+            known?: { proficiency: number; schedule: ReviewSchedule }; // already known, e.g. from placement
         }>,
         language: string,
         userId: string,
@@ -822,6 +950,7 @@ class VocabularyService {
                     });
 
                     // Check if user already has this exact word_id in ANY language first
+                    let userWordId: string | null = null;
                     const { data: existingUserWordGeneral } = await supabase
                         .from('user_words')
                         .select('id')
@@ -844,6 +973,7 @@ class VocabularyService {
                         } else {
                             console.log(`✅ User has word "${word.original}" but not in ${language}, adding translation only`);
                             // Skip user_words insertion, just add translation
+                            userWordId = existingUserWordGeneral.id;
                         }
                     } else {
                         // User doesn't have this word_id at all, add to user_words
@@ -854,8 +984,15 @@ class VocabularyService {
                             .insert({
                                 user_id: userId,
                                 word_id: finalWordId,
-                                proficiency: 0,
+                                proficiency: word.known?.proficiency ?? 0,
                                 learned_at: new Date().toISOString(),
+                                ...(word.known && {
+                                    ease_factor: word.known.schedule.easeFactor,
+                                    review_interval: word.known.schedule.interval,
+                                    review_repetitions: word.known.schedule.repetitions,
+                                    next_review_at: word.known.schedule.nextReviewAt,
+                                    last_reviewed_at: word.known.schedule.lastReviewedAt,
+                                }),
                             })
                             .select();
 
@@ -870,10 +1007,13 @@ class VocabularyService {
                                 throw userWordError;
                             }
                         }
+                        userWordId = userWordData?.[0]?.id ?? null;
                     }
 
                     console.log(`✅ Successfully linked user to word: ${finalWordId}`);
 
+                    const gender = word.translation ? detectNounGender(word.translation, language) : null;
+
                     // Add translation (always required for vocabulary)
                     if (word.translation) {
                         const translationExample = word.example && word.exampleEnglish 
@@ -889,6 +1029,7 @@ class VocabularyService {
                                 language_code: language,
                                 translated_text: word.translation,
                                 example: translationExample,
+                                gender,
                             }, {
                                 onConflict: 'word_id,language_code',
                                 ignoreDuplicates: false  // Update translation if exists
@@ -902,22 +1043,35 @@ class VocabularyService {
                         }
                     }
 
+                    // The thumbnail is a nice-to-have: it uploads in the background, and the word
+                    // stays saved without it if the upload fails
+                    if (word.photo && userWordId) {
+                        this.storeWordThumbnail(userId, userWordId, word.photo);
+                    }
+
                     // Store in cache
                     await this.storeUserWordData(userId, finalWordId, {
                         original: word.original,
                         translation: word.translation,
                         example: word.example,
                         exampleEnglish: word.exampleEnglish,
-                        language: language
+                        language: language,
+                        gender
                     });
 
+                    if (word.translation && !gender) {
+                        this.resolveNounGender(userId, finalWordId, word, language);
+                    }
+
                     result.savedWords.push(word.original);
                     
-                    // Record learning activity
-                    try {
-                        await recordLearningActivity(userId, finalWordId, 1);
-                    } catch (activityError) {
-                        console.warn('Failed to record learning activity:', activityError);
+                    // Record learning activity; words the user already knew weren't learned today
+                    if (!word.known) {
+                        try {
+                            await recordLearningActivity(userId, finalWordId, 1);
+                        } catch (activityError) {
+                            console.warn('Failed to record learning activity:', activityError);
+                        }
                     }
 
                 } catch (error) {
@@ -948,6 +1102,10 @@ class VocabularyService {
                 setTimeout(() => vocabularyUpdateCallback?.(), 100);
             }
 
+            if (result.savedWords.length > 0) {
+                this.schedulePracticeMaterial(userId, language);
+            }
+
             return result;
 
         } catch (error) {
@@ -1086,7 +1244,13 @@ class VocabularyService {
                     id,
                     proficiency,
                     learned_at,
-                    word_id
+                    word_id,
+                    ease_factor,
+                    review_interval,
+                    review_repetitions,
+                    next_review_at,
+                    last_reviewed_at,
+                    image_url
                 `)
                 .eq('user_id', userId)
                 .order('learned_at', { ascending: false });
@@ -1125,6 +1289,7 @@ class VocabularyService {
                     example: string;
                     exampleEnglish: string;
                     language: string;
+                    gender?: NounGender | null;
                 }>(cacheKey);
 
                 if (cachedWordData) {
@@ -1141,9 +1306,12 @@ class VocabularyService {
                         example: cachedWordData.example,
                         exampleEnglish: cachedWordData.exampleEnglish,
                         language: cachedWordData.language,
-                        proficiency: userWord.proficiency || 0,
+                        proficiency: getWordProficiency(userWord),
                         learnedAt: userWord.learned_at || '',
                         category: this.categorizeWord(cachedWordData.original),
+                        gender: cachedWordData.gender ?? null,
+                        imageUrl: userWord.image_url ?? null,
+                        ...this.mapReviewSchedule(userWord),
                     });
                 } else {
                     // Add to batch lookup list
@@ -1169,7 +1337,7 @@ class VocabularyService {
                     // Batch query: Get all translations data at once
                     const { data: translationsData, error: translationsError } = await supabase
                         .from('translations')
-                        .select('word_id, language_code, translated_text, example')
+                        .select('word_id, language_code, translated_text, example, gender')
                         .in('word_id', wordIds);
 
                     if (translationsError) {
@@ -1207,6 +1375,7 @@ class VocabularyService {
                                     example: string;
                                     exampleEnglish: string;
                                     language: string;
+                                    gender?: NounGender | null;
                                 }>(cacheKey);
                                 
                                 if (cachedWordData) {
@@ -1224,9 +1393,12 @@ class VocabularyService {
                                         example: cachedWordData.example,
                                         exampleEnglish: cachedWordData.exampleEnglish,
                                         language: cachedWordData.language,
-                                        proficiency: userWord.proficiency || 0,
+                                        proficiency: getWordProficiency(userWord),
                                         learnedAt: userWord.learned_at || '',
                                         category: this.categorizeWord(cachedWordData.original),
+                                        gender: cachedWordData.gender ?? null,
+                                        imageUrl: userWord.image_url ?? null,
+                                        ...this.mapReviewSchedule(userWord),
                                     });
                                 }
                                 continue;
@@ -1282,9 +1454,12 @@ class VocabularyService {
                                     example: example,
                                     exampleEnglish: exampleEnglish,
                                     language: selectedTranslation.language_code || '',
-                                    proficiency: userWord.proficiency || 0,
+                                    proficiency: getWordProficiency(userWord),
                                     learnedAt: userWord.learned_at || '',
                                     category: this.categorizeWord(displayOriginal),
+                                    gender: selectedTranslation.gender ?? null,
+                                    imageUrl: userWord.image_url ?? null,
+                                    ...this.mapReviewSchedule(userWord),
                                 });
                             }
                         }
@@ -1310,7 +1485,7 @@ class VocabularyService {
     }
 
     /**
-     * Update word proficiency
+     * Update word proficiency (the value at the time of the review; it fades on load)
      */
     async updateProficiency(userWordId: string, newProficiency: number): Promise<boolean> {
         try {
@@ -1337,6 +1512,56 @@ class VocabularyService {
         }
     }
 
+    /**
+     * Update the spaced-repetition schedule of a word
+     */
+    async updateReviewSchedule(userWordId: string, schedule: ReviewSchedule): Promise<boolean> {
+        try {
+            // Extract the actual user_word id from our composite id
+            const actualId = userWordId.split('_')[0];
+
+            const { error } = await supabase
+                .from('user_words')
+                .update({
+                    ease_factor: schedule.easeFactor,
+                    review_interval: schedule.interval,
+                    review_repetitions: schedule.repetitions,
+                    next_review_at: schedule.nextReviewAt,
+                    last_reviewed_at: schedule.lastReviewedAt,
+                })
+                .eq('id', actualId);
+
+            if (error) {
+                console.error('Error updating review schedule:', error);
+                return false;
+            }
+
+            return true;
+        } catch (error) {
+            console.error('Error updating review schedule:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Map the schedule columns of a user_words row onto SavedWord fields
+     */
+    private mapReviewSchedule(userWord: {
+        ease_factor?: number | null;
+        review_interval?: number | null;
+        review_repetitions?: number | null;
+        next_review_at?: string | null;
+        last_reviewed_at?: string | null;
+    }): Pick<SavedWord, 'easeFactor' | 'reviewInterval' | 'reviewRepetitions' | 'nextReviewAt' | 'lastReviewedAt'> {
+        return {
+            easeFactor: userWord.ease_factor ?? undefined,
+            reviewInterval: userWord.review_interval ?? undefined,
+            reviewRepetitions: userWord.review_repetitions ?? undefined,
+            nextReviewAt: userWord.next_review_at ?? null,
+            lastReviewedAt: userWord.last_reviewed_at ?? null,
+        };
+    }
+
     /**
      * Delete a word from user's vocabulary
      */
@@ -1374,6 +1599,14 @@ class VocabularyService {
                 return false;
             }
 
+            // Drop the word's thumbnail too; words without one make this a no-op
+            const { error: imageError } = await supabase.storage
+                .from(WORD_IMAGE_BUCKET)
+                .remove([`${wordData.user_id}/${actualId}.jpg`]);
+            if (imageError) {
+                console.warn('Error deleting word thumbnail:', imageError);
+            }
+
             // Smart cache update: invalidate count caches for accurate recalculation
             this.invalidateUserCountCaches(wordData.user_id);
             
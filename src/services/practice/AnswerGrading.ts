@@ -0,0 +1,215 @@
+import { levenshteinDistance, stripDiacritics } from '../../utils/StringUtils';
+
+export type GradeVerdict = 'correct' | 'almost_correct' | 'wrong';
+
+export type GradeReason =
+    | 'exact'
+    | 'alternative_spelling'
+    | 'extra_article'
+    | 'missing_article'
+    | 'wrong_article'
+    | 'diacritics'
+    | 'typo'
+    | 'skipped'
+    | 'partial_match'
+    | 'alternative_order'
+    | 'word_errors'
+    | 'mismatch';
+
+export interface GradeResult {
+    verdict: GradeVerdict;
+    reason: GradeReason;
+    credit: number; // 0-1, share of the full reward for a correct answer
+    feedback?: string;
+}
+
+export const ALMOST_CORRECT_CREDIT = 0.5;
+
+// Articles that may precede a noun, per language
+const ARTICLES: Record<string, string[]> = {
+    de: ['der', 'die', 'das', 'den', 'dem', 'des', 'ein', 'eine', 'einen', 'einem', 'einer'],
+    es: ['el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas'],
+    fr: ['le', 'la', 'les', "l'", 'un', 'une', 'des'],
+    it: ['il', 'lo', 'la', 'i', 'gli', 'le', "l'", 'un', 'uno', 'una', "un'"],
+    pt: ['o', 'a', 'os', 'as', 'um', 'uma'],
+    nl: ['de', 'het', 'een'],
+    sv: ['en', 'ett'],
+    da: ['en', 'et'],
+    no: ['en', 'ei', 'et'],
+    ro: ['un', 'o'],
+    el: ['ο', 'η', 'το', 'οι', 'τα', 'ένας', 'μία', 'ένα'],
+};
+
+// Accepted spelling variants, folded to a common form before comparing
+const SPELLING_VARIANTS: Record<string, [RegExp, string][]> = {
+    de: [
+        [/ß/g, 'ss'],
+        [/ä/g, 'ae'],
+        [/ö/g, 'oe'],
+        [/ü/g, 'ue'],
+    ],
+    nl: [[/ij/g, 'y']],
+    tr: [[/ı/g, 'i']],
+    pl: [[/ł/g, 'l']],
+    da: [
+        [/æ/g, 'ae'],
+        [/ø/g, 'oe'],
+        [/å/g, 'aa'],
+    ],
+    no: [
+        [/æ/g, 'ae'],
+        [/ø/g, 'oe'],
+        [/å/g, 'aa'],
+    ],
+    is: [
+        [/þ/g, 'th'],
+        [/ð/g, 'd'],
+        [/æ/g, 'ae'],
+    ],
+};
+
+const MIN_TYPO_LENGTH = 4;
+
+function normalize(text: string): string {
+    return text
+        .toLowerCase()
+        .replace(/[’‘`]/g, "'")
+        .replace(/[.,!?;:¿¡"]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+function foldSpelling(text: string, language: string): string {
+    const variants = SPELLING_VARIANTS[language.split('-')[0]] || [];
+    return variants.reduce(
+        (folded, [pattern, replacement]) => folded.replace(pattern, replacement),
+        text,
+    );
+}
+
+/**
+ * Split a leading article off a phrase ("el perro" -> { article: 'el', body: 'perro' })
+ */
+export function splitArticle(
+    text: string,
+    language: string,
+): { article: string | null; body: string } {
+    const articles = ARTICLES[language.split('-')[0]] || [];
+    for (const article of articles) {
+        if (article.endsWith("'") && text.startsWith(article) && text.length > article.length) {
+            return { article, body: text.slice(article.length).trim() };
+        }
+        if (text.startsWith(`${article} `)) {
+            return { article, body: text.slice(article.length + 1).trim() };
+        }
+    }
+    return { article: null, body: text };
+}
+
+// "peror" for "perro": two neighbouring letters swapped
+function isAdjacentTransposition(a: string, b: string): boolean {
+    if (a.length !== b.length) return false;
+    const diff = [...a].map((char, i) => (char !== b[i] ? i : -1)).filter((i) => i >= 0);
+    return (
+        diff.length === 2 &&
+        diff[1] === diff[0] + 1 &&
+        a[diff[0]] === b[diff[1]] &&
+        a[diff[1]] === b[diff[0]]
+    );
+}
+
+function result(verdict: GradeVerdict, reason: GradeReason, correctAnswer: string): GradeResult {
+    const credit =
+        verdict === 'correct' ? 1 : verdict === 'almost_correct' ? ALMOST_CORRECT_CREDIT : 0;
+    return { verdict, reason, credit, feedback: getFeedback(reason, correctAnswer) };
+}
+
+function getFeedback(reason: GradeReason, correctAnswer: string): string | undefined {
+    switch (reason) {
+        case 'alternative_spelling':
+            return `Accepted! The standard spelling is "${correctAnswer}".`;
+        case 'extra_article':
+            return `Correct! The answer on its own is "${correctAnswer}".`;
+        case 'missing_article':
+            return `Almost! Don't forget the article: "${correctAnswer}".`;
+        case 'wrong_article':
+            return `Almost! Check the article: "${correctAnswer}".`;
+        case 'diacritics':
+            return `Almost! Watch the accents: "${correctAnswer}".`;
+        case 'typo':
+            return `Almost! Check your spelling: "${correctAnswer}".`;
+        case 'mismatch':
+        case 'skipped':
+            return `The answer was "${correctAnswer}".`;
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Grade a free-text answer, tolerating accents, articles, spelling variants and small typos
+ */
+export function gradeAnswer(answer: string, correctAnswer: string, language: string): GradeResult {
+    if (answer === '__SKIPPED__') {
+        return result('wrong', 'skipped', correctAnswer);
+    }
+
+    const given = normalize(answer);
+    const expected = normalize(correctAnswer);
+
+    if (!given) return result('wrong', 'mismatch', correctAnswer);
+    if (given === expected) return result('correct', 'exact', correctAnswer);
+    if (foldSpelling(given, language) === foldSpelling(expected, language)) {
+        return result('correct', 'alternative_spelling', correctAnswer);
+    }
+
+    const givenParts = splitArticle(given, language);
+    const expectedParts = splitArticle(expected, language);
+
+    // Article problems only matter when the word itself is right
+    let articleReason: GradeReason | null = null;
+    if (expectedParts.article && !givenParts.article) {
+        articleReason = 'missing_article';
+    } else if (expectedParts.article && givenParts.article !== expectedParts.article) {
+        articleReason = 'wrong_article';
+    }
+
+    const givenBody = foldSpelling(givenParts.body, language);
+    const expectedBody = foldSpelling(expectedParts.body, language);
+
+    if (givenBody === expectedBody) {
+        return articleReason
+            ? result('almost_correct', articleReason, correctAnswer)
+            : result('correct', 'extra_article', correctAnswer);
+    }
+
+    // Compare accent-free forms before folding so "schon" vs "schön" reads as an accent slip
+    if (stripDiacritics(givenParts.body) === stripDiacritics(expectedParts.body)) {
+        return result('almost_correct', 'diacritics', correctAnswer);
+    }
+
+    const plainGiven = stripDiacritics(givenBody);
+    const plainExpected = stripDiacritics(expectedBody);
+
+    if (
+        plainExpected.length >= MIN_TYPO_LENGTH &&
+        (levenshteinDistance(plainGiven, plainExpected) <= 1 ||
+            isAdjacentTransposition(plainGiven, plainExpected))
+    ) {
+        return result('almost_correct', 'typo', correctAnswer);
+    }
+
+    return result('wrong', 'mismatch', correctAnswer);
+}
+
+/**
+ * Grade a picked option: options are distinct words, so only an exact match counts
+ */
+export function gradeChoice(answer: string, correctAnswer: string): GradeResult {
+    if (answer === '__SKIPPED__') {
+        return result('wrong', 'skipped', correctAnswer);
+    }
+    return answer.toLowerCase().trim() === correctAnswer.toLowerCase().trim()
+        ? result('correct', 'exact', correctAnswer)
+        : result('wrong', 'mismatch', correctAnswer);
+}
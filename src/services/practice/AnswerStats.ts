@@ -0,0 +1,93 @@
+import { AnswerLogEntry } from '../AnswerLogService';
+
+export const STATS_TREND_DAYS = [7, 30, 90];
+// Answers older than this are left out of the stats: the longest trend and the period before it
+export const STATS_HISTORY_DAYS = 2 * Math.max(...STATS_TREND_DAYS);
+
+// A breakdown needs this many answers before it is called a weak area
+export const MIN_ANSWERS_FOR_WEAK_AREA = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AccuracyStat {
+    practiced: number;
+    correct: number;
+}
+
+/**
+ * Accuracy over the last `days` days, next to the same number of days before them
+ */
+export interface AccuracyTrend {
+    days: number;
+    current: AccuracyStat;
+    previous: AccuracyStat;
+}
+
+export interface AnswerBreakdown {
+    languageStats: Record<string, AccuracyStat>;
+    questionTypeStats: Record<string, AccuracyStat>;
+    categoryStats: Record<string, AccuracyStat>;
+    trends: AccuracyTrend[];
+}
+
+export function getAccuracy(stat: AccuracyStat): number {
+    return stat.practiced > 0 ? (stat.correct / stat.practiced) * 100 : 0;
+}
+
+function addAnswer(stats: Record<string, AccuracyStat>, key: string, isCorrect: boolean) {
+    const stat = stats[key] || (stats[key] = { practiced: 0, correct: 0 });
+    stat.practiced++;
+    if (isCorrect) stat.correct++;
+}
+
+/**
+ * Group logged answers by language, question type and word category, and compare
+ * recent accuracy with the period before for each trend window
+ * categories maps user_word ids to the word's category; other answers count as 'general'.
+ */
+export function computeAnswerBreakdown(
+    answers: AnswerLogEntry[],
+    categories: Map<string, string>,
+    now: Date = new Date(),
+): AnswerBreakdown {
+    const languageStats: Record<string, AccuracyStat> = {};
+    const questionTypeStats: Record<string, AccuracyStat> = {};
+    const categoryStats: Record<string, AccuracyStat> = {};
+    const trends: AccuracyTrend[] = STATS_TREND_DAYS.map((days) => ({
+        days,
+        current: { practiced: 0, correct: 0 },
+        previous: { practiced: 0, correct: 0 },
+    }));
+
+    for (const answer of answers) {
+        addAnswer(languageStats, answer.language, answer.isCorrect);
+        addAnswer(questionTypeStats, answer.questionType, answer.isCorrect);
+        addAnswer(categoryStats, categories.get(answer.userWordId) || 'general', answer.isCorrect);
+
+        const age = now.getTime() - new Date(answer.answeredAt).getTime();
+        for (const trend of trends) {
+            const window = trend.days * DAY_MS;
+            const stat = age < window ? trend.current : age < 2 * window ? trend.previous : null;
+            if (stat) {
+                stat.practiced++;
+                if (answer.isCorrect) stat.correct++;
+            }
+        }
+    }
+
+    return { languageStats, questionTypeStats, categoryStats, trends };
+}
+
+/**
+ * The entry with the lowest accuracy among those with enough answers to tell
+ */
+export function findWeakestArea(stats: Record<string, AccuracyStat>): string | null {
+    let weakest: string | null = null;
+    for (const [key, stat] of Object.entries(stats)) {
+        if (stat.practiced < MIN_ANSWERS_FOR_WEAK_AREA) continue;
+        if (weakest === null || getAccuracy(stat) < getAccuracy(stats[weakest])) {
+            weakest = key;
+        }
+    }
+    return weakest;
+}
@@ -0,0 +1,108 @@
+import { SavedWord } from '../VocabularyService';
+import { WordConfusion } from '../ConfusionService';
+import { OptionField } from './Distractors';
+
+// A pair is "commonly confused" once it has been mixed up this many times, in either direction
+export const MIN_CONFUSIONS_FOR_CONTRAST = 2;
+
+// Contrast questions a session asks at most, so it doesn't become only contrasts
+export const MAX_CONTRAST_QUESTIONS = 3;
+
+/**
+ * Two words of the same language the user mixes up, with how often they did
+ */
+export interface ConfusedPair {
+    word: SavedWord;
+    confusedWith: SavedWord;
+    count: number;
+    lastConfusedAt: string;
+}
+
+function normalize(text: string): string {
+    return text.toLowerCase().trim();
+}
+
+/**
+ * The field a question's answer is given in, or null when it isn't a word (articles, sentences)
+ */
+export function getAnswerField(word: SavedWord, correctAnswer: string): OptionField | null {
+    if (correctAnswer === word.translation) return 'translation';
+    if (correctAnswer === word.original) return 'original';
+    return null;
+}
+
+/**
+ * The other word of the vocabulary a wrong answer belongs to, if it is one
+ */
+export function findConfusedWord(
+    answer: string,
+    word: SavedWord,
+    vocabulary: SavedWord[],
+    field: OptionField,
+): SavedWord | null {
+    const key = normalize(answer);
+    if (!key || key === normalize(word[field])) return null;
+
+    return (
+        vocabulary.find(
+            (candidate) =>
+                candidate.id !== word.id &&
+                candidate.language === word.language &&
+                normalize(candidate[field] || '') === key,
+        ) || null
+    );
+}
+
+/**
+ * Merge recorded confusions into pairs: "gato for perro" and "perro for gato" are the
+ * same pair. Pairs below minCount or with a word no longer in the vocabulary are left
+ * out; the most confused come first.
+ */
+export function resolveConfusedPairs(
+    confusions: WordConfusion[],
+    vocabulary: SavedWord[],
+    minCount: number = MIN_CONFUSIONS_FOR_CONTRAST,
+): ConfusedPair[] {
+    const words = new Map(vocabulary.map((word) => [word.id, word]));
+    const pairs = new Map<string, ConfusedPair>();
+
+    for (const confusion of confusions) {
+        const word = words.get(`${confusion.userWordId}_${confusion.language}`);
+        const confusedWith = words.get(`${confusion.confusedWithId}_${confusion.language}`);
+        if (!word || !confusedWith) continue;
+
+        const key = [word.id, confusedWith.id].sort().join('|');
+        const pair = pairs.get(key);
+        if (pair) {
+            pair.count += confusion.count;
+            if (confusion.lastConfusedAt > pair.lastConfusedAt)
+                pair.lastConfusedAt = confusion.lastConfusedAt;
+        } else {
+            pairs.set(key, {
+                word,
+                confusedWith,
+                count: confusion.count,
+                lastConfusedAt: confusion.lastConfusedAt,
+            });
+        }
+    }
+
+    return [...pairs.values()]
+        .filter((pair) => pair.count >= minCount)
+        .sort((a, b) => b.count - a.count || b.lastConfusedAt.localeCompare(a.lastConfusedAt));
+}
+
+/**
+ * For each word in a confused pair, the word it is most often mixed up with
+ */
+export function getContrastPartners(pairs: ConfusedPair[]): Map<string, SavedWord> {
+    const partners = new Map<string, SavedWord>();
+
+    // Pairs are sorted most confused first, so the first partner found is the strongest
+    for (const { word, confusedWith } of pairs) {
+        if (!partners.has(word.id)) partners.set(word.id, confusedWith);
+        if (!partners.has(confusedWith.id)) partners.set(confusedWith.id, word);
+    }
+
+    return partners;
+}
@@ -0,0 +1,121 @@
+import { stripDiacritics } from '../../utils/StringUtils';
+import { GradeResult } from './AnswerGrading';
+import { joinTokens, tokenizeSentence } from './SentenceBuilding';
+
+/**
+ * One word of a dictation diff, in sentence order
+ * - correct: typed as spoken
+ * - wrong: typed something else in its place (expected holds the spoken word)
+ * - missing: spoken but not typed
+ * - extra: typed but not spoken
+ */
+export interface DictationToken {
+    text: string;
+    status: 'correct' | 'wrong' | 'missing' | 'extra';
+    expected?: string;
+}
+
+// Share of words that must be right for partial credit
+export const DICTATION_ALMOST_THRESHOLD = 0.8;
+
+function sameWord(a: string, b: string): boolean {
+    return (
+        stripDiacritics(a.toLowerCase()) === stripDiacritics(b.toLowerCase()) ||
+        a.toLowerCase() === b.toLowerCase()
+    );
+}
+
+/**
+ * Align typed words with the spoken sentence (word-level edit distance)
+ * Accent slips inside a word count as correct; the diff still shows the spoken form.
+ */
+export function diffWords(answer: string, sentence: string, language: string): DictationToken[] {
+    const given = tokenizeSentence(answer, language);
+    const expected = tokenizeSentence(sentence, language);
+
+    // cost[i][j]: edits to turn given[i..] into expected[j..]
+    const cost: number[][] = Array.from({ length: given.length + 1 }, () =>
+        new Array(expected.length + 1).fill(0),
+    );
+    for (let i = given.length; i >= 0; i--) {
+        for (let j = expected.length; j >= 0; j--) {
+            if (i === given.length) cost[i][j] = expected.length - j;
+            else if (j === expected.length) cost[i][j] = given.length - i;
+            else {
+                cost[i][j] = Math.min(
+                    cost[i + 1][j + 1] + (sameWord(given[i], expected[j]) ? 0 : 1),
+                    cost[i + 1][j] + 1,
+                    cost[i][j + 1] + 1,
+                );
+            }
+        }
+    }
+
+    const diff: DictationToken[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < given.length || j < expected.length) {
+        if (i < given.length && j < expected.length) {
+            const match = sameWord(given[i], expected[j]);
+            if (cost[i][j] === cost[i + 1][j + 1] + (match ? 0 : 1)) {
+                diff.push(
+                    match
+                        ? { text: expected[j], status: 'correct' }
+                        : { text: given[i], status: 'wrong', expected: expected[j] },
+                );
+                i++;
+                j++;
+                continue;
+            }
+        }
+        if (j < expected.length && (i === given.length || cost[i][j] === cost[i][j + 1] + 1)) {
+            diff.push({ text: expected[j], status: 'missing' });
+            j++;
+        } else {
+            diff.push({ text: given[i], status: 'extra' });
+            i++;
+        }
+    }
+
+    return diff;
+}
+
+/**
+ * Grade a dictation by the share of words typed correctly
+ */
+export function gradeDictation(
+    answer: string,
+    sentence: string,
+    language: string,
+): { grade: GradeResult; diff: DictationToken[] } {
+    if (answer === '__SKIPPED__') {
+        return {
+            grade: {
+                verdict: 'wrong',
+                reason: 'skipped',
+                credit: 0,
+                feedback: `The sentence was: ${sentence}`,
+            },
+            diff: tokenizeSentence(sentence, language).map((text) => ({ text, status: 'missing' })),
+        };
+    }
+
+    const diff = diffWords(answer, sentence, language);
+    const correct = diff.filter((token) => token.status === 'correct').length;
+    const accuracy = diff.length > 0 ? correct / diff.length : 0;
+
+    if (correct === diff.length) {
+        return { grade: { verdict: 'correct', reason: 'exact', credit: 1 }, diff };
+    }
+
+    const spoken = joinTokens(tokenizeSentence(sentence, language), language);
+    return {
+        grade: {
+            verdict: accuracy >= DICTATION_ALMOST_THRESHOLD ? 'almost_correct' : 'wrong',
+            reason: 'word_errors',
+            credit: accuracy,
+            feedback: `${correct} of ${diff.length} words right: ${spoken}`,
+        },
+        diff,
+    };
+}
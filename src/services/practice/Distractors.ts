@@ -0,0 +1,127 @@
+import WordCategorizer from '../example-sentences/WordCategorizer.js';
+import { SavedWord } from '../VocabularyService';
+import { splitArticle } from './AnswerGrading';
+
+export type OptionField = 'original' | 'translation';
+
+export interface DistractorOptions {
+    count?: number;
+    // Answers the user previously gave instead of the correct one
+    confusedWith?: string[];
+    random?: () => number;
+}
+
+// Relative weight of each similarity signal; a past confusion outweighs all the others combined
+const CONFUSED_WEIGHT = 8;
+const CATEGORY_WEIGHT = 3;
+const ARTICLE_WEIGHT = 2;
+const LENGTH_WEIGHT = 2;
+const SCRIPT_MISMATCH_PENALTY = 4;
+// Random jitter so equally good distractors rotate between sessions
+const JITTER_WEIGHT = 1;
+
+const SCRIPT_RANGES: [string, RegExp][] = [
+    ['latin', /[A-Za-zÀ-ɏ]/],
+    ['greek', /[Ͱ-Ͽ]/],
+    ['cyrillic', /[Ѐ-ӿ]/],
+    ['hebrew', /[֐-׿]/],
+    ['arabic', /[؀-ۿ]/],
+    ['devanagari', /[ऀ-ॿ]/],
+    ['bengali', /[ঀ-৿]/],
+    ['gurmukhi', /[਀-੿]/],
+    ['gujarati', /[઀-૿]/],
+    ['tamil', /[஀-௿]/],
+    ['telugu', /[ఀ-౿]/],
+    ['thai', /[฀-๿]/],
+    ['hangul', /[가-힯ᄀ-ᇿ]/],
+    ['kana', /[぀-ヿ]/],
+    ['han', /[一-鿿]/],
+];
+
+/**
+ * Writing system of the first letter of a text ('other' for digits, symbols or unknown scripts)
+ */
+export function getScript(text: string): string {
+    for (const char of text) {
+        for (const [script, pattern] of SCRIPT_RANGES) {
+            if (pattern.test(char)) return script;
+        }
+    }
+    return 'other';
+}
+
+function getCategory(word: SavedWord): string {
+    return WordCategorizer.getWordCategory(word.original);
+}
+
+/**
+ * Score how plausible a candidate is as a wrong answer for the word
+ */
+function scoreCandidate(
+    word: SavedWord,
+    candidate: SavedWord,
+    field: OptionField,
+    confused: Set<string>,
+): number {
+    const correct = word[field];
+    const option = candidate[field];
+    // Articles are only split off the target-language side
+    const language = field === 'translation' ? word.language : 'en';
+
+    let score = 0;
+
+    if (confused.has(option.toLowerCase().trim())) score += CONFUSED_WEIGHT;
+    // 'noun' is WordCategorizer's fallback, so sharing it says nothing about the topic
+    const category = getCategory(word);
+    if (category !== 'noun' && getCategory(candidate) === category) score += CATEGORY_WEIGHT;
+
+    const correctArticle = splitArticle(correct.toLowerCase(), language).article;
+    if (correctArticle && splitArticle(option.toLowerCase(), language).article === correctArticle) {
+        score += ARTICLE_WEIGHT;
+    }
+
+    const longest = Math.max(correct.length, option.length, 1);
+    score += LENGTH_WEIGHT * (1 - Math.abs(correct.length - option.length) / longest);
+
+    if (getScript(option) !== getScript(correct)) score -= SCRIPT_MISMATCH_PENALTY;
+
+    return score;
+}
+
+/**
+ * Pick wrong answers that are hard to rule out: previously confused words first,
+ * then words of the same category, article and script with a similar length.
+ * With a small vocabulary every other word is used, so fewer options may come back.
+ */
+export function pickDistractors(
+    word: SavedWord,
+    vocabulary: SavedWord[],
+    field: OptionField,
+    options: DistractorOptions = {},
+): string[] {
+    const count = options.count ?? 3;
+    const random = options.random ?? Math.random;
+    const confused = new Set(
+        (options.confusedWith || []).map((answer) => answer.toLowerCase().trim()),
+    );
+
+    const seen = new Set([word[field].toLowerCase().trim()]);
+    const candidates: { option: string; score: number }[] = [];
+
+    for (const candidate of vocabulary) {
+        const option = candidate[field];
+        const key = option?.toLowerCase().trim();
+        if (!key || seen.has(key)) continue;
+        seen.add(key);
+
+        candidates.push({
+            option,
+            score: scoreCandidate(word, candidate, field, confused) + random() * JITTER_WEIGHT,
+        });
+    }
+
+    return candidates
+        .sort((a, b) => b.score - a.score)
+        .slice(0, count)
+        .map((candidate) => candidate.option);
+}
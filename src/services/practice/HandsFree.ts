@@ -0,0 +1,63 @@
+import { SavedWord } from '../VocabularyService';
+
+// Questions in a hands-free session
+export const HANDS_FREE_QUESTION_COUNT = 10;
+
+// How long the microphone listens for an answer after the prompt was read
+export const ANSWER_WINDOW_MS = 5000;
+
+// Limits on each audio step, so a stuck recorder or slow network never stalls the loop
+export const RECORDING_START_TIMEOUT_MS = 5000;
+export const RECORDING_STOP_TIMEOUT_MS = 5000;
+export const EVALUATION_TIMEOUT_MS = 10000;
+export const SPEECH_TIMEOUT_MS = 15000;
+
+// Quiet moment between the feedback and the next prompt
+export const PAUSE_BETWEEN_QUESTIONS_MS = 800;
+
+// The session pauses itself after this many answers in a row with nothing heard
+export const MAX_SILENT_ANSWERS = 2;
+
+/**
+ * A line read aloud, in the language it should be spoken in
+ */
+export interface SpokenLine {
+    text: string;
+    language: string;
+}
+
+/**
+ * The question read aloud: the English word, to be answered in the target language
+ */
+export function getSpokenPrompt(word: SavedWord, languageName: string): string {
+    return `How do you say "${word.original}" in ${languageName}?`;
+}
+
+/**
+ * "Correct!", or "The answer was" followed by the answer in the word's own voice
+ */
+export function getSpokenFeedback(isCorrect: boolean, word: SavedWord): SpokenLine[] {
+    if (isCorrect) return [{ text: 'Correct!', language: 'en' }];
+
+    return [
+        { text: 'The answer was', language: 'en' },
+        { text: word.translation, language: word.language },
+    ];
+}
+
+export function getSpokenSummary(correctAnswers: number, totalQuestions: number): SpokenLine {
+    return {
+        text: `Session complete. You got ${correctAnswers} out of ${totalQuestions} right.`,
+        language: 'en',
+    };
+}
+
+/**
+ * Resolve with the promise's value, or with fallback once ms have passed
+ */
+export function withTimeout<T>(promise: Promise<T>, ms: number, fallback: T): Promise<T> {
+    return Promise.race([
+        promise,
+        new Promise<T>((resolve) => setTimeout(() => resolve(fallback), ms)),
+    ]);
+}
@@ -0,0 +1,114 @@
+import { SavedWord } from '../VocabularyService';
+import { QuestionType } from './QuestionPlan';
+import { NounGender, detectNounGender, getArticleOptions, splitNoun } from './NounGender';
+import { parseExample } from './SentenceBuilding';
+
+/**
+ * Hints are revealed in this order, each one giving more of the answer away
+ */
+export type HintTier = 'first_letter' | 'gender' | 'example' | 'audio';
+
+export const HINT_TIERS: HintTier[] = ['first_letter', 'gender', 'example', 'audio'];
+
+export const HINT_TIER_LABELS: Record<HintTier, string> = {
+    first_letter: 'First letter',
+    gender: 'Article',
+    example: 'Example sentence',
+    audio: 'Pronunciation',
+};
+
+// A correct answer is worth this much XP without hints; each hint revealed takes HINT_XP_COST off
+export const ANSWER_XP = 10;
+export const HINT_XP_COST = 2;
+
+// Questions with a single answer to recall; the others show their material up front
+export const HINT_QUESTION_TYPES: QuestionType[] = [
+    'translation',
+    'multiple_choice',
+    'reverse_translation',
+    'listening',
+    'typing',
+    'context',
+    'image',
+];
+
+export interface Hint {
+    tier: HintTier;
+    text: string;
+    english?: string; // translation of an example sentence
+    audioText?: string; // spoken in the word's language when the hint is revealed
+}
+
+/**
+ * The parts of a question hints are built from
+ */
+export interface HintableQuestion {
+    type: QuestionType;
+    word: SavedWord;
+    correctAnswer: string;
+}
+
+/**
+ * "m _ _ _ _" for "mesa": the first letter and one blank per remaining letter
+ */
+export function formatFirstLetter(answer: string): string {
+    const letters = [...answer.trim()];
+    if (letters.length === 0) return '';
+
+    return [letters[0], ...letters.slice(1).map((letter) => (letter === ' ' ? ' ' : '_'))].join(
+        ' ',
+    );
+}
+
+const GENDER_NAMES: Record<NounGender, string> = {
+    masculine: 'Masculine',
+    feminine: 'Feminine',
+    neuter: 'Neuter',
+};
+
+/**
+ * The hints a question offers, in the order they are revealed. Tiers that don't apply
+ * are left out: the article and example only help when the answer is in the target
+ * language, and the audio tier would repeat a listening question's prompt.
+ */
+export function getQuestionHints(question: HintableQuestion): Hint[] {
+    if (!HINT_QUESTION_TYPES.includes(question.type)) return [];
+
+    const { word, correctAnswer } = question;
+    const answersTranslation = correctAnswer === word.translation;
+    const hints: Hint[] = [];
+
+    const { noun } = answersTranslation
+        ? splitNoun(correctAnswer, word.language)
+        : { noun: correctAnswer };
+    if ([...noun.trim()].length > 1) {
+        hints.push({ tier: 'first_letter', text: formatFirstLetter(noun) });
+    }
+
+    if (!answersTranslation) return hints;
+
+    const gender = word.gender || detectNounGender(word.translation, word.language);
+    const article =
+        gender && getArticleOptions(noun, word.language).find((option) => option.gender === gender);
+    if (gender && article) {
+        hints.push({ tier: 'gender', text: `${GENDER_NAMES[gender]} noun: ${article.article} …` });
+    }
+
+    const example = parseExample(word.example, word.exampleEnglish);
+    if (example) {
+        hints.push({ tier: 'example', text: example.sentence, english: example.english });
+    }
+
+    if (question.type !== 'listening') {
+        hints.push({ tier: 'audio', text: 'Listen to the word', audioText: word.translation });
+    }
+
+    return hints;
+}
+
+/**
+ * XP of a correct answer after the hints that were revealed for it
+ */
+export function getAnswerXP(hintsUsed: number = 0): number {
+    return Math.max(0, ANSWER_XP - HINT_XP_COST * hintsUsed);
+}
@@ -0,0 +1,140 @@
+import { QuestionType } from './QuestionPlan';
+
+/**
+ * How much an answer says about knowing the word, from 0 to 1.
+ * Recognising the word among a few options is easy to guess; producing it from memory is not.
+ */
+export const QUESTION_DIFFICULTY: Record<QuestionType, number> = {
+    multiple_choice: 0.4,
+    translation: 0.4,
+    matching: 0.4,
+    gender: 0.5,
+    contrast: 0.5,
+    reverse_translation: 0.5,
+    listening: 0.6,
+    image: 0.6,
+    context: 0.7,
+    pronunciation: 0.7,
+    recording: 0.7,
+    sentence_building: 0.8,
+    spoken: 0.8,
+    typing: 1,
+    dictation: 1,
+};
+
+// Question types answered by typing or speaking get more time before they count as slow
+const PRODUCTION_TYPES: QuestionType[] = [
+    'typing',
+    'dictation',
+    'sentence_building',
+    'recording',
+    'pronunciation',
+    'spoken',
+];
+
+// A fully weighted correct answer closes this share of the gap to 100
+const LEARNING_RATE = 0.25;
+// A wrong answer on the easiest question loses this share of the proficiency
+const FORGETTING_RATE = 0.3;
+
+// Answers faster than this count in full; slower ones count less, down to SLOW_ANSWER_WEIGHT
+const FAST_ANSWER_MS = 5000;
+const SLOW_ANSWER_MS = 15000;
+const SLOW_ANSWER_WEIGHT = 0.5;
+
+// Each hint halves what a correct answer is worth
+const HINT_WEIGHT = 0.5;
+
+// Proficiency holds for a few days after a review, then fades by half every half-life.
+// Well-known words fade slower.
+const DECAY_GRACE_DAYS = 3;
+const MIN_HALF_LIFE_DAYS = 14;
+const MAX_HALF_LIFE_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * What is known about one answer
+ */
+export interface AnswerEvidence {
+    type: QuestionType;
+    credit: number; // 0-1, partial credit for almost-correct answers
+    timeSpent?: number; // ms
+    hintsUsed?: number;
+}
+
+function clampProficiency(value: number): number {
+    return Math.max(0, Math.min(100, Math.round(value)));
+}
+
+/**
+ * 1 for a quick answer, falling linearly to SLOW_ANSWER_WEIGHT for a slow one
+ */
+export function getSpeedWeight(type: QuestionType, timeSpent?: number): number {
+    if (timeSpent === undefined) return 1;
+
+    const allowance = PRODUCTION_TYPES.includes(type) ? 2 : 1;
+    const fast = FAST_ANSWER_MS * allowance;
+    const slow = SLOW_ANSWER_MS * allowance;
+    if (timeSpent <= fast) return 1;
+    if (timeSpent >= slow) return SLOW_ANSWER_WEIGHT;
+
+    return 1 - ((1 - SLOW_ANSWER_WEIGHT) * (timeSpent - fast)) / (slow - fast);
+}
+
+/**
+ * Proficiency after an answer. Correct answers close part of the gap to 100, weighted by
+ * question difficulty, speed, hints and partial credit; wrong answers lose a share of the
+ * proficiency, more on easy questions.
+ */
+export function applyAnswer(proficiency: number, evidence: AnswerEvidence): number {
+    const difficulty = QUESTION_DIFFICULTY[evidence.type] ?? 0.5;
+
+    if (evidence.credit <= 0) {
+        const loss = proficiency * FORGETTING_RATE * (1 - difficulty / 2);
+        return clampProficiency(proficiency - Math.max(1, loss));
+    }
+
+    const weight =
+        difficulty *
+        evidence.credit *
+        getSpeedWeight(evidence.type, evidence.timeSpent) *
+        Math.pow(HINT_WEIGHT, evidence.hintsUsed ?? 0);
+    const gain = (100 - proficiency) * LEARNING_RATE * weight;
+
+    return clampProficiency(proficiency + Math.max(1, gain));
+}
+
+/**
+ * Proficiency as of now: the stored value faded by the time since the word was last reviewed
+ */
+export function getCurrentProficiency(
+    proficiency: number,
+    lastReviewedAt?: string | null,
+    now: Date = new Date(),
+): number {
+    if (!lastReviewedAt) return proficiency;
+
+    const days = (now.getTime() - new Date(lastReviewedAt).getTime()) / DAY_MS - DECAY_GRACE_DAYS;
+    if (!(days > 0)) return proficiency;
+
+    const halfLife =
+        MIN_HALF_LIFE_DAYS + ((MAX_HALF_LIFE_DAYS - MIN_HALF_LIFE_DAYS) * proficiency) / 100;
+    return clampProficiency(proficiency * Math.pow(0.5, days / halfLife));
+}
+
+/**
+ * The fields of a user_words row that proficiency is read from
+ */
+export interface StoredProficiency {
+    proficiency: number | null;
+    last_reviewed_at?: string | null;
+}
+
+/**
+ * Current proficiency of a user_words row. Stats, achievements and the vocabulary
+ * all read proficiency through this, so they agree on what is mastered.
+ */
+export function getWordProficiency(row: StoredProficiency, now: Date = new Date()): number {
+    return getCurrentProficiency(row.proficiency || 0, row.last_reviewed_at, now);
+}
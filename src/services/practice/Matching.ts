@@ -0,0 +1,91 @@
+import { SavedWord } from '../VocabularyService';
+import { GradeResult } from './AnswerGrading';
+
+/**
+ * One original/translation pair on a matching board
+ */
+export interface MatchPair {
+    word: SavedWord;
+    userMatch?: string; // translation the user connected to word.original
+    isCorrect?: boolean;
+}
+
+export const MIN_MATCHING_PAIRS = 4;
+export const MAX_MATCHING_PAIRS = 6;
+
+/**
+ * Pick the words for a matching board: the question's word first, then other session
+ * words, then the rest of the vocabulary. Originals and translations must be unique on
+ * the board, or a connection could be right for the wrong reason.
+ * Returns null when fewer than MIN_MATCHING_PAIRS distinct words are available.
+ */
+export function buildMatchingPairs(
+    word: SavedWord,
+    sessionWords: SavedWord[],
+    vocabulary: SavedWord[],
+    maxPairs: number = MAX_MATCHING_PAIRS,
+): MatchPair[] | null {
+    const pairs: MatchPair[] = [];
+    const originals = new Set<string>();
+    const translations = new Set<string>();
+
+    for (const candidate of [word, ...sessionWords, ...vocabulary]) {
+        if (pairs.length >= maxPairs) break;
+        if (candidate.language !== word.language) continue;
+
+        const original = candidate.original.toLowerCase().trim();
+        const translation = candidate.translation.toLowerCase().trim();
+        if (!original || !translation || originals.has(original) || translations.has(translation))
+            continue;
+
+        originals.add(original);
+        translations.add(translation);
+        pairs.push({ word: candidate });
+    }
+
+    return pairs.length >= MIN_MATCHING_PAIRS ? pairs : null;
+}
+
+/**
+ * Matches travel through submitAnswer as JSON: { [SavedWord id]: chosen translation }
+ */
+export function encodeMatches(matches: Record<string, string>): string {
+    return JSON.stringify(matches);
+}
+
+export function decodeMatches(answer: string): Record<string, string> {
+    try {
+        const parsed = JSON.parse(answer);
+        return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch (error) {
+        console.error('Error decoding matching answer:', error);
+        return {};
+    }
+}
+
+/**
+ * Grade every pair of a board; the board is correct only when all pairs are,
+ * and earns partial credit for the share of pairs matched
+ */
+export function gradeMatches(pairs: MatchPair[], matches: Record<string, string>): GradeResult {
+    let matched = 0;
+
+    for (const pair of pairs) {
+        pair.userMatch = matches[pair.word.id];
+        pair.isCorrect = pair.userMatch === pair.word.translation;
+        if (pair.isCorrect) matched++;
+    }
+
+    const credit = pairs.length > 0 ? matched / pairs.length : 0;
+    const feedback = `${matched} of ${pairs.length} pairs matched`;
+
+    if (matched === pairs.length) {
+        return { verdict: 'correct', reason: 'exact', credit: 1, feedback };
+    }
+    return {
+        verdict: credit >= 0.5 ? 'almost_correct' : 'wrong',
+        reason: 'partial_match',
+        credit,
+        feedback,
+    };
+}
@@ -0,0 +1,47 @@
+import { AnswerLogEntry } from '../AnswerLogService';
+
+// How many recent sessions are searched for missed words
+export const MISTAKE_REVIEW_SESSION_COUNT = 5;
+// Correct answers in a row that take a word off the mistakes list
+export const MISTAKE_CLEAR_STREAK = 2;
+export const MAX_MISTAKE_REVIEW_QUESTIONS = 10;
+
+/**
+ * Pick the words that still need mistake review, most recently missed first, as
+ * `${userWordId}_${language}` ids like SavedWord's. One user_words row backs a word in each
+ * language, so a word is tracked per language: answers in one don't clear a miss in another.
+ * A word qualifies if it was answered wrong (or skipped) in the given answers and its
+ * latest answers are not yet MISTAKE_CLEAR_STREAK correct ones in a row.
+ */
+export function selectMistakeWordIds(answers: AnswerLogEntry[]): string[] {
+    const byWord = new Map<string, AnswerLogEntry[]>();
+
+    const newestFirst = [...answers].sort(
+        (a, b) => new Date(b.answeredAt).getTime() - new Date(a.answeredAt).getTime(),
+    );
+    for (const answer of newestFirst) {
+        const wordId = `${answer.userWordId}_${answer.language}`;
+        if (!byWord.has(wordId)) {
+            byWord.set(wordId, []);
+        }
+        byWord.get(wordId)!.push(answer);
+    }
+
+    const mistakes: { wordId: string; lastMissedAt: number }[] = [];
+
+    for (const [wordId, wordAnswers] of byWord) {
+        const lastMiss = wordAnswers.find((answer) => !answer.isCorrect);
+        if (!lastMiss) continue;
+
+        const latest = wordAnswers.slice(0, MISTAKE_CLEAR_STREAK);
+        const cleared =
+            latest.length === MISTAKE_CLEAR_STREAK && latest.every((answer) => answer.isCorrect);
+        if (cleared) continue;
+
+        mistakes.push({ wordId, lastMissedAt: new Date(lastMiss.answeredAt).getTime() });
+    }
+
+    return mistakes
+        .sort((a, b) => b.lastMissedAt - a.lastMissedAt)
+        .map((mistake) => mistake.wordId);
+}
@@ -0,0 +1,881 @@
+import { splitArticle } from './AnswerGrading';
+
+export type NounGender = 'masculine' | 'feminine' | 'neuter';
+
+// Languages with a gender/article drill and the genders they distinguish
+const LANGUAGE_GENDERS: Record<string, NounGender[]> = {
+    de: ['masculine', 'feminine', 'neuter'],
+    fr: ['masculine', 'feminine'],
+    es: ['masculine', 'feminine'],
+    it: ['masculine', 'feminine'],
+    pt: ['masculine', 'feminine'],
+};
+
+const DEFINITE_ARTICLES: Record<string, Partial<Record<NounGender, string>>> = {
+    de: { masculine: 'der', feminine: 'die', neuter: 'das' },
+    fr: { masculine: 'le', feminine: 'la' },
+    es: { masculine: 'el', feminine: 'la' },
+    it: { masculine: 'il', feminine: 'la' },
+    pt: { masculine: 'o', feminine: 'a' },
+};
+
+// Articles that reveal a gender when a translation comes back with one
+const ARTICLE_GENDERS: Record<string, Record<string, NounGender>> = {
+    de: { der: 'masculine', die: 'feminine', das: 'neuter', eine: 'feminine' },
+    fr: { le: 'masculine', la: 'feminine', un: 'masculine', une: 'feminine' },
+    es: { el: 'masculine', la: 'feminine', un: 'masculine', una: 'feminine' },
+    it: {
+        il: 'masculine',
+        lo: 'masculine',
+        un: 'masculine',
+        uno: 'masculine',
+        la: 'feminine',
+        una: 'feminine',
+        "un'": 'feminine',
+    },
+    pt: { o: 'masculine', um: 'masculine', a: 'feminine', uma: 'feminine' },
+};
+
+/**
+ * Bundled genders of everyday nouns, mostly objects the camera detects.
+ * Keys are the target-language noun without its article, lowercase.
+ */
+const GENDER_LEXICON: Record<string, Partial<Record<NounGender, string[]>>> = {
+    de: {
+        masculine: [
+            'mann',
+            'bus',
+            'zug',
+            'lastwagen',
+            'vogel',
+            'hund',
+            'elefant',
+            'bär',
+            'rucksack',
+            'schirm',
+            'koffer',
+            'ball',
+            'drachen',
+            'löffel',
+            'tisch',
+            'stuhl',
+            'apfel',
+            'kuchen',
+            'fernseher',
+            'laptop',
+            'computer',
+            'schlüssel',
+            'baum',
+            'schuh',
+            'hut',
+            'teller',
+            'becher',
+            'schrank',
+            'spiegel',
+            'ofen',
+            'stift',
+            'kugelschreiber',
+            'käse',
+            'wein',
+            'kaffee',
+            'tee',
+            'mantel',
+            'rock',
+            'gürtel',
+            'handschuh',
+            'pullover',
+            'schal',
+            'brokkoli',
+            'toaster',
+            'teppich',
+            'vorhang',
+            'topf',
+            'löwe',
+            'tiger',
+            'affe',
+            'fisch',
+            'hase',
+            'frosch',
+            'wolf',
+            'fuchs',
+            'sessel',
+            'kühlschrank',
+            'monitor',
+            'bildschirm',
+            'reifen',
+            'helm',
+            'kürbis',
+            // Exceptions to the -ung suffix rule below
+            'sprung',
+            'ursprung',
+            'schwung',
+        ],
+        feminine: [
+            'frau',
+            'person',
+            'bank',
+            'katze',
+            'kuh',
+            'giraffe',
+            'tasche',
+            'krawatte',
+            'flasche',
+            'tasse',
+            'gabel',
+            'schüssel',
+            'banane',
+            'orange',
+            'karotte',
+            'möhre',
+            'pizza',
+            'uhr',
+            'vase',
+            'schere',
+            'zahnbürste',
+            'bürste',
+            'tür',
+            'lampe',
+            'blume',
+            'tastatur',
+            'maus',
+            'milch',
+            'butter',
+            'brille',
+            'jacke',
+            'hose',
+            'socke',
+            'kerze',
+            'pflanze',
+            'toilette',
+            'couch',
+            'mikrowelle',
+            'gurke',
+            'tomate',
+            'kartoffel',
+            'zitrone',
+            'erdbeere',
+            'birne',
+            'traube',
+            'ente',
+            'gans',
+            'schlange',
+            'ampel',
+            'fernbedienung',
+            'kamera',
+            'pfanne',
+            'decke',
+            'mütze',
+        ],
+        neuter: [
+            'kind',
+            'fahrrad',
+            'rad',
+            'auto',
+            'motorrad',
+            'flugzeug',
+            'boot',
+            'schiff',
+            'pferd',
+            'schaf',
+            'zebra',
+            'messer',
+            'sandwich',
+            'bett',
+            'sofa',
+            'handy',
+            'smartphone',
+            'telefon',
+            'buch',
+            'fenster',
+            'glas',
+            'haus',
+            'brot',
+            'ei',
+            'wasser',
+            'hemd',
+            'kleid',
+            'bild',
+            'regal',
+            'kissen',
+            'schwein',
+            'huhn',
+            'kaninchen',
+            'fleisch',
+            'obst',
+            'gemüse',
+            'papier',
+            'spielzeug',
+            'waschbecken',
+            'tablet',
+            'schild',
+            'surfbrett',
+            'skateboard',
+        ],
+    },
+    fr: {
+        masculine: [
+            'homme',
+            'enfant',
+            'vélo',
+            'avion',
+            'bus',
+            'train',
+            'camion',
+            'bateau',
+            'banc',
+            'oiseau',
+            'chat',
+            'chien',
+            'cheval',
+            'mouton',
+            'éléphant',
+            'ours',
+            'zèbre',
+            'sac',
+            'sac à dos',
+            'sac à main',
+            'parapluie',
+            'ballon',
+            'cerf-volant',
+            'couteau',
+            'bol',
+            'gâteau',
+            'sandwich',
+            'brocoli',
+            'lit',
+            'canapé',
+            'ordinateur',
+            'ordinateur portable',
+            'téléphone',
+            'portable',
+            'livre',
+            'clavier',
+            'vase',
+            'verre',
+            'arbre',
+            'chapeau',
+            'pantalon',
+            'manteau',
+            'pull',
+            'fromage',
+            'pain',
+            'œuf',
+            'lait',
+            'café',
+            'thé',
+            'vin',
+            'miroir',
+            'réfrigérateur',
+            'four',
+            'stylo',
+            'crayon',
+            'tapis',
+            'rideau',
+            'jouet',
+            'lapin',
+            'poisson',
+            'lion',
+            'tigre',
+            'singe',
+            'citron',
+            'poulet',
+            'canard',
+            'serpent',
+            'loup',
+            'renard',
+            'téléviseur',
+            'écran',
+            'micro-ondes',
+            'évier',
+            'coussin',
+            'fauteuil',
+            'bureau',
+            'oreiller',
+            'feu',
+            'skateboard',
+        ],
+        feminine: [
+            'femme',
+            'personne',
+            'voiture',
+            'moto',
+            'vache',
+            'girafe',
+            'cravate',
+            'valise',
+            'bouteille',
+            'tasse',
+            'fourchette',
+            'cuillère',
+            'banane',
+            'orange',
+            'carotte',
+            'pizza',
+            'chaise',
+            'table',
+            'télévision',
+            'souris',
+            'horloge',
+            'montre',
+            'brosse à dents',
+            'porte',
+            'fenêtre',
+            'lampe',
+            'fleur',
+            'maison',
+            'chemise',
+            'chaussure',
+            'robe',
+            'jupe',
+            'veste',
+            'chaussette',
+            'plante',
+            'bougie',
+            'pomme',
+            'poire',
+            'fraise',
+            'tomate',
+            'pomme de terre',
+            'assiette',
+            'clé',
+            'eau',
+            'bière',
+            'cuisine',
+            'chambre',
+            'poule',
+            'tortue',
+            'grenouille',
+            'planche de surf',
+            'caméra',
+        ],
+    },
+    // Feminine nouns with a stressed initial a- take "el" ("el agua") and are left out
+    es: {
+        masculine: [
+            'hombre',
+            'niño',
+            'coche',
+            'carro',
+            'avión',
+            'autobús',
+            'tren',
+            'camión',
+            'barco',
+            'banco',
+            'pájaro',
+            'gato',
+            'perro',
+            'caballo',
+            'elefante',
+            'oso',
+            'paraguas',
+            'bolso',
+            'tenedor',
+            'cuchillo',
+            'tazón',
+            'cuenco',
+            'plátano',
+            'sándwich',
+            'brócoli',
+            'pastel',
+            'sofá',
+            'sillón',
+            'televisor',
+            'ordenador',
+            'portátil',
+            'teclado',
+            'ratón',
+            'teléfono',
+            'móvil',
+            'libro',
+            'reloj',
+            'jarrón',
+            'cepillo de dientes',
+            'cepillo',
+            'árbol',
+            'zapato',
+            'sombrero',
+            'vaso',
+            'plato',
+            'pan',
+            'huevo',
+            'queso',
+            'café',
+            'té',
+            'vino',
+            'espejo',
+            'refrigerador',
+            'frigorífico',
+            'horno',
+            'bolígrafo',
+            'lápiz',
+            'juguete',
+            'conejo',
+            'pez',
+            'león',
+            'tigre',
+            'mono',
+            'pollo',
+            'pato',
+            'lobo',
+            'zorro',
+            'inodoro',
+            'lavabo',
+            'cojín',
+            'escritorio',
+            'pantalón',
+            'abrigo',
+            'vestido',
+            'microondas',
+            'tomate',
+            'semáforo',
+        ],
+        feminine: [
+            'mujer',
+            'persona',
+            'bicicleta',
+            'moto',
+            'oveja',
+            'vaca',
+            'cebra',
+            'jirafa',
+            'mochila',
+            'corbata',
+            'maleta',
+            'pelota',
+            'cometa',
+            'botella',
+            'taza',
+            'cuchara',
+            'banana',
+            'naranja',
+            'zanahoria',
+            'pizza',
+            'tarta',
+            'silla',
+            'mesa',
+            'cama',
+            'televisión',
+            'computadora',
+            'puerta',
+            'ventana',
+            'lámpara',
+            'flor',
+            'casa',
+            'camisa',
+            'camiseta',
+            'chaqueta',
+            'falda',
+            'leche',
+            'manzana',
+            'pera',
+            'fresa',
+            'uva',
+            'patata',
+            'papa',
+            'planta',
+            'vela',
+            'llave',
+            'cocina',
+            'gallina',
+            'tortuga',
+            'rana',
+            'serpiente',
+            'cartera',
+            'bolsa',
+            'almohada',
+            'nevera',
+            'alfombra',
+            'cortina',
+            'galleta',
+            'cerveza',
+            'sandía',
+            'cámara',
+            'tabla de surf',
+        ],
+    },
+    it: {
+        masculine: [
+            'uomo',
+            'bambino',
+            'treno',
+            'camion',
+            'autobus',
+            'aereo',
+            'uccello',
+            'gatto',
+            'cane',
+            'cavallo',
+            'elefante',
+            'orso',
+            'zaino',
+            'ombrello',
+            'aquilone',
+            'coltello',
+            'cucchiaio',
+            'panino',
+            'broccolo',
+            'divano',
+            'letto',
+            'tavolo',
+            'televisore',
+            'computer',
+            'portatile',
+            'telefono',
+            'cellulare',
+            'libro',
+            'orologio',
+            'vaso',
+            'spazzolino',
+            'albero',
+            'fiore',
+            'cappello',
+            'bicchiere',
+            'piatto',
+            'pane',
+            'uovo',
+            'formaggio',
+            'latte',
+            'caffè',
+            'tè',
+            'vino',
+            'specchio',
+            'frigorifero',
+            'forno',
+            'tappeto',
+            'giocattolo',
+            'coniglio',
+            'pesce',
+            'leone',
+            'pollo',
+            'lupo',
+            'lavandino',
+            'cuscino',
+            'mouse',
+            'pallone',
+            'cappotto',
+            'vestito',
+            'maglione',
+            'semaforo',
+            'water',
+        ],
+        feminine: [
+            'donna',
+            'persona',
+            'bicicletta',
+            'macchina',
+            'auto',
+            'moto',
+            'barca',
+            'panchina',
+            'pecora',
+            'mucca',
+            'zebra',
+            'giraffa',
+            'borsa',
+            'cravatta',
+            'valigia',
+            'palla',
+            'bottiglia',
+            'tazza',
+            'forchetta',
+            'ciotola',
+            'banana',
+            'arancia',
+            'carota',
+            'pizza',
+            'torta',
+            'sedia',
+            'tastiera',
+            'porta',
+            'finestra',
+            'lampada',
+            'casa',
+            'camicia',
+            'scarpa',
+            'gonna',
+            'giacca',
+            'mela',
+            'pera',
+            'fragola',
+            'patata',
+            'pianta',
+            'candela',
+            'chiave',
+            'cucina',
+            'tigre',
+            'scimmia',
+            'gallina',
+            'tartaruga',
+            'rana',
+            'acqua',
+            'birra',
+            'televisione',
+            'fotocamera',
+            'tavola da surf',
+        ],
+    },
+    pt: {
+        masculine: [
+            'homem',
+            'carro',
+            'avião',
+            'ônibus',
+            'autocarro',
+            'trem',
+            'comboio',
+            'caminhão',
+            'barco',
+            'banco',
+            'pássaro',
+            'gato',
+            'cão',
+            'cachorro',
+            'cavalo',
+            'elefante',
+            'urso',
+            'guarda-chuva',
+            'garfo',
+            'prato',
+            'bolo',
+            'sanduíche',
+            'brócolis',
+            'sofá',
+            'computador',
+            'telefone',
+            'celular',
+            'livro',
+            'relógio',
+            'vaso',
+            'copo',
+            'pão',
+            'ovo',
+            'queijo',
+            'leite',
+            'café',
+            'chá',
+            'vinho',
+            'espelho',
+            'forno',
+            'lápis',
+            'brinquedo',
+            'coelho',
+            'peixe',
+            'leão',
+            'tigre',
+            'macaco',
+            'frango',
+            'pato',
+            'lobo',
+            'sapato',
+            'chapéu',
+            'vestido',
+            'casaco',
+            'travesseiro',
+            'tapete',
+            'teclado',
+            'mouse',
+            'semáforo',
+            'vaso sanitário',
+            'micro-ondas',
+        ],
+        feminine: [
+            'mulher',
+            'pessoa',
+            'criança',
+            'bicicleta',
+            'moto',
+            'ovelha',
+            'vaca',
+            'zebra',
+            'girafa',
+            'mochila',
+            'bolsa',
+            'gravata',
+            'mala',
+            'bola',
+            'pipa',
+            'garrafa',
+            'xícara',
+            'chávena',
+            'faca',
+            'colher',
+            'tigela',
+            'banana',
+            'laranja',
+            'cenoura',
+            'pizza',
+            'cadeira',
+            'mesa',
+            'cama',
+            'televisão',
+            'tesoura',
+            'escova de dentes',
+            'porta',
+            'janela',
+            'lâmpada',
+            'flor',
+            'casa',
+            'camisa',
+            'camiseta',
+            'saia',
+            'jaqueta',
+            'maçã',
+            'pera',
+            'morango',
+            'batata',
+            'planta',
+            'vela',
+            'chave',
+            'cozinha',
+            'galinha',
+            'tartaruga',
+            'água',
+            'cerveja',
+            'geladeira',
+            'árvore',
+            'câmera',
+            'prancha de surf',
+        ],
+    },
+};
+
+// German compounds take the gender of their last part ("Handtasche" -> "Tasche").
+// Shorter parts match the ends of unrelated words ("Grad" is not a "Rad").
+const MIN_COMPOUND_HEAD_LENGTH = 4;
+const MIN_COMPOUND_MODIFIER_LENGTH = 3;
+
+// German suffixes that always mark the gender of the noun they end
+const GERMAN_GENDER_SUFFIXES: [string, NounGender][] = [
+    ['ung', 'feminine'],
+    ['heit', 'feminine'],
+    ['keit', 'feminine'],
+    ['schaft', 'feminine'],
+    ['tion', 'feminine'],
+    ['tät', 'feminine'],
+    ['chen', 'neuter'],
+    ['lein', 'neuter'],
+    ['ling', 'masculine'],
+    ['ismus', 'masculine'],
+];
+
+const lexiconIndex = new Map<string, Map<string, NounGender>>();
+
+function getLexicon(language: string): Map<string, NounGender> {
+    let index = lexiconIndex.get(language);
+    if (!index) {
+        index = new Map();
+        for (const [gender, nouns] of Object.entries(GENDER_LEXICON[language] || {})) {
+            for (const noun of nouns || []) index.set(noun, gender as NounGender);
+        }
+        lexiconIndex.set(language, index);
+    }
+    return index;
+}
+
+function baseLanguage(language: string): string {
+    return language.split('-')[0];
+}
+
+export function supportsGenderDrill(language: string): boolean {
+    return baseLanguage(language) in LANGUAGE_GENDERS;
+}
+
+/**
+ * Split a leading article off a translation, keeping the noun's own capitalization
+ */
+export function splitNoun(
+    translation: string,
+    language: string,
+): { article: string | null; noun: string } {
+    const text = translation.trim();
+    const { article, body } = splitArticle(text.toLowerCase(), baseLanguage(language));
+    return { article, noun: article ? text.slice(text.length - body.length) : text };
+}
+
+export function genderFromArticle(article: string | null, language: string): NounGender | null {
+    if (!article) return null;
+    return ARTICLE_GENDERS[baseLanguage(language)]?.[article.toLowerCase()] || null;
+}
+
+/**
+ * Look a noun up in the bundled lexicon. German nouns not in it are matched by the head
+ * of a compound, then by a gender-marking suffix. Null when the gender can't be told.
+ */
+export function lookupGender(noun: string, language: string): NounGender | null {
+    const lang = baseLanguage(language);
+    const key = noun.toLowerCase().trim();
+    const lexicon = getLexicon(lang);
+
+    const known = lexicon.get(key);
+    if (known) return known;
+
+    if (lang === 'de') {
+        for (
+            let start = MIN_COMPOUND_MODIFIER_LENGTH;
+            start <= key.length - MIN_COMPOUND_HEAD_LENGTH;
+            start++
+        ) {
+            const head = lexicon.get(key.slice(start));
+            if (head) return head;
+        }
+        const suffix = GERMAN_GENDER_SUFFIXES.find(
+            ([ending]) => key.endsWith(ending) && key.length > ending.length,
+        );
+        if (suffix) return suffix[1];
+    }
+    return null;
+}
+
+/**
+ * Gender of a saved translation: from its own article when it has one, otherwise from the lexicon
+ */
+export function detectNounGender(translation: string, language: string): NounGender | null {
+    if (!supportsGenderDrill(language)) return null;
+    const { article, noun } = splitNoun(translation, language);
+    return genderFromArticle(article, language) || lookupGender(noun, language);
+}
+
+function startsWithVowel(noun: string): boolean {
+    return /^[aeiouàâäéèêëíìîïóòôöúùûüœæ]/i.test(noun);
+}
+
+/**
+ * The article to quiz for each gender of a noun, spelled the way it goes with that noun.
+ * Elided articles (l') would give the gender away, so those nouns are quizzed with
+ * the indefinite article instead.
+ */
+export function getArticleOptions(
+    noun: string,
+    language: string,
+): { gender: NounGender; article: string }[] {
+    const lang = baseLanguage(language);
+    const genders = LANGUAGE_GENDERS[lang] || [];
+    const lower = noun.toLowerCase();
+
+    if (lang === 'fr' && /^[aeiouyàâäéèêëîïôöùûüœæh]/i.test(lower)) {
+        return [
+            { gender: 'masculine', article: 'un' },
+            { gender: 'feminine', article: 'une' },
+        ];
+    }
+    if (lang === 'it') {
+        if (startsWithVowel(lower)) {
+            return [
+                { gender: 'masculine', article: 'un' },
+                { gender: 'feminine', article: "un'" },
+            ];
+        }
+        const lo = /^(s[^aeiou]|z|gn|ps|pn|x|y)/.test(lower);
+        return [
+            { gender: 'masculine', article: lo ? 'lo' : 'il' },
+            { gender: 'feminine', article: 'la' },
+        ];
+    }
+
+    return genders.map((gender) => ({ gender, article: DEFINITE_ARTICLES[lang][gender]! }));
+}
+
+export function withArticle(article: string, noun: string): string {
+    return article.endsWith("'") ? `${article}${noun}` : `${article} ${noun}`;
+}
@@ -0,0 +1,174 @@
+import { PLACEMENT_BANDS, PlacementWord } from './PlacementWords';
+import { DEFAULT_EASE_FACTOR, ReviewSchedule } from './SpacedRepetition';
+import { shuffle } from './QuestionPlan';
+
+// Most questions a placement test asks per language
+export const PLACEMENT_QUESTION_COUNT = 12;
+const PLACEMENT_OPTION_COUNT = 4;
+// Share of a band's questions that must be right for the band to count as known
+const BAND_PASS_RATE = 2 / 3;
+// Wrong answers in a row on the first band that end the test early
+const BEGINNER_MISS_COUNT = 3;
+
+// Seeded words stay below the mastered threshold (80) so placement doesn't unlock achievements
+const KNOWN_PROFICIENCY = 70;
+const BOUNDARY_PROFICIENCY = 50; // the highest known band, where some words may still be shaky
+const KNOWN_INTERVAL_DAYS = 14;
+const BOUNDARY_INTERVAL_DAYS = 6;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PlacementQuestion {
+    word: PlacementWord;
+    band: number;
+    correctAnswer: string;
+    options: string[];
+}
+
+export interface PlacementAnswer {
+    original: string;
+    band: number;
+    isCorrect: boolean; // false for "I don't know"
+}
+
+/**
+ * A word placement found the user knows, ready to save to user_words
+ */
+export interface PlacementSeed {
+    original: string;
+    translation: string;
+    proficiency: number;
+    schedule: ReviewSchedule;
+}
+
+/**
+ * Staircase: start on the first band, go up a band after a right answer and down after a wrong one
+ */
+export function getNextBand(answers: PlacementAnswer[]): number {
+    const last = answers[answers.length - 1];
+    if (!last) return 0;
+
+    return last.isCorrect
+        ? Math.min(last.band + 1, PLACEMENT_BANDS.length - 1)
+        : Math.max(last.band - 1, 0);
+}
+
+/**
+ * The next question, from the staircase band or the nearest band with words left.
+ * Null once every bundled word has been asked.
+ */
+export function createPlacementQuestion(
+    language: string,
+    answers: PlacementAnswer[],
+    random: () => number = Math.random,
+): PlacementQuestion | null {
+    const asked = new Set(answers.map((answer) => answer.original));
+    const target = getNextBand(answers);
+
+    for (let distance = 0; distance < PLACEMENT_BANDS.length; distance++) {
+        for (const band of [target - distance, target + distance]) {
+            const words = (PLACEMENT_BANDS[band] ?? []).filter((word) => !asked.has(word.original));
+            if (words.length === 0) continue;
+
+            const word = shuffle(words, random)[0];
+            const correctAnswer = word.translations[language];
+            const distractors = [
+                ...new Set(PLACEMENT_BANDS[band].map((other) => other.translations[language])),
+            ].filter((translation) => translation !== correctAnswer);
+
+            return {
+                word,
+                band,
+                correctAnswer,
+                options: shuffle(
+                    [
+                        correctAnswer,
+                        ...shuffle(distractors, random).slice(0, PLACEMENT_OPTION_COUNT - 1),
+                    ],
+                    random,
+                ),
+            };
+        }
+    }
+    return null;
+}
+
+/**
+ * The test ends after PLACEMENT_QUESTION_COUNT questions, or early when the first band keeps being missed
+ */
+export function isPlacementFinished(answers: PlacementAnswer[]): boolean {
+    if (answers.length >= PLACEMENT_QUESTION_COUNT) return true;
+
+    const recent = answers.slice(-BEGINNER_MISS_COUNT);
+    return (
+        recent.length === BEGINNER_MISS_COUNT &&
+        recent.every((answer) => answer.band === 0 && !answer.isCorrect)
+    );
+}
+
+/**
+ * How many bands the user knows: every band up to the highest one passed.
+ * A band needs two answers to pass, so one lucky guess doesn't place the user.
+ */
+export function estimatePlacementLevel(answers: PlacementAnswer[]): number {
+    for (let band = PLACEMENT_BANDS.length - 1; band >= 0; band--) {
+        const bandAnswers = answers.filter((answer) => answer.band === band);
+        const correct = bandAnswers.filter((answer) => answer.isCorrect).length;
+        if (bandAnswers.length >= 2 && correct / bandAnswers.length >= BAND_PASS_RATE) {
+            return band + 1;
+        }
+    }
+    return 0;
+}
+
+/**
+ * Review state for a seeded word. Reviews are spread over the first interval
+ * so the seeded words don't all come due on the same day.
+ */
+export function getSeedSchedule(
+    proficiency: number,
+    index: number,
+    now: Date = new Date(),
+): ReviewSchedule {
+    const interval =
+        proficiency >= KNOWN_PROFICIENCY ? KNOWN_INTERVAL_DAYS : BOUNDARY_INTERVAL_DAYS;
+    const dueInDays = 1 + (index % interval);
+
+    return {
+        easeFactor: DEFAULT_EASE_FACTOR,
+        interval,
+        repetitions: 2,
+        nextReviewAt: new Date(now.getTime() + dueInDays * DAY_MS).toISOString(),
+        lastReviewedAt: now.toISOString(),
+    };
+}
+
+/**
+ * The words of every known band, except those the user got wrong.
+ * Right answers above the level are left out: they may have been guesses.
+ */
+export function getPlacementSeeds(
+    language: string,
+    answers: PlacementAnswer[],
+    level: number,
+    now: Date = new Date(),
+): PlacementSeed[] {
+    const missed = new Set(
+        answers.filter((answer) => !answer.isCorrect).map((answer) => answer.original),
+    );
+    const seeds: PlacementSeed[] = [];
+
+    PLACEMENT_BANDS.slice(0, level).forEach((words, band) => {
+        const proficiency = band === level - 1 ? BOUNDARY_PROFICIENCY : KNOWN_PROFICIENCY;
+        for (const word of words) {
+            if (missed.has(word.original)) continue;
+            seeds.push({
+                original: word.original,
+                translation: word.translations[language],
+                proficiency,
+                schedule: getSeedSchedule(proficiency, seeds.length, now),
+            });
+        }
+    });
+    return seeds;
+}
@@ -0,0 +1,400 @@
+/**
+ * A bundled word with its translations in every placement language
+ */
+export interface PlacementWord {
+    original: string; // English, as saved in words.original
+    translations: Record<string, string>;
+}
+
+/**
+ * Everyday English nouns in five frequency bands, most common first.
+ * Band n holds words ranked roughly in the next few thousand after band n - 1,
+ * so a learner who knows a band can be expected to know the ones before it.
+ */
+export const PLACEMENT_BANDS: PlacementWord[][] = [
+    [
+        {
+            original: 'time',
+            translations: { es: 'tiempo', fr: 'temps', de: 'Zeit', it: 'tempo', pt: 'tempo' },
+        },
+        {
+            original: 'day',
+            translations: { es: 'día', fr: 'jour', de: 'Tag', it: 'giorno', pt: 'dia' },
+        },
+        {
+            original: 'man',
+            translations: { es: 'hombre', fr: 'homme', de: 'Mann', it: 'uomo', pt: 'homem' },
+        },
+        {
+            original: 'woman',
+            translations: { es: 'mujer', fr: 'femme', de: 'Frau', it: 'donna', pt: 'mulher' },
+        },
+        {
+            original: 'child',
+            translations: { es: 'niño', fr: 'enfant', de: 'Kind', it: 'bambino', pt: 'criança' },
+        },
+        {
+            original: 'house',
+            translations: { es: 'casa', fr: 'maison', de: 'Haus', it: 'casa', pt: 'casa' },
+        },
+        {
+            original: 'water',
+            translations: { es: 'agua', fr: 'eau', de: 'Wasser', it: 'acqua', pt: 'água' },
+        },
+        {
+            original: 'hand',
+            translations: { es: 'mano', fr: 'main', de: 'Hand', it: 'mano', pt: 'mão' },
+        },
+        {
+            original: 'eye',
+            translations: { es: 'ojo', fr: 'œil', de: 'Auge', it: 'occhio', pt: 'olho' },
+        },
+        {
+            original: 'car',
+            translations: { es: 'coche', fr: 'voiture', de: 'Auto', it: 'macchina', pt: 'carro' },
+        },
+        {
+            original: 'book',
+            translations: { es: 'libro', fr: 'livre', de: 'Buch', it: 'libro', pt: 'livro' },
+        },
+        {
+            original: 'door',
+            translations: { es: 'puerta', fr: 'porte', de: 'Tür', it: 'porta', pt: 'porta' },
+        },
+    ],
+    [
+        {
+            original: 'table',
+            translations: { es: 'mesa', fr: 'table', de: 'Tisch', it: 'tavolo', pt: 'mesa' },
+        },
+        {
+            original: 'dog',
+            translations: { es: 'perro', fr: 'chien', de: 'Hund', it: 'cane', pt: 'cão' },
+        },
+        {
+            original: 'money',
+            translations: { es: 'dinero', fr: 'argent', de: 'Geld', it: 'soldi', pt: 'dinheiro' },
+        },
+        {
+            original: 'food',
+            translations: { es: 'comida', fr: 'nourriture', de: 'Essen', it: 'cibo', pt: 'comida' },
+        },
+        {
+            original: 'friend',
+            translations: { es: 'amigo', fr: 'ami', de: 'Freund', it: 'amico', pt: 'amigo' },
+        },
+        {
+            original: 'city',
+            translations: { es: 'ciudad', fr: 'ville', de: 'Stadt', it: 'città', pt: 'cidade' },
+        },
+        {
+            original: 'window',
+            translations: {
+                es: 'ventana',
+                fr: 'fenêtre',
+                de: 'Fenster',
+                it: 'finestra',
+                pt: 'janela',
+            },
+        },
+        {
+            original: 'tree',
+            translations: { es: 'árbol', fr: 'arbre', de: 'Baum', it: 'albero', pt: 'árvore' },
+        },
+        {
+            original: 'street',
+            translations: { es: 'calle', fr: 'rue', de: 'Straße', it: 'strada', pt: 'rua' },
+        },
+        {
+            original: 'bread',
+            translations: { es: 'pan', fr: 'pain', de: 'Brot', it: 'pane', pt: 'pão' },
+        },
+        {
+            original: 'shoe',
+            translations: {
+                es: 'zapato',
+                fr: 'chaussure',
+                de: 'Schuh',
+                it: 'scarpa',
+                pt: 'sapato',
+            },
+        },
+        {
+            original: 'chair',
+            translations: { es: 'silla', fr: 'chaise', de: 'Stuhl', it: 'sedia', pt: 'cadeira' },
+        },
+    ],
+    [
+        {
+            original: 'kitchen',
+            translations: { es: 'cocina', fr: 'cuisine', de: 'Küche', it: 'cucina', pt: 'cozinha' },
+        },
+        {
+            original: 'bottle',
+            translations: {
+                es: 'botella',
+                fr: 'bouteille',
+                de: 'Flasche',
+                it: 'bottiglia',
+                pt: 'garrafa',
+            },
+        },
+        {
+            original: 'cheese',
+            translations: { es: 'queso', fr: 'fromage', de: 'Käse', it: 'formaggio', pt: 'queijo' },
+        },
+        {
+            original: 'knife',
+            translations: {
+                es: 'cuchillo',
+                fr: 'couteau',
+                de: 'Messer',
+                it: 'coltello',
+                pt: 'faca',
+            },
+        },
+        {
+            original: 'pocket',
+            translations: { es: 'bolsillo', fr: 'poche', de: 'Tasche', it: 'tasca', pt: 'bolso' },
+        },
+        {
+            original: 'bridge',
+            translations: { es: 'puente', fr: 'pont', de: 'Brücke', it: 'ponte', pt: 'ponte' },
+        },
+        {
+            original: 'cloud',
+            translations: { es: 'nube', fr: 'nuage', de: 'Wolke', it: 'nuvola', pt: 'nuvem' },
+        },
+        {
+            original: 'key',
+            translations: { es: 'llave', fr: 'clé', de: 'Schlüssel', it: 'chiave', pt: 'chave' },
+        },
+        {
+            original: 'horse',
+            translations: { es: 'caballo', fr: 'cheval', de: 'Pferd', it: 'cavallo', pt: 'cavalo' },
+        },
+        {
+            original: 'island',
+            translations: { es: 'isla', fr: 'île', de: 'Insel', it: 'isola', pt: 'ilha' },
+        },
+        {
+            original: 'shirt',
+            translations: { es: 'camisa', fr: 'chemise', de: 'Hemd', it: 'camicia', pt: 'camisa' },
+        },
+        {
+            original: 'apple',
+            translations: { es: 'manzana', fr: 'pomme', de: 'Apfel', it: 'mela', pt: 'maçã' },
+        },
+    ],
+    [
+        {
+            original: 'blanket',
+            translations: {
+                es: 'manta',
+                fr: 'couverture',
+                de: 'Decke',
+                it: 'coperta',
+                pt: 'cobertor',
+            },
+        },
+        {
+            original: 'ladder',
+            translations: {
+                es: 'escalera',
+                fr: 'échelle',
+                de: 'Leiter',
+                it: 'scala',
+                pt: 'escada',
+            },
+        },
+        {
+            original: 'pillow',
+            translations: {
+                es: 'almohada',
+                fr: 'oreiller',
+                de: 'Kissen',
+                it: 'cuscino',
+                pt: 'travesseiro',
+            },
+        },
+        {
+            original: 'spoon',
+            translations: {
+                es: 'cuchara',
+                fr: 'cuillère',
+                de: 'Löffel',
+                it: 'cucchiaio',
+                pt: 'colher',
+            },
+        },
+        {
+            original: 'envelope',
+            translations: {
+                es: 'sobre',
+                fr: 'enveloppe',
+                de: 'Umschlag',
+                it: 'busta',
+                pt: 'envelope',
+            },
+        },
+        {
+            original: 'mirror',
+            translations: {
+                es: 'espejo',
+                fr: 'miroir',
+                de: 'Spiegel',
+                it: 'specchio',
+                pt: 'espelho',
+            },
+        },
+        {
+            original: 'thread',
+            translations: { es: 'hilo', fr: 'fil', de: 'Faden', it: 'filo', pt: 'linha' },
+        },
+        {
+            original: 'candle',
+            translations: { es: 'vela', fr: 'bougie', de: 'Kerze', it: 'candela', pt: 'vela' },
+        },
+        {
+            original: 'onion',
+            translations: {
+                es: 'cebolla',
+                fr: 'oignon',
+                de: 'Zwiebel',
+                it: 'cipolla',
+                pt: 'cebola',
+            },
+        },
+        {
+            original: 'wallet',
+            translations: {
+                es: 'cartera',
+                fr: 'portefeuille',
+                de: 'Geldbörse',
+                it: 'portafoglio',
+                pt: 'carteira',
+            },
+        },
+        {
+            original: 'drawer',
+            translations: {
+                es: 'cajón',
+                fr: 'tiroir',
+                de: 'Schublade',
+                it: 'cassetto',
+                pt: 'gaveta',
+            },
+        },
+        {
+            original: 'umbrella',
+            translations: {
+                es: 'paraguas',
+                fr: 'parapluie',
+                de: 'Regenschirm',
+                it: 'ombrello',
+                pt: 'guarda-chuva',
+            },
+        },
+    ],
+    [
+        {
+            original: 'thimble',
+            translations: {
+                es: 'dedal',
+                fr: 'dé à coudre',
+                de: 'Fingerhut',
+                it: 'ditale',
+                pt: 'dedal',
+            },
+        },
+        {
+            original: 'hinge',
+            translations: {
+                es: 'bisagra',
+                fr: 'charnière',
+                de: 'Scharnier',
+                it: 'cerniera',
+                pt: 'dobradiça',
+            },
+        },
+        {
+            original: 'sieve',
+            translations: { es: 'tamiz', fr: 'tamis', de: 'Sieb', it: 'setaccio', pt: 'peneira' },
+        },
+        {
+            original: 'funnel',
+            translations: {
+                es: 'embudo',
+                fr: 'entonnoir',
+                de: 'Trichter',
+                it: 'imbuto',
+                pt: 'funil',
+            },
+        },
+        {
+            original: 'chisel',
+            translations: {
+                es: 'cincel',
+                fr: 'ciseau',
+                de: 'Meißel',
+                it: 'scalpello',
+                pt: 'cinzel',
+            },
+        },
+        {
+            original: 'anvil',
+            translations: {
+                es: 'yunque',
+                fr: 'enclume',
+                de: 'Amboss',
+                it: 'incudine',
+                pt: 'bigorna',
+            },
+        },
+        {
+            original: 'lantern',
+            translations: {
+                es: 'farol',
+                fr: 'lanterne',
+                de: 'Laterne',
+                it: 'lanterna',
+                pt: 'lanterna',
+            },
+        },
+        {
+            original: 'broom',
+            translations: { es: 'escoba', fr: 'balai', de: 'Besen', it: 'scopa', pt: 'vassoura' },
+        },
+        {
+            original: 'kettle',
+            translations: {
+                es: 'hervidor',
+                fr: 'bouilloire',
+                de: 'Wasserkocher',
+                it: 'bollitore',
+                pt: 'chaleira',
+            },
+        },
+        {
+            original: 'wheelbarrow',
+            translations: {
+                es: 'carretilla',
+                fr: 'brouette',
+                de: 'Schubkarre',
+                it: 'carriola',
+                pt: 'carrinho de mão',
+            },
+        },
+        {
+            original: 'acorn',
+            translations: { es: 'bellota', fr: 'gland', de: 'Eichel', it: 'ghianda', pt: 'bolota' },
+        },
+        {
+            original: 'pliers',
+            translations: { es: 'alicates', fr: 'pince', de: 'Zange', it: 'pinze', pt: 'alicate' },
+        },
+    ],
+];
+
+// Languages every bundled word has a translation in
+export const PLACEMENT_LANGUAGES = ['es', 'fr', 'de', 'it', 'pt'];
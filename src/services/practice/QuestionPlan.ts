@@ -0,0 +1,232 @@
+import { SavedWord } from '../VocabularyService';
+import { buildMatchingPairs } from './Matching';
+import { PracticeSessionSpec, filterVocabularyBySpec } from './SessionSpec';
+import { MAX_CONTRAST_QUESTIONS } from './Confusions';
+import { isNewWord, selectWordsForSession } from './SpacedRepetition';
+
+export type QuestionType =
+    | 'translation'
+    | 'reverse_translation'
+    | 'multiple_choice'
+    | 'listening'
+    | 'typing'
+    | 'context'
+    | 'pronunciation'
+    | 'recording'
+    | 'matching'
+    | 'sentence_building'
+    | 'dictation'
+    | 'gender'
+    | 'contrast'
+    | 'spoken'
+    | 'image';
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+    translation: 'Translation',
+    reverse_translation: 'Reverse Translation',
+    multiple_choice: 'Multiple Choice',
+    listening: 'Listening',
+    typing: 'Typing',
+    context: 'Fill in the Blank',
+    pronunciation: 'Pronunciation',
+    recording: 'Recording',
+    matching: 'Matching Pairs',
+    sentence_building: 'Sentence Building',
+    dictation: 'Dictation',
+    gender: 'Noun Gender',
+    contrast: 'Commonly Confused',
+    spoken: 'Spoken Answer',
+    image: 'Picture',
+};
+
+// Share of questions of each type, for variety
+export const QUESTION_TYPE_DISTRIBUTION: { type: QuestionType; weight: number }[] = [
+    { type: 'translation', weight: 0.1 },
+    { type: 'reverse_translation', weight: 0.15 },
+    { type: 'multiple_choice', weight: 0.1 },
+    { type: 'image', weight: 0.1 },
+    { type: 'matching', weight: 0.1 },
+    { type: 'listening', weight: 0.05 },
+    { type: 'dictation', weight: 0.05 },
+    { type: 'context', weight: 0.1 },
+    { type: 'gender', weight: 0.05 },
+    { type: 'pronunciation', weight: 0.05 },
+    { type: 'typing', weight: 0.05 },
+    { type: 'recording', weight: 0.05 },
+    { type: 'sentence_building', weight: 0.05 },
+];
+
+// Low-stakes recognition of a word just introduced in learn mode: see or hear it, pick its meaning
+export const LEARN_QUESTION_TYPES: QuestionType[] = ['reverse_translation', 'listening'];
+
+// Translations longer than this are asked as multiple choice instead of typed
+const MAX_TYPING_LENGTH = 20;
+
+/**
+ * One question of a session before it is generated: which word is asked, and how
+ */
+export interface PlannedQuestion {
+    word: SavedWord;
+    type: QuestionType;
+    contrastWith?: SavedWord; // the word a contrast question sets it against
+}
+
+export interface QuestionPlanOptions {
+    questionCount: number;
+    recordingAvailable?: boolean;
+    now?: Date;
+    contrastPartners?: Map<string, SavedWord>; // word id -> the word it is most often confused with
+}
+
+/**
+ * Random number generator (mulberry32) that returns the same sequence for the same seed
+ */
+export function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// Mixed into the seed of the question generation stream
+const GENERATION_STREAM = 0x9e3779b9;
+
+/**
+ * Random numbers for generating a session's questions (option order, distractors, tiles).
+ * A stream of their own, so they don't replay the numbers the plan drew from the same seed.
+ */
+export function createGenerationRandom(seed: number): () => number {
+    return createRandom(seed ^ GENERATION_STREAM);
+}
+
+/**
+ * New seed for a session that wasn't given one
+ */
+export function createSeed(): number {
+    return Math.floor(Math.random() * 4294967296);
+}
+
+/**
+ * Fisher-Yates shuffle into a new array
+ */
+export function shuffle<T>(items: T[], random: () => number): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+}
+
+export function pickQuestionType(random: () => number): QuestionType {
+    const roll = random();
+    let cumulativeWeight = 0;
+
+    for (const { type, weight } of QUESTION_TYPE_DISTRIBUTION) {
+        cumulativeWeight += weight;
+        if (roll < cumulativeWeight) {
+            return type;
+        }
+    }
+
+    return 'translation'; // Fallback
+}
+
+/**
+ * Assign a question type to each of count questions, cycling through the session words
+ * if there are fewer words than questions. Types a word can't be asked as fall back:
+ * recording to pronunciation when the device can't record, typing to multiple choice for
+ * long translations, picture to multiple choice for words saved without a photo, matching
+ * to multiple choice when the language has too few distinct words.
+ * The first question of a word the user often confuses sets it against that word instead.
+ */
+export function planQuestionTypes(
+    sessionWords: SavedWord[],
+    vocabulary: SavedWord[],
+    count: number,
+    random: () => number,
+    recordingAvailable: boolean = true,
+    contrastPartners: Map<string, SavedWord> = new Map(),
+): PlannedQuestion[] {
+    const plan: PlannedQuestion[] = [];
+    if (sessionWords.length === 0) return plan;
+
+    const contrasted = new Set<string>();
+
+    for (let i = 0; i < count; i++) {
+        const word = sessionWords[i % sessionWords.length];
+        let type = pickQuestionType(random);
+
+        const partner = contrastPartners.get(word.id);
+        if (partner && !contrasted.has(word.id) && contrasted.size < MAX_CONTRAST_QUESTIONS) {
+            contrasted.add(word.id);
+            plan.push({ word, type: 'contrast', contrastWith: partner });
+            continue;
+        }
+
+        if (type === 'recording' && !recordingAvailable) {
+            type = 'pronunciation';
+        }
+        if (type === 'typing' && word.translation.length > MAX_TYPING_LENGTH) {
+            type = 'multiple_choice';
+        }
+        if (type === 'image' && !word.imageUrl) {
+            type = 'multiple_choice';
+        }
+        if (type === 'matching') {
+            const languageVocabulary = vocabulary.filter((w) => w.language === word.language);
+            if (!buildMatchingPairs(word, sessionWords, languageVocabulary)) {
+                type = 'multiple_choice';
+            }
+        }
+
+        plan.push({ word, type });
+    }
+
+    return plan;
+}
+
+/**
+ * One recognition question per introduced word, in shuffled order
+ */
+export function planLearnQuestions(words: SavedWord[], random: () => number): PlannedQuestion[] {
+    return shuffle(words, random).map((word) => ({
+        word,
+        type: LEARN_QUESTION_TYPES[Math.floor(random() * LEARN_QUESTION_TYPES.length)],
+    }));
+}
+
+/**
+ * Build the question plan of a standard session: the scheduler picks the words in review
+ * that match the spec (new words are introduced in learn mode first, unless hand-picked)
+ * and each question gets a type drawn from the seed. Only its inputs are read, so the
+ * same vocabulary, seed, spec and time always give the same plan.
+ */
+export function buildQuestionPlan(
+    vocabulary: SavedWord[],
+    seed: number,
+    spec: PracticeSessionSpec,
+    options: QuestionPlanOptions,
+): PlannedQuestion[] {
+    const candidates = filterVocabularyBySpec(vocabulary, spec).filter(
+        (word) => spec.wordIds?.length || !isNewWord(word),
+    );
+    if (candidates.length === 0) return [];
+
+    const sessionWords = selectWordsForSession(candidates, options.questionCount, {
+        now: options.now,
+    });
+
+    return planQuestionTypes(
+        sessionWords,
+        vocabulary,
+        options.questionCount,
+        createRandom(seed),
+        options.recordingAvailable ?? true,
+        options.contrastPartners,
+    );
+}
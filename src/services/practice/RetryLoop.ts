@@ -0,0 +1,100 @@
+import { SavedWord } from '../VocabularyService';
+import { QuestionType } from './QuestionPlan';
+
+// A missed word is asked again at most this many times in the same session
+export const MAX_RETRIES_PER_QUESTION = 2;
+
+// Words earned back on a retry pay this much XP, less than a first-try answer
+export const RETRY_XP = 5;
+
+// Slug of the "Fail a quiz and perfect it on Retry" achievement
+export const PERFECTED_ON_RETRY_ACHIEVEMENT = 'retry';
+
+// Quick to generate from the word alone, and different enough to not give the answer away
+export const RETRY_QUESTION_TYPES: QuestionType[] = [
+    'multiple_choice',
+    'reverse_translation',
+    'translation',
+    'listening',
+    'typing',
+];
+
+// Translations longer than this are not asked to be typed
+const MAX_TYPING_LENGTH = 20;
+
+/**
+ * The parts of a question the retry loop reads
+ */
+export interface RetryableQuestion {
+    word: { id: string };
+    isCorrect?: boolean;
+    retryOf?: number; // index of the original question in the session
+}
+
+/**
+ * Scores of a session before and after its missed questions were asked again
+ */
+export interface RetryScore {
+    questions: number; // original questions, retries not counted
+    firstTry: number;
+    afterRetry: number; // first-try correct plus those earned back on a retry
+    retried: number;
+}
+
+/**
+ * A question type for asking a missed word again, other than the one it was missed on
+ */
+export function pickRetryType(
+    previousType: QuestionType,
+    word: SavedWord,
+    random: () => number,
+): QuestionType {
+    const types = RETRY_QUESTION_TYPES.filter(
+        (type) =>
+            type !== previousType &&
+            (type !== 'typing' || word.translation.length <= MAX_TYPING_LENGTH),
+    );
+    return types[Math.floor(random() * types.length)];
+}
+
+/**
+ * Score the original questions of a session. A missed one counts after retry when every
+ * word re-asked for it (one, or each missed pair of a matching board) was eventually answered.
+ */
+export function scoreRetries(questions: RetryableQuestion[]): RetryScore {
+    const score: RetryScore = { questions: 0, firstTry: 0, afterRetry: 0, retried: 0 };
+
+    questions.forEach((question, index) => {
+        if (question.retryOf !== undefined) return;
+
+        score.questions++;
+        if (question.isCorrect) {
+            score.firstTry++;
+            score.afterRetry++;
+            return;
+        }
+
+        const retries = questions.filter((q) => q.retryOf === index);
+        if (retries.length === 0) return;
+
+        score.retried++;
+        const wordIds = new Set(retries.map((retry) => retry.word.id));
+        const earnedBack = [...wordIds].every((id) =>
+            retries.some((retry) => retry.word.id === id && retry.isCorrect),
+        );
+        if (earnedBack) score.afterRetry++;
+    });
+
+    return score;
+}
+
+/**
+ * Missed at least one question on the first try, and got every one right by the end
+ */
+export function isPerfectedOnRetry(score: RetryScore): boolean {
+    return (
+        score.questions > 0 &&
+        score.firstTry < score.questions &&
+        score.afterRetry === score.questions
+    );
+}
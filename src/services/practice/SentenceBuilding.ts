@@ -0,0 +1,121 @@
+import { GradeResult } from './AnswerGrading';
+
+// Languages written without spaces between words
+const NO_SPACE_LANGUAGES = ['ja', 'zh', 'th'];
+
+export const MIN_SENTENCE_TOKENS = 3;
+export const MAX_SENTENCE_TOKENS = 12;
+// Clause reordering is only checked for short sentences (n! permutations)
+const MAX_REORDERABLE_CLAUSES = 4;
+
+const PUNCTUATION = /[.,!?;:¿¡"“”«»()…。、，！？；：「」『』（）・]/g;
+const CLAUSE_SEPARATORS = /[,;，；、]/;
+
+export function isNoSpaceLanguage(language: string): boolean {
+    return NO_SPACE_LANGUAGES.includes(language.split('-')[0]);
+}
+
+/**
+ * Whether sentences can be split into word tiles. Languages without spaces need the
+ * platform word segmenter, which Hermes doesn't have; single characters make poor tiles
+ * and almost no sentence fits in MAX_SENTENCE_TOKENS of them.
+ */
+export function canSplitIntoWords(language: string): boolean {
+    return !isNoSpaceLanguage(language) || typeof Intl.Segmenter === 'function';
+}
+
+/**
+ * Split a saved example into target-language and English sentences.
+ * Examples are stored either as "target|english" or with a separate exampleEnglish.
+ */
+export function parseExample(
+    example?: string,
+    exampleEnglish?: string,
+): { sentence: string; english: string } | null {
+    if (!example) return null;
+
+    const [sentence, englishPart] = example.split('|');
+    const english = (englishPart || exampleEnglish || '').trim();
+    if (!sentence?.trim() || !english) return null;
+
+    return { sentence: sentence.trim(), english };
+}
+
+/**
+ * Split a sentence into tiles without punctuation.
+ * Languages without spaces use the platform word segmenter when there is one,
+ * otherwise single characters.
+ */
+export function tokenizeSentence(sentence: string, language: string): string[] {
+    const text = sentence.replace(PUNCTUATION, ' ');
+
+    if (!isNoSpaceLanguage(language)) {
+        return text.split(/\s+/).filter(Boolean);
+    }
+
+    if (typeof Intl.Segmenter === 'function') {
+        const segmenter = new Intl.Segmenter(language, { granularity: 'word' });
+        return Array.from(segmenter.segment(text))
+            .filter((part) => part.isWordLike)
+            .map((part) => part.segment);
+    }
+
+    return Array.from(text.replace(/\s+/g, ''));
+}
+
+/**
+ * Join tiles back into an answer the way the language is written
+ */
+export function joinTokens(tokens: string[], language: string): string {
+    return tokens.join(isNoSpaceLanguage(language) ? '' : ' ');
+}
+
+function normalizeSentence(text: string, language: string): string {
+    const stripped = text.replace(PUNCTUATION, ' ').toLowerCase();
+    return isNoSpaceLanguage(language)
+        ? stripped.replace(/\s+/g, '')
+        : stripped.replace(/\s+/g, ' ').trim();
+}
+
+function permutations<T>(items: T[]): T[][] {
+    if (items.length <= 1) return [items];
+    return items.flatMap((item, i) =>
+        permutations([...items.slice(0, i), ...items.slice(i + 1)]).map((rest) => [item, ...rest]),
+    );
+}
+
+/**
+ * Grade a built sentence. Punctuation and case are ignored; clauses the original
+ * separates with commas or semicolons may come in any order.
+ */
+export function gradeSentence(answer: string, sentence: string, language: string): GradeResult {
+    const feedback = `Correct sentence: ${sentence}`;
+
+    if (answer === '__SKIPPED__') {
+        return { verdict: 'wrong', reason: 'skipped', credit: 0, feedback };
+    }
+
+    const given = normalizeSentence(answer, language);
+    if (given === normalizeSentence(sentence, language)) {
+        return { verdict: 'correct', reason: 'exact', credit: 1 };
+    }
+
+    const clauses = sentence
+        .split(CLAUSE_SEPARATORS)
+        .map((clause) => normalizeSentence(clause, language))
+        .filter(Boolean);
+    if (clauses.length > 1 && clauses.length <= MAX_REORDERABLE_CLAUSES) {
+        const joiner = isNoSpaceLanguage(language) ? '' : ' ';
+        const reordered = permutations(clauses).some((order) => order.join(joiner) === given);
+        if (reordered) {
+            return {
+                verdict: 'correct',
+                reason: 'alternative_order',
+                credit: 1,
+                feedback: `Also written: ${sentence}`,
+            };
+        }
+    }
+
+    return { verdict: 'wrong', reason: 'mismatch', credit: 0, feedback };
+}
@@ -0,0 +1,50 @@
+import { SavedWord } from '../VocabularyService';
+
+/**
+ * Which saved words a practice session draws from.
+ * Every field is optional; the fields that are set narrow the selection together.
+ */
+export interface PracticeSessionSpec {
+    languages?: string[];
+    categories?: string[];
+    wordIds?: string[]; // SavedWord ids hand-picked on the vocabulary screen
+    minProficiency?: number; // inclusive, 0-100
+    maxProficiency?: number; // exclusive, 0-100
+}
+
+export function getWordCategory(word: SavedWord): string {
+    return word.category || 'general';
+}
+
+/**
+ * Check whether a word belongs to the session described by the spec
+ */
+export function matchesSessionSpec(word: SavedWord, spec: PracticeSessionSpec): boolean {
+    if (spec.languages?.length && !spec.languages.includes(word.language)) return false;
+    if (spec.categories?.length && !spec.categories.includes(getWordCategory(word))) return false;
+    if (spec.wordIds?.length && !spec.wordIds.includes(word.id)) return false;
+    if (spec.minProficiency !== undefined && word.proficiency < spec.minProficiency) return false;
+    if (spec.maxProficiency !== undefined && word.proficiency >= spec.maxProficiency) return false;
+    return true;
+}
+
+export function filterVocabularyBySpec(
+    vocabulary: SavedWord[],
+    spec: PracticeSessionSpec,
+): SavedWord[] {
+    return vocabulary.filter((word) => matchesSessionSpec(word, spec));
+}
+
+/**
+ * Categories present in the vocabulary with their word counts, largest first
+ */
+export function getCategoryCounts(vocabulary: SavedWord[]): { category: string; count: number }[] {
+    const counts = new Map<string, number>();
+    for (const word of vocabulary) {
+        const category = getWordCategory(word);
+        counts.set(category, (counts.get(category) || 0) + 1);
+    }
+    return Array.from(counts.entries())
+        .map(([category, count]) => ({ category, count }))
+        .sort((a, b) => b.count - a.count || a.category.localeCompare(b.category));
+}
@@ -0,0 +1,144 @@
+import { SavedWord } from '../VocabularyService';
+import { AnswerLogEntry } from '../AnswerLogService';
+import { ANSWER_XP, getAnswerXP } from './Hints';
+import { RETRY_XP, RetryScore } from './RetryLoop';
+import { SPEED_ROUND_BASE_XP, scoreSpeedRound } from './SpeedRound';
+
+/**
+ * XP a session earned, by where it came from; total is their sum
+ */
+export interface XPBreakdown {
+    answers: number; // first-try correct answers at full value
+    hints: number; // what revealed hints took off those answers, zero or negative
+    retries: number; // words earned back on a retry
+    combo: number; // speed-round combo multiplier on top of the answers
+    completionBonus: number;
+    total: number;
+}
+
+export type XPSource = Exclude<keyof XPBreakdown, 'total'>;
+
+export const XP_SOURCE_LABELS: Record<XPSource, string> = {
+    answers: 'Correct answers',
+    hints: 'Hints used',
+    retries: 'Earned back on retry',
+    combo: 'Combo bonus',
+    completionBonus: 'Completion bonus',
+};
+
+/**
+ * A word's proficiency before and after one answer
+ */
+export interface ProficiencyChange {
+    before: number;
+    after: number;
+}
+
+/**
+ * The parts of an answered question the XP breakdown reads
+ */
+export interface ScoredQuestion {
+    isCorrect?: boolean;
+    hintsUsed?: number;
+    retryOf?: number;
+}
+
+/**
+ * Bonus for finishing a full 10 or 20 question session
+ */
+export function getCompletionBonus(totalQuestions: number): number {
+    if (totalQuestions === 20) return 100;
+    if (totalQuestions === 10) return 20;
+    return 0;
+}
+
+/**
+ * Split a session's XP by source. Speed rounds pay per answer with a combo multiplier;
+ * other sessions pay first-try answers less their hints, retries and the completion bonus.
+ */
+export function getXPBreakdown(
+    questions: ScoredQuestion[],
+    options: { speedRound?: boolean; retryScore?: RetryScore; completionBonus?: number } = {},
+): XPBreakdown {
+    const breakdown: XPBreakdown = {
+        answers: 0,
+        hints: 0,
+        retries: 0,
+        combo: 0,
+        completionBonus: 0,
+        total: 0,
+    };
+
+    if (options.speedRound) {
+        const result = scoreSpeedRound(questions);
+        breakdown.answers = result.score * SPEED_ROUND_BASE_XP;
+        breakdown.combo = result.xp - breakdown.answers;
+    } else {
+        for (const question of questions) {
+            if (!question.isCorrect || question.retryOf !== undefined) continue;
+            breakdown.answers += ANSWER_XP;
+            breakdown.hints += getAnswerXP(question.hintsUsed) - ANSWER_XP;
+        }
+        breakdown.retries = options.retryScore
+            ? (options.retryScore.afterRetry - options.retryScore.firstTry) * RETRY_XP
+            : 0;
+        breakdown.completionBonus = options.completionBonus ?? 0;
+    }
+
+    breakdown.total =
+        breakdown.answers +
+        breakdown.hints +
+        breakdown.retries +
+        breakdown.combo +
+        breakdown.completionBonus;
+    return breakdown;
+}
+
+/**
+ * One answer of a finished session, as listed on its summary
+ */
+export interface SessionSummaryRow {
+    key: string;
+    questionIndex: number;
+    questionType: string;
+    original: string;
+    language: string;
+    word: SavedWord | null; // null once the word was deleted from the vocabulary
+    userAnswer: string | null; // null when skipped
+    correctAnswer: string;
+    isCorrect: boolean;
+    isRetry: boolean;
+    proficiencyChange: ProficiencyChange | null; // not logged for answers from before summaries existed
+}
+
+/**
+ * Turn a session's answer log into summary rows, in question order, joined to the
+ * vocabulary so each row can replay the word and add it back to review
+ */
+export function buildSummaryRows(
+    answers: AnswerLogEntry[],
+    vocabulary: SavedWord[],
+): SessionSummaryRow[] {
+    const words = new Map(vocabulary.map((word) => [word.id, word]));
+
+    return [...answers]
+        .sort(
+            (a, b) => a.questionIndex - b.questionIndex || a.answeredAt.localeCompare(b.answeredAt),
+        )
+        .map((answer, index) => ({
+            key: answer.id || `${answer.questionIndex}_${index}`,
+            questionIndex: answer.questionIndex,
+            questionType: answer.questionType,
+            original: answer.original,
+            language: answer.language,
+            word: words.get(`${answer.userWordId}_${answer.language}`) || null,
+            userAnswer: answer.userAnswer,
+            correctAnswer: answer.correctAnswer,
+            isCorrect: answer.isCorrect,
+            isRetry: answer.isRetry,
+            proficiencyChange:
+                answer.proficiencyBefore !== null && answer.proficiencyAfter !== null
+                    ? { before: answer.proficiencyBefore, after: answer.proficiencyAfter }
+                    : null,
+        }));
+}
@@ -0,0 +1,188 @@
+import { SavedWord } from '../VocabularyService';
+
+/**
+ * SM-2 review state stored on each user_words row
+ */
+export interface ReviewSchedule {
+    easeFactor: number;
+    interval: number; // days
+    repetitions: number;
+    nextReviewAt: string | null;
+    lastReviewedAt: string | null;
+}
+
+/**
+ * Answer quality on the SM-2 0-5 scale
+ * 5 = perfect recall, 3 = correct with difficulty, 0-2 = failed recall
+ */
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+export const DEFAULT_EASE_FACTOR = 2.5;
+export const MIN_EASE_FACTOR = 1.3;
+export const DAILY_NEW_WORD_LIMIT = 10;
+// Words introduced per learn session
+export const LEARN_SESSION_WORD_COUNT = 5;
+// Unscheduled words practiced up to this proficiency are already well known
+const LEGACY_KNOWN_PROFICIENCY = 80;
+const LEGACY_PRACTICED_PROFICIENCY = 40;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Read the review schedule of a word, falling back to SM-2 defaults.
+ * Words practiced before scheduling existed start from an interval matching their proficiency,
+ * so a word the user already knows isn't asked again the next day.
+ */
+export function getReviewSchedule(word: SavedWord): ReviewSchedule {
+    const legacy = isLegacyWord(word) ? getLegacyProgress(word.proficiency) : null;
+    return {
+        easeFactor: word.easeFactor ?? DEFAULT_EASE_FACTOR,
+        interval: legacy?.interval ?? word.reviewInterval ?? 0,
+        repetitions: legacy?.repetitions ?? word.reviewRepetitions ?? 0,
+        nextReviewAt: word.nextReviewAt ?? null,
+        lastReviewedAt: word.lastReviewedAt ?? null,
+    };
+}
+
+/**
+ * SM-2 progress a legacy word is credited with, by proficiency
+ */
+function getLegacyProgress(proficiency: number): { interval: number; repetitions: number } {
+    if (proficiency >= LEGACY_KNOWN_PROFICIENCY) return { interval: 14, repetitions: 2 };
+    if (proficiency >= LEGACY_PRACTICED_PROFICIENCY) return { interval: 6, repetitions: 1 };
+    return { interval: 0, repetitions: 0 };
+}
+
+/**
+ * A word practiced before scheduling existed, not reviewed since
+ */
+function isLegacyWord(word: SavedWord): boolean {
+    return !word.nextReviewAt && word.proficiency > 0;
+}
+
+/**
+ * A word is new until it has been scheduled once.
+ * Words practiced before scheduling existed (proficiency > 0) count as in review.
+ */
+export function isNewWord(word: SavedWord): boolean {
+    return !word.nextReviewAt && word.proficiency === 0;
+}
+
+/**
+ * New words are introduced in learn mode before regular sessions quiz them;
+ * once reviewed they are in review
+ */
+export type WordStage = 'new' | 'in_review';
+
+export function getWordStage(word: SavedWord): WordStage {
+    return isNewWord(word) ? 'new' : 'in_review';
+}
+
+/**
+ * The new words to introduce next, in the order they were saved
+ */
+export function selectNewWords(vocabulary: SavedWord[], count: number): SavedWord[] {
+    const learnedTime = (word: SavedWord) => new Date(word.learnedAt).getTime() || 0;
+    return vocabulary
+        .filter((word) => isNewWord(word))
+        .sort((a, b) => learnedTime(a) - learnedTime(b))
+        .slice(0, Math.max(0, count));
+}
+
+/**
+ * A word is due when its next review date has passed.
+ * Unscheduled words that were practiced before are always due.
+ */
+export function isDue(word: SavedWord, now: Date = new Date()): boolean {
+    if (isNewWord(word)) return false;
+    if (!word.nextReviewAt) return true;
+    return new Date(word.nextReviewAt).getTime() <= now.getTime();
+}
+
+/**
+ * Apply one SM-2 review step to a schedule
+ */
+export function scheduleReview(
+    schedule: ReviewSchedule,
+    quality: ReviewQuality,
+    now: Date = new Date(),
+): ReviewSchedule {
+    let { easeFactor, interval, repetitions } = schedule;
+
+    if (quality >= 3) {
+        if (repetitions === 0) {
+            interval = 1;
+        } else if (repetitions === 1) {
+            interval = 6;
+        } else {
+            interval = Math.round(interval * easeFactor);
+        }
+        repetitions++;
+    } else {
+        // Failed recall: start the word over but keep the ease penalty
+        repetitions = 0;
+        interval = 1;
+    }
+
+    easeFactor = Math.max(
+        MIN_EASE_FACTOR,
+        easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)),
+    );
+
+    return {
+        easeFactor: Math.round(easeFactor * 100) / 100,
+        interval,
+        repetitions,
+        nextReviewAt: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+        lastReviewedAt: now.toISOString(),
+    };
+}
+
+/**
+ * Pick the words for a session:
+ * overdue words first (most overdue first), then unscheduled legacy words the user is still
+ * weak on (weakest first), then new words up to the daily limit, then well-known legacy words,
+ * then the words coming up for review soonest, then any remaining new words.
+ */
+export function selectWordsForSession(
+    vocabulary: SavedWord[],
+    count: number,
+    options: { newWordLimit?: number; now?: Date } = {},
+): SavedWord[] {
+    const now = options.now ?? new Date();
+    const newWordLimit = Math.max(0, options.newWordLimit ?? DAILY_NEW_WORD_LIMIT);
+
+    const reviewTime = (word: SavedWord) =>
+        word.nextReviewAt ? new Date(word.nextReviewAt).getTime() : 0;
+    const learnedTime = (word: SavedWord) => new Date(word.learnedAt).getTime() || 0;
+
+    const newWords = vocabulary
+        .filter((word) => isNewWord(word))
+        .sort((a, b) => learnedTime(a) - learnedTime(b));
+    const dueWords = vocabulary
+        .filter((word) => isDue(word, now) && !isLegacyWord(word))
+        .sort((a, b) => reviewTime(a) - reviewTime(b) || a.proficiency - b.proficiency);
+    const legacyWords = vocabulary
+        .filter((word) => isLegacyWord(word))
+        .sort((a, b) => a.proficiency - b.proficiency);
+    const weakLegacyWords = legacyWords.filter(
+        (word) => word.proficiency < LEGACY_KNOWN_PROFICIENCY,
+    );
+    const knownLegacyWords = legacyWords.filter(
+        (word) => word.proficiency >= LEGACY_KNOWN_PROFICIENCY,
+    );
+    const upcomingWords = vocabulary
+        .filter((word) => !isNewWord(word) && !isDue(word, now))
+        .sort((a, b) => reviewTime(a) - reviewTime(b));
+
+    const selected = [
+        ...dueWords,
+        ...weakLegacyWords,
+        ...newWords.slice(0, newWordLimit),
+        ...knownLegacyWords,
+        ...upcomingWords,
+        ...newWords.slice(newWordLimit),
+    ];
+
+    return selected.slice(0, count);
+}
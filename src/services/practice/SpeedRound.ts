@@ -0,0 +1,87 @@
+import { PracticeSessionSpec } from './SessionSpec';
+
+export const SPEED_ROUND_DURATIONS = [60, 120];
+
+// Question types that can be answered in a couple of seconds
+export const SPEED_ROUND_QUESTION_TYPES = [
+    'translation',
+    'reverse_translation',
+    'multiple_choice',
+] as const;
+export type SpeedRoundQuestionType = (typeof SPEED_ROUND_QUESTION_TYPES)[number];
+
+// Questions generated at a time; more are added while the clock runs
+export const SPEED_ROUND_BATCH_SIZE = 15;
+
+export const SPEED_ROUND_BASE_XP = 5;
+
+// Multiplier once the combo (correct answers in a row) reaches each tier, highest first
+const COMBO_TIERS: { combo: number; multiplier: number }[] = [
+    { combo: 10, multiplier: 3 },
+    { combo: 6, multiplier: 2 },
+    { combo: 3, multiplier: 1.5 },
+];
+
+/**
+ * Timer and combo of a running speed round
+ */
+export interface SpeedRoundState {
+    durationSeconds: number;
+    endsAt: number; // epoch ms
+    combo: number;
+    bestCombo: number;
+    isNewBest?: boolean;
+    previousBest?: number;
+}
+
+export interface SpeedRoundBest {
+    score: number; // correct answers
+    bestCombo: number;
+    achievedAt: string;
+}
+
+export interface SpeedRoundResult {
+    score: number;
+    answered: number;
+    bestCombo: number;
+    xp: number;
+}
+
+export function getComboMultiplier(combo: number): number {
+    return COMBO_TIERS.find((tier) => combo >= tier.combo)?.multiplier ?? 1;
+}
+
+/**
+ * Score answered questions in order: each correct answer earns the base XP times the
+ * multiplier of the combo it extends; a wrong or skipped answer resets the combo
+ */
+export function scoreSpeedRound(answers: { isCorrect?: boolean }[]): SpeedRoundResult {
+    let combo = 0;
+    let bestCombo = 0;
+    let score = 0;
+    let xp = 0;
+
+    for (const answer of answers) {
+        if (answer.isCorrect) {
+            combo++;
+            score++;
+            bestCombo = Math.max(bestCombo, combo);
+            xp += SPEED_ROUND_BASE_XP * getComboMultiplier(combo);
+        } else {
+            combo = 0;
+        }
+    }
+
+    return { score, answered: answers.length, bestCombo, xp: Math.round(xp) };
+}
+
+/**
+ * Personal bests are kept per language; rounds over several languages share one 'mixed' record
+ */
+export function getSpeedRoundLanguage(spec: PracticeSessionSpec): string {
+    return spec.languages?.length === 1 ? spec.languages[0] : 'mixed';
+}
+
+export function getSpeedRoundTimeLeft(state: SpeedRoundState, now: number = Date.now()): number {
+    return Math.max(0, state.endsAt - now);
+}
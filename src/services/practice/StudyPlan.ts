@@ -0,0 +1,282 @@
+import { SavedWord } from '../VocabularyService';
+import { AnswerLogEntry } from '../AnswerLogService';
+import { DAILY_NEW_WORD_LIMIT, isDue, isNewWord } from './SpacedRepetition';
+
+// Days of history the user's pace is measured over, today not included
+export const PACE_WINDOW_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * What the user is working toward: a number of words in a language by a date,
+ * or clearing every due review each day
+ */
+export type StudyGoal =
+    | { type: 'word_target'; language: string; targetWords: number; targetDate: string } // YYYY-MM-DD
+    | { type: 'daily_review'; language?: string }; // all languages when unset
+
+/**
+ * Daily quotas computed from a goal, and what they were computed from
+ */
+export interface StudyPlan {
+    goal: StudyGoal;
+    startDate: string; // YYYY-MM-DD the quotas were computed on
+    startLearned: number; // words in review at the start of that day
+    dailyNewWords: number; // 0 for review goals
+    previousDailyNewWords?: number; // set when the plan was recomputed after falling behind
+}
+
+/**
+ * How much the user practiced per day over the last PACE_WINDOW_DAYS
+ */
+export interface StudyPace {
+    newWordsPerDay: number;
+    reviewsPerDay: number;
+    activeDays: number; // days with any XP earned
+}
+
+/**
+ * Where the goal's words stand today
+ */
+export interface WordProgress {
+    learned: number; // words in review
+    waiting: number; // saved but not introduced yet
+    due: number;
+    newToday: number; // answered for the first time today
+    reviewedToday: number;
+}
+
+export interface StudyPlanProgress {
+    plan: StudyPlan;
+    words: WordProgress;
+    pace: StudyPace;
+    newWordQuota: number;
+    reviewQuota: number; // everything due today, including what was already reviewed
+    daysLeft: number | null; // null for review goals
+    projectedDate: string | null; // when the target is reached at the user's pace
+    isReached: boolean;
+    isExpired: boolean;
+    isRecomputedToday: boolean; // the plan fell behind and its quota went up today
+    exceedsDailyLimit: boolean; // the quota is more than a day's new words allow
+    exceedsPace: boolean; // at the user's pace the target is reached after its date
+    needsMoreWords: boolean; // fewer words are waiting than today's quota still needs
+}
+
+/**
+ * Local calendar day of a date as YYYY-MM-DD
+ */
+export function getDayKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Start of a YYYY-MM-DD day in local time
+ */
+export function parseDayKey(key: string): Date {
+    const [year, month, day] = key.split('-').map(Number);
+    return new Date(year, month - 1, day);
+}
+
+/**
+ * Whole calendar days from one day to another, negative when `to` is earlier
+ */
+export function daysBetween(from: string, to: string): number {
+    return Math.round((parseDayKey(to).getTime() - parseDayKey(from).getTime()) / DAY_MS);
+}
+
+export function addDays(day: string, days: number): string {
+    const date = parseDayKey(day);
+    date.setDate(date.getDate() + days);
+    return getDayKey(date);
+}
+
+/**
+ * The day each word was first answered on, by user_word id, for words first answered
+ * within the given answers. Answers logged before first answers were marked count
+ * as first when they are the earliest given for their word.
+ */
+function getFirstAnswerDays(answers: AnswerLogEntry[]): Map<string, string> {
+    const firstDays = new Map<string, string>();
+    for (const answer of answers) {
+        if (answer.isFirstAnswer === false) continue;
+        const day = getDayKey(new Date(answer.answeredAt));
+        const first = firstDays.get(answer.userWordId);
+        if (!first || day < first) firstDays.set(answer.userWordId, day);
+    }
+    return firstDays;
+}
+
+/**
+ * Count the goal language's words by stage, and what was done with them today.
+ * `answers` must include the language's answers of today.
+ */
+export function summarizeWordProgress(
+    vocabulary: SavedWord[],
+    answers: AnswerLogEntry[],
+    now: Date = new Date(),
+): WordProgress {
+    const today = getDayKey(now);
+    const firstDays = getFirstAnswerDays(answers);
+    const answeredToday = new Set(
+        answers
+            .filter((answer) => getDayKey(new Date(answer.answeredAt)) === today)
+            .map((answer) => answer.userWordId),
+    );
+    const newToday = [...answeredToday].filter((id) => firstDays.get(id) === today).length;
+
+    return {
+        learned: vocabulary.filter((word) => !isNewWord(word)).length,
+        waiting: vocabulary.filter((word) => isNewWord(word)).length,
+        due: vocabulary.filter((word) => isDue(word, now)).length,
+        newToday,
+        reviewedToday: answeredToday.size - newToday,
+    };
+}
+
+/**
+ * The user's pace over the PACE_WINDOW_DAYS before today: words answered for the first
+ * time and words reviewed per day, and on how many of those days any XP was earned
+ */
+export function computeStudyPace(
+    answers: AnswerLogEntry[],
+    xpEarnedAt: string[],
+    now: Date = new Date(),
+    windowDays: number = PACE_WINDOW_DAYS,
+): StudyPace {
+    const today = getDayKey(now);
+    const windowStart = addDays(today, -windowDays);
+    const inWindow = (day: string) => day >= windowStart && day < today;
+
+    const firstDays = getFirstAnswerDays(answers);
+    const newWords = [...firstDays.values()].filter(inWindow).length;
+    const reviews = new Set<string>();
+    for (const answer of answers) {
+        const day = getDayKey(new Date(answer.answeredAt));
+        if (inWindow(day) && firstDays.get(answer.userWordId) !== day) {
+            reviews.add(`${answer.userWordId}|${day}`);
+        }
+    }
+    const activeDays = new Set(
+        xpEarnedAt.map((earnedAt) => getDayKey(new Date(earnedAt))).filter(inWindow),
+    );
+
+    return {
+        newWordsPerDay: newWords / windowDays,
+        reviewsPerDay: reviews.size / windowDays,
+        activeDays: activeDays.size,
+    };
+}
+
+/**
+ * Spread the words still missing evenly over the days left, today and the target day included
+ */
+export function createStudyPlan(
+    goal: StudyGoal,
+    learnedAtDayStart: number,
+    now: Date = new Date(),
+): StudyPlan {
+    const today = getDayKey(now);
+    if (goal.type === 'daily_review') {
+        return { goal, startDate: today, startLearned: learnedAtDayStart, dailyNewWords: 0 };
+    }
+
+    const remaining = Math.max(0, goal.targetWords - learnedAtDayStart);
+    const days = Math.max(1, daysBetween(today, goal.targetDate) + 1);
+    return {
+        goal,
+        startDate: today,
+        startLearned: learnedAtDayStart,
+        dailyNewWords: Math.ceil(remaining / days),
+    };
+}
+
+/**
+ * A word target plan is behind when the days before today added fewer words than it asked
+ */
+export function isBehindPlan(
+    plan: StudyPlan,
+    learnedAtDayStart: number,
+    now: Date = new Date(),
+): boolean {
+    if (plan.goal.type !== 'word_target') return false;
+
+    const today = getDayKey(now);
+    if (today > plan.goal.targetDate || learnedAtDayStart >= plan.goal.targetWords) return false;
+
+    const expected = plan.startLearned + plan.dailyNewWords * daysBetween(plan.startDate, today);
+    return learnedAtDayStart < expected;
+}
+
+/**
+ * New quotas for a plan that fell behind, spreading what is left over the days that are left
+ */
+export function recomputeStudyPlan(
+    plan: StudyPlan,
+    learnedAtDayStart: number,
+    now: Date = new Date(),
+): StudyPlan {
+    return {
+        ...createStudyPlan(plan.goal, learnedAtDayStart, now),
+        previousDailyNewWords: plan.dailyNewWords,
+    };
+}
+
+/**
+ * Today's quotas and the goal's standing, measured against the plan
+ */
+export function getStudyPlanProgress(
+    plan: StudyPlan,
+    words: WordProgress,
+    pace: StudyPace,
+    now: Date = new Date(),
+): StudyPlanProgress {
+    const today = getDayKey(now);
+    const reviewQuota = words.reviewedToday + words.due;
+
+    if (plan.goal.type === 'daily_review') {
+        return {
+            plan,
+            words,
+            pace,
+            newWordQuota: 0,
+            reviewQuota,
+            daysLeft: null,
+            projectedDate: null,
+            isReached: false,
+            isExpired: false,
+            isRecomputedToday: false,
+            exceedsDailyLimit: false,
+            exceedsPace: false,
+            needsMoreWords: false,
+        };
+    }
+
+    const { targetWords, targetDate } = plan.goal;
+    const remaining = Math.max(0, targetWords - words.learned);
+    const isReached = remaining === 0;
+    const newWordQuota = isReached ? 0 : plan.dailyNewWords;
+    const isExpired = !isReached && today > targetDate;
+    const projectedDate =
+        !isReached && pace.newWordsPerDay > 0
+            ? addDays(today, Math.ceil(remaining / pace.newWordsPerDay))
+            : null;
+
+    return {
+        plan,
+        words,
+        pace,
+        newWordQuota,
+        reviewQuota,
+        daysLeft: Math.max(0, daysBetween(today, targetDate)),
+        projectedDate,
+        isReached,
+        isExpired,
+        isRecomputedToday: plan.previousDailyNewWords !== undefined && plan.startDate === today,
+        exceedsDailyLimit: newWordQuota > DAILY_NEW_WORD_LIMIT,
+        // Without any recent practice there is no pace to judge the goal by
+        exceedsPace: !isExpired && projectedDate !== null && projectedDate > targetDate,
+        needsMoreWords: words.waiting < newWordQuota - words.newToday,
+    };
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from '@jest/globals';
+import { gradeAnswer, gradeChoice, splitArticle } from '../AnswerGrading';
+
+function grade(answer: string, correctAnswer: string, language = 'es') {
+    const { verdict, reason } = gradeAnswer(answer, correctAnswer, language);
+    return { verdict, reason };
+}
+
+describe('gradeAnswer', () => {
+    it('accepts exact answers regardless of case and punctuation', () => {
+        expect(grade('¡Perro!', 'perro')).toEqual({ verdict: 'correct', reason: 'exact' });
+    });
+
+    it('accepts standard spelling variants', () => {
+        expect(grade('strasse', 'Straße', 'de')).toEqual({
+            verdict: 'correct',
+            reason: 'alternative_spelling',
+        });
+    });
+
+    it('accepts a bare word when the article is not asked for', () => {
+        expect(grade('el perro', 'perro')).toEqual({ verdict: 'correct', reason: 'extra_article' });
+    });
+
+    it('marks missing and wrong articles as almost correct', () => {
+        expect(grade('perro', 'el perro')).toEqual({
+            verdict: 'almost_correct',
+            reason: 'missing_article',
+        });
+        expect(grade('der Frau', 'die Frau', 'de')).toEqual({
+            verdict: 'almost_correct',
+            reason: 'wrong_article',
+        });
+    });
+
+    it('marks missing accents and small typos as almost correct', () => {
+        expect(grade('arbol', 'árbol')).toEqual({
+            verdict: 'almost_correct',
+            reason: 'diacritics',
+        });
+        expect(grade('peror', 'perro')).toEqual({ verdict: 'almost_correct', reason: 'typo' });
+        expect(grade('casa', 'cosa')).toEqual({ verdict: 'almost_correct', reason: 'typo' });
+    });
+
+    it('does not treat a one-letter change in a short word as a typo', () => {
+        expect(grade('mar', 'mal')).toEqual({ verdict: 'wrong', reason: 'mismatch' });
+    });
+
+    it('marks skipped and empty answers wrong', () => {
+        expect(grade('__SKIPPED__', 'perro')).toEqual({ verdict: 'wrong', reason: 'skipped' });
+        expect(grade('  ', 'perro')).toEqual({ verdict: 'wrong', reason: 'mismatch' });
+    });
+
+    it('gives half credit for almost correct answers', () => {
+        expect(gradeAnswer('peror', 'perro', 'es').credit).toBe(0.5);
+        expect(gradeAnswer('perro', 'perro', 'es').credit).toBe(1);
+        expect(gradeAnswer('gato', 'perro', 'es').credit).toBe(0);
+    });
+});
+
+describe('gradeChoice', () => {
+    it('only accepts the exact option', () => {
+        expect(gradeChoice(' Perro ', 'perro').verdict).toBe('correct');
+        expect(gradeChoice('peror', 'perro').verdict).toBe('wrong');
+    });
+});
+
+describe('splitArticle', () => {
+    it('splits leading and elided articles', () => {
+        expect(splitArticle('el perro', 'es')).toEqual({ article: 'el', body: 'perro' });
+        expect(splitArticle("l'eau", 'fr')).toEqual({ article: "l'", body: 'eau' });
+        expect(splitArticle('perro', 'es')).toEqual({ article: null, body: 'perro' });
+    });
+});
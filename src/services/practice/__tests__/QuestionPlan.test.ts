@@ -0,0 +1,70 @@
+import { describe, expect, it } from '@jest/globals';
+import { SavedWord } from '../../VocabularyService';
+import { buildQuestionPlan, createGenerationRandom, createRandom } from '../QuestionPlan';
+
+const now = new Date('2025-06-01T12:00:00Z');
+
+function makeWord(index: number): SavedWord {
+    return {
+        id: `word${index}_es`,
+        original: `word${index}`,
+        translation: `palabra${index}`,
+        example: '',
+        exampleEnglish: '',
+        language: 'es',
+        proficiency: 20 + index,
+        learnedAt: '2025-01-01T00:00:00Z',
+        reviewRepetitions: 1,
+        reviewInterval: 1,
+        nextReviewAt: '2025-05-31T00:00:00Z',
+        lastReviewedAt: '2025-05-30T00:00:00Z',
+    };
+}
+
+const vocabulary = Array.from({ length: 20 }, (_, index) => makeWord(index));
+
+function plan(seed: number) {
+    return buildQuestionPlan(vocabulary, seed, {}, { questionCount: 10, now }).map((planned) => ({
+        word: planned.word.id,
+        type: planned.type,
+    }));
+}
+
+describe('createRandom', () => {
+    it('returns the same sequence for the same seed', () => {
+        const first = createRandom(42);
+        const second = createRandom(42);
+        const values = Array.from({ length: 5 }, () => first());
+
+        expect(Array.from({ length: 5 }, () => second())).toEqual(values);
+        values.forEach((value) => {
+            expect(value).toBeGreaterThanOrEqual(0);
+            expect(value).toBeLessThan(1);
+        });
+    });
+});
+
+describe('createGenerationRandom', () => {
+    it('draws different numbers than the plan for the same seed', () => {
+        const plan = createRandom(42);
+        const generation = createGenerationRandom(42);
+
+        expect(Array.from({ length: 5 }, () => generation())).not.toEqual(
+            Array.from({ length: 5 }, () => plan()),
+        );
+    });
+});
+
+describe('buildQuestionPlan', () => {
+    it('gives the same plan for the same seed', () => {
+        expect(plan(1234)).toEqual(plan(1234));
+    });
+
+    it('gives a different plan for a different seed', () => {
+        expect(plan(1234)).not.toEqual(plan(5678));
+    });
+
+    it('asks the requested number of questions', () => {
+        expect(plan(1234)).toHaveLength(10);
+    });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from '@jest/globals';
+import { SavedWord } from '../../VocabularyService';
+import {
+    DEFAULT_EASE_FACTOR,
+    getReviewSchedule,
+    isDue,
+    scheduleReview,
+    selectWordsForSession,
+} from '../SpacedRepetition';
+
+const now = new Date('2025-06-01T12:00:00Z');
+
+function makeWord(id: string, fields: Partial<SavedWord> = {}): SavedWord {
+    return {
+        id,
+        original: id,
+        translation: id,
+        example: '',
+        exampleEnglish: '',
+        language: 'es',
+        proficiency: 0,
+        learnedAt: '2025-01-01T00:00:00Z',
+        ...fields,
+    };
+}
+
+const newSchedule = {
+    easeFactor: DEFAULT_EASE_FACTOR,
+    interval: 0,
+    repetitions: 0,
+    nextReviewAt: null,
+    lastReviewedAt: null,
+};
+
+describe('scheduleReview', () => {
+    it('grows the interval 1, 6, then by the ease factor on correct answers', () => {
+        const first = scheduleReview(newSchedule, 5, now);
+        const second = scheduleReview(first, 5, now);
+        const third = scheduleReview(second, 5, now);
+
+        expect([first.interval, second.interval, third.interval]).toEqual([
+            1,
+            6,
+            Math.round(6 * second.easeFactor),
+        ]);
+        expect(first.nextReviewAt).toBe('2025-06-02T12:00:00.000Z');
+    });
+
+    it('starts the word over on a failed recall and lowers the ease factor', () => {
+        const learned = scheduleReview(scheduleReview(newSchedule, 5, now), 5, now);
+        const failed = scheduleReview(learned, 1, now);
+
+        expect(failed.interval).toBe(1);
+        expect(failed.repetitions).toBe(0);
+        expect(failed.easeFactor).toBeLessThan(learned.easeFactor);
+    });
+});
+
+describe('legacy words', () => {
+    it('credits unscheduled practiced words with progress matching their proficiency', () => {
+        expect(getReviewSchedule(makeWord('known', { proficiency: 90 }))).toMatchObject({
+            interval: 14,
+            repetitions: 2,
+        });
+        expect(getReviewSchedule(makeWord('practiced', { proficiency: 50 }))).toMatchObject({
+            interval: 6,
+            repetitions: 1,
+        });
+        expect(getReviewSchedule(makeWord('weak', { proficiency: 10 }))).toMatchObject({
+            interval: 0,
+            repetitions: 0,
+        });
+    });
+
+    it('is due, but comes after overdue words, weakest first', () => {
+        const overdue = makeWord('overdue', {
+            proficiency: 60,
+            nextReviewAt: '2025-05-30T00:00:00Z',
+        });
+        const known = makeWord('known', { proficiency: 90 });
+        const weak = makeWord('weak', { proficiency: 10 });
+        const practiced = makeWord('practiced', { proficiency: 50 });
+
+        expect(isDue(known, now)).toBe(true);
+        const selected = selectWordsForSession([known, practiced, overdue, weak], 4, { now });
+        expect(selected.map((word) => word.id)).toEqual(['overdue', 'weak', 'practiced', 'known']);
+    });
+
+    it('puts new words before well-known legacy words', () => {
+        const known = makeWord('known', { proficiency: 90 });
+        const fresh = makeWord('new');
+
+        const selected = selectWordsForSession([known, fresh], 1, { now });
+        expect(selected.map((word) => word.id)).toEqual(['new']);
+    });
+});
@@ -0,0 +1,54 @@
+// String comparison helpers shared by pronunciation scoring and answer grading
+
+/**
+ * Edit distance between two strings (insertions, deletions, substitutions)
+ */
+export function levenshteinDistance(text1: string, text2: string): number {
+    if (!text1) return text2.length;
+    if (!text2) return text1.length;
+
+    const matrix: number[][] = [];
+
+    for (let i = 0; i <= text2.length; i++) {
+        matrix[i] = [i];
+    }
+
+    for (let j = 0; j <= text1.length; j++) {
+        matrix[0][j] = j;
+    }
+
+    for (let i = 1; i <= text2.length; i++) {
+        for (let j = 1; j <= text1.length; j++) {
+            if (text2.charAt(i - 1) === text1.charAt(j - 1)) {
+                matrix[i][j] = matrix[i - 1][j - 1];
+            } else {
+                matrix[i][j] = Math.min(
+                    matrix[i - 1][j - 1] + 1,
+                    matrix[i][j - 1] + 1,
+                    matrix[i - 1][j] + 1,
+                );
+            }
+        }
+    }
+
+    return matrix[text2.length][text1.length];
+}
+
+/**
+ * Edit distance normalized to a 0-1 similarity score
+ */
+export function levenshteinSimilarity(text1: string, text2: string): number {
+    const distance = levenshteinDistance(text1, text2);
+    const maxLength = Math.max(text1.length, text2.length);
+    return maxLength === 0 ? 1 : 1 - distance / maxLength;
+}
+
+/**
+ * Remove accents and other combining marks ("café" -> "cafe")
+ */
+export function stripDiacritics(text: string): string {
+    return text
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .normalize('NFC');
+}
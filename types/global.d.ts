@@ -8,6 +8,17 @@ declare namespace NodeJS {
   }
 }
 
+// A local file appended to FormData; React Native uploads it from its uri
+interface ReactNativeFile {
+  uri: string;
+  name: string;
+  type: string;
+}
+
+interface FormData {
+  append(name: string, value: ReactNativeFile): void;
+}
+
 // Module declarations for assets
 declare module "*.png" {
   const value: any;